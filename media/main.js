@@ -10,6 +10,20 @@
     let dependencyTreeData = null;
     let resolvedDependenciesLoaded = false;
     let resolvedDependenciesData = null;
+    let conflictsLoaded = false;
+    let conflictsData = null;
+    let conflictsResolvedWithoutMaven = false;
+    let analysisLoaded = false;
+    let analysisData = null;
+    let analysisIgnored = new Set();
+    let propertiesLoaded = false;
+    let propertiesData = null;
+    let propertiesFromEffectivePom = false;
+    let propertiesQuery = '';
+    let modulesLoaded = false;
+    let modulesData = null;
+    let selectedModulePath = null;
+    let activeProfiles = typeof initialProfiles !== 'undefined' ? initialProfiles : [];
     let expandedNodes = new Set();
     let searchQuery = '';
     let showGroupId = true;
@@ -46,6 +60,9 @@
         'expandAll': 'Expand All',
         'collapseAll': 'Collapse All',
         'refresh': 'Refresh',
+        'addDependency': 'Add Dependency',
+        'compareDependencies': 'Compare',
+        'compareDependenciesHint': 'Compare dependencies with a Git revision or the last saved snapshot',
         'loading': 'Loading...',
         'noDependencies': 'No dependencies found',
         'noMatches': 'No matching dependencies',
@@ -57,6 +74,78 @@
         'omittedManaged': 'managed',
         'panelDependencyHierarchy': 'Dependency Hierarchy',
         'panelResolvedDependencies': 'Resolved Dependencies',
+        'loadingConflicts': 'Analyzing dependency conflicts...',
+        'errorConflicts': 'Failed to analyze dependency conflicts',
+        'noConflicts': 'No version conflicts found',
+        'conflictPicked': 'Maven picked',
+        'conflictOmitted': 'omitted',
+        'conflictSelected': 'selected',
+        'pinVersion': 'Pin Version',
+        'pinVersionHint': 'Pin a version in <dependencyManagement>',
+        'excludeLosing': 'Exclude Losing Paths',
+        'excludeLosingHint': 'Exclude this artifact from the direct dependencies that bring in omitted versions',
+        'declareDirectly': 'Declare Directly',
+        'declareDirectlyHint': 'Declare this artifact as a direct dependency',
+        'loadingAnalysis': 'Compiling the project and analyzing dependency usage...',
+        'errorAnalysis': 'Failed to analyze dependency usage',
+        'analysisHint': 'Based on compiled bytecode: dependencies used only through reflection, annotations kept at source level or at runtime may be reported as unused.',
+        'usedUndeclared': 'Used but not declared',
+        'usedUndeclaredHint': 'Used directly by the code but only available as transitive dependencies',
+        'unusedDeclared': 'Declared but not used',
+        'unusedDeclaredHint': 'Declared in the POM but not referenced by the compiled code',
+        'noAnalysisProblems': 'No dependency usage problems found',
+        'ignoredAnalysisEntries': 'Ignored ({0})',
+        'declareUsedDependency': 'Declare',
+        'declareUsedDependencyHint': 'Add this artifact to <dependencies> with the version currently resolved',
+        'removeUnusedDependency': 'Remove',
+        'removeUnusedDependencyHint': 'Remove this declaration from the POM',
+        'ignoreAnalysisEntry': 'Ignore',
+        'restoreAnalysisEntry': 'Restore',
+        'loadingProperties': 'Loading properties...',
+        'errorProperties': 'Failed to load properties',
+        'noProperties': 'No properties are declared in this POM or its parents',
+        'searchProperties': 'Filter properties...',
+        'propertyName': 'Property',
+        'propertyEffectiveValue': 'Effective Value',
+        'propertyDeclaredIn': 'Declared In',
+        'propertyUsages': 'Usages',
+        'propertyOverridden': 'overridden',
+        'propertyProfile': 'profile: {0}',
+        'propertyNoUsages': 'Not used',
+        'propertyUsageCount': '{0} usage(s)',
+        'propertyValueFromChain': 'Effective POM is not available; values are computed from the POM and its parents',
+        'editPropertyValue': 'Edit Value',
+        'renameProperty': 'Rename',
+        'loadingModules': 'Analyzing modules...',
+        'errorModules': 'Failed to analyze modules',
+        'notMultiModule': 'This project does not declare any modules',
+        'modulesSummary': '{0} module(s)',
+        'moduleGraph': 'Module Dependencies',
+        'buildOrder': 'Build Order',
+        'moduleCycles': 'Cycles between modules ({0})',
+        'moduleCyclesHint': 'Maven refuses to build a reactor whose modules depend on each other in a cycle',
+        'missingModules': 'Missing modules ({0})',
+        'moduleDeclaredIn': 'declared in',
+        'moduleDependsOn': 'Depends on',
+        'moduleNoDependencies': 'none',
+        'moduleCurrent': 'current',
+        'moduleKindParent': 'parent',
+        'moduleKindPlugin': 'plugin',
+        'moduleKindExtension': 'extension',
+        'openModulePomView': 'Open POM View',
+        'runModuleGoal': 'Run...',
+        'runModuleGoalHint': 'Run a Maven goal for this module only (-pl)',
+        'resolvedWithoutMaven': 'Resolved without Maven',
+        'resolvedWithoutMavenHint': 'Resolved from POMs in the workspace and local repository without running Maven. Profiles are not activated, so results may differ from Maven.',
+        'profiles': 'Profiles',
+        'defaultProfiles': 'default',
+        'selectProfilesHint': 'Profiles activated with -P for every Maven run in this view and for Maven tasks of this POM',
+        'cancel': 'Cancel',
+        'cancelling': 'Cancelling...',
+        'elapsed': 'Elapsed {0}',
+        'buildingModule': 'Building {0}',
+        'downloadedFiles': '{0} files downloaded',
+        'downloadingFile': 'Downloading {0}',
     };
 
     const zhDict = {
@@ -76,6 +165,9 @@
         'expandAll': '展开所有',
         'collapseAll': '折叠所有',
         'refresh': '刷新',
+        'addDependency': '添加依赖',
+        'compareDependencies': '比较',
+        'compareDependenciesHint': '与 Git 版本或上次保存前的快照比较依赖',
         'loading': '加载中...',
         'noDependencies': '没有找到依赖',
         'noMatches': '没有匹配的依赖',
@@ -87,6 +179,78 @@
         'omittedManaged': '托管',
         'panelDependencyHierarchy': '依赖层级',
         'panelResolvedDependencies': '已解析依赖',
+        'loadingConflicts': '正在分析依赖冲突...',
+        'errorConflicts': '无法分析依赖冲突',
+        'noConflicts': '没有发现版本冲突',
+        'conflictPicked': 'Maven 选用',
+        'conflictOmitted': '已省略',
+        'conflictSelected': '已选用',
+        'pinVersion': '锁定版本',
+        'pinVersionHint': '在 <dependencyManagement> 中锁定版本',
+        'excludeLosing': '排除落选路径',
+        'excludeLosingHint': '在引入被省略版本的直接依赖中排除该构件',
+        'declareDirectly': '直接声明',
+        'declareDirectlyHint': '将该构件声明为直接依赖',
+        'loadingAnalysis': '正在编译项目并分析依赖使用情况...',
+        'errorAnalysis': '分析依赖使用情况失败',
+        'analysisHint': '分析基于编译后的字节码：只通过反射、源码级注解或在运行时使用的依赖可能被报告为未使用。',
+        'usedUndeclared': '使用但未声明',
+        'usedUndeclaredHint': '代码直接使用、但只通过传递依赖引入',
+        'unusedDeclared': '声明但未使用',
+        'unusedDeclaredHint': '已在 POM 中声明、但编译后的代码没有引用',
+        'noAnalysisProblems': '没有发现依赖使用问题',
+        'ignoredAnalysisEntries': '已忽略 ({0})',
+        'declareUsedDependency': '声明',
+        'declareUsedDependencyHint': '以当前解析出的版本添加到 <dependencies>',
+        'removeUnusedDependency': '删除',
+        'removeUnusedDependencyHint': '从 POM 中删除该声明',
+        'ignoreAnalysisEntry': '忽略',
+        'restoreAnalysisEntry': '恢复',
+        'loadingProperties': '正在加载属性...',
+        'errorProperties': '加载属性失败',
+        'noProperties': '该 POM 及其父 POM 中没有声明属性',
+        'searchProperties': '过滤属性...',
+        'propertyName': '属性',
+        'propertyEffectiveValue': '生效值',
+        'propertyDeclaredIn': '声明位置',
+        'propertyUsages': '引用',
+        'propertyOverridden': '已被覆盖',
+        'propertyProfile': 'profile: {0}',
+        'propertyNoUsages': '未被引用',
+        'propertyUsageCount': '{0} 处引用',
+        'propertyValueFromChain': '没有可用的 Effective POM，生效值根据当前 POM 及其父 POM 计算',
+        'editPropertyValue': '修改值',
+        'renameProperty': '重命名',
+        'loadingModules': '正在分析模块...',
+        'errorModules': '分析模块失败',
+        'notMultiModule': '该项目没有声明模块',
+        'modulesSummary': '{0} 个模块',
+        'moduleGraph': '模块依赖',
+        'buildOrder': '构建顺序',
+        'moduleCycles': '模块之间的循环依赖 ({0})',
+        'moduleCyclesHint': '模块之间存在循环依赖时 Maven 无法构建',
+        'missingModules': '找不到的模块 ({0})',
+        'moduleDeclaredIn': '声明于',
+        'moduleDependsOn': '依赖',
+        'moduleNoDependencies': '无',
+        'moduleCurrent': '当前',
+        'moduleKindParent': '父 POM',
+        'moduleKindPlugin': '插件',
+        'moduleKindExtension': '构建扩展',
+        'openModulePomView': '打开 POM 视图',
+        'runModuleGoal': '运行...',
+        'runModuleGoalHint': '只对该模块运行 Maven 目标（-pl）',
+        'resolvedWithoutMaven': '未使用 Maven 解析',
+        'resolvedWithoutMavenHint': '根据工作区和本地仓库中的 POM 解析，未运行 Maven。不会激活 profile，结果可能与 Maven 不同。',
+        'profiles': 'Profiles',
+        'defaultProfiles': '默认',
+        'selectProfilesHint': '该视图中运行 Maven 以及该 POM 的 Maven 任务以 -P 激活的 profile',
+        'cancel': '取消',
+        'cancelling': '正在取消...',
+        'elapsed': '已用时 {0}',
+        'buildingModule': '正在构建 {0}',
+        'downloadedFiles': '已下载 {0} 个文件',
+        'downloadingFile': '正在下载 {0}',
     };
 
     // Setup tab switching
@@ -97,6 +261,18 @@
         });
     });
 
+    const profilesButton = document.getElementById('select-profiles');
+    profilesButton.title = i18n('selectProfilesHint');
+    profilesButton.addEventListener('click', () => {
+        vscode.postMessage({ type: 'selectProfiles' });
+    });
+    updateProfilesButton();
+
+    function updateProfilesButton() {
+        profilesButton.textContent = `${i18n('profiles')}: ${activeProfiles.join(', ') || i18n('defaultProfiles')}`;
+        profilesButton.classList.toggle('selected', activeProfiles.length > 0);
+    }
+
     function switchTab(tabId) {
         // Update button states
         tabButtons.forEach(btn => {
@@ -140,6 +316,22 @@
                     loadResolvedDependencies();
                 }, 100);
             }
+        } else if (tabId === 'dependency-analysis') {
+            if (!analysisLoaded) {
+                loadDependencyAnalysis();
+            }
+        } else if (tabId === 'dependency-conflicts') {
+            if (!conflictsLoaded) {
+                loadConflicts();
+            }
+        } else if (tabId === 'pom-properties') {
+            if (!propertiesLoaded) {
+                loadProperties();
+            }
+        } else if (tabId === 'reactor-modules') {
+            if (!modulesLoaded) {
+                loadModules();
+            }
         }
     }
 
@@ -152,6 +344,7 @@
                 <div class="loading-spinner"></div>
                 <p>${i18n('loadingEffectivePom')}</p>
                 <p class="loading-hint">${i18n('loadingHint')}</p>
+                ${getMavenProgressHtml('effectivePom')}
             </div>
         `;
 
@@ -238,6 +431,8 @@
                     <button class="toolbar-btn" id="expand-all" title="${i18n('expandAll')}">${i18n('expandAll')}</button>
                     <button class="toolbar-btn" id="collapse-all" title="${i18n('collapseAll')}">${i18n('collapseAll')}</button>
                     <button class="toolbar-btn" id="refresh-tree" title="${i18n('refresh')}">${i18n('refresh')}</button>
+                    <button class="toolbar-btn" id="add-dependency" title="${i18n('addDependency')}">${i18n('addDependency')}</button>
+                    <button class="toolbar-btn" id="compare-dependencies" title="${i18n('compareDependenciesHint')}">${i18n('compareDependencies')}</button>
                 </div>
             </div>
         `;
@@ -247,13 +442,14 @@
         return `
             <div class="left-panel">
                 <div class="panel-header">
-                    <span class="panel-title">${i18n('panelDependencyHierarchy')}</span>
+                    <span class="panel-title">${i18n('panelDependencyHierarchy')}${getOfflineBadgeHtml(isTreeResolvedWithoutMaven())}</span>
                 </div>
                 <div id="dependency-tree-view">
                     <div class="loading-container">
                         <div class="loading-spinner"></div>
                         <p>${i18n('loadingDependencyInfo')}</p>
                         <p class="loading-hint">${i18n('loadingHint')}</p>
+                        ${getMavenProgressHtml('dependencyTree')}
                     </div>
                 </div>
             </div>
@@ -264,7 +460,7 @@
         return `
             <div class="right-panel">
                 <div class="panel-header">
-                    <span class="panel-title">${i18n('panelResolvedDependencies')}</span>
+                    <span class="panel-title">${i18n('panelResolvedDependencies')}${getOfflineBadgeHtml(isListResolvedWithoutMaven())}</span>
                     ${resolvedDependenciesData ? `<span class="dependency-count">${getFilteredResolvedCount()} / ${resolvedDependenciesData.length}</span>` : ''}
                 </div>
                 <div id="resolved-dependencies-view">
@@ -319,6 +515,7 @@
                     <div class="loading-spinner"></div>
                     <p>${i18n('loadingDependencyList')}</p>
                     <p class="loading-hint">${i18n('loadingHint')}</p>
+                    ${getMavenProgressHtml('resolvedDependencies')}
                 </div>
             `;
         }
@@ -344,6 +541,9 @@
             }
         }
 
+        // 默认展开项目根节点，直接依赖一进入即可见
+        (data || []).forEach(root => expandedNodes.add(getNodeId(root)));
+
         // 只更新左栏，不等待右栏数据
         updateLeftPanel();
 
@@ -366,6 +566,7 @@
         if (leftPanelView) {
             leftPanelView.innerHTML = dependencyTreeData ? renderTreeNodes(dependencyTreeData, searchQuery) : `<div class="loading-container"><div class="loading-spinner"></div><p>${i18n('loading')}</p></div>`;
         }
+        updateOfflineBadge('.left-panel .panel-title', isTreeResolvedWithoutMaven());
     }
 
     function updateRightPanel() {
@@ -374,6 +575,8 @@
             rightPanelView.innerHTML = resolvedDependenciesData ? renderResolvedList(resolvedDependenciesData, searchQuery) : `<div class="loading-container"><div class="loading-spinner"></div><p>${i18n('loading')}</p></div>`;
         }
 
+        updateOfflineBadge('.right-panel .panel-title', isListResolvedWithoutMaven());
+
         // 更新右栏标题中的依赖数量
         const rightPanelHeader = document.querySelector('.right-panel .panel-header');
         if (rightPanelHeader && resolvedDependenciesData) {
@@ -389,6 +592,101 @@
         }
     }
 
+    function isTreeResolvedWithoutMaven() {
+        return !!dependencyTreeData && dependencyTreeData.some(root => root.resolvedWithoutMaven);
+    }
+
+    function isListResolvedWithoutMaven() {
+        return !!resolvedDependenciesData && resolvedDependenciesData.some(dep => dep.resolvedWithoutMaven);
+    }
+
+    // 加载提示下方的 Maven 运行进度，进度来自扩展发送的 mavenProgress 消息
+    const mavenProgressStates = new Map();
+
+    function getMavenProgressHtml(progressKey) {
+        mavenProgressStates.set(progressKey, { startTime: Date.now(), status: '', progress: null, cancelling: false });
+        return `
+            <div class="maven-progress" data-progress-key="${progressKey}">
+                <p class="maven-progress-status"></p>
+                <p class="maven-progress-detail"></p>
+                <button class="maven-cancel" data-progress-key="${progressKey}" style="display: none;">${i18n('cancel')}</button>
+            </div>
+        `;
+    }
+
+    function formatElapsed(milliseconds) {
+        const seconds = Math.floor(milliseconds / 1000);
+        return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+    }
+
+    function renderMavenProgress(progressKey) {
+        const state = mavenProgressStates.get(progressKey);
+        const container = document.querySelector(`.maven-progress[data-progress-key="${progressKey}"]`);
+        if (!state || !container) {
+            // 结果已显示，视图中不再有进度
+            mavenProgressStates.delete(progressKey);
+            return;
+        }
+
+        const details = [i18n('elapsed').replace('{0}', formatElapsed(Date.now() - state.startTime))];
+        const progress = state.progress;
+        if (progress && progress.module) {
+            const index = progress.moduleCount ? ` (${progress.moduleIndex}/${progress.moduleCount})` : '';
+            details.push(i18n('buildingModule').replace('{0}', progress.module + index));
+        }
+        if (progress && progress.downloaded > 0) {
+            details.push(i18n('downloadedFiles').replace('{0}', progress.downloaded));
+        }
+        container.querySelector('.maven-progress-status').textContent = progress && progress.downloading
+            ? i18n('downloadingFile').replace('{0}', progress.downloading)
+            : state.status;
+        container.querySelector('.maven-progress-detail').textContent = details.join(' · ');
+
+        // Maven 开始运行后才能取消
+        const cancelButton = container.querySelector('.maven-cancel');
+        cancelButton.style.display = progress ? '' : 'none';
+        cancelButton.disabled = state.cancelling;
+        cancelButton.textContent = state.cancelling ? i18n('cancelling') : i18n('cancel');
+    }
+
+    setInterval(() => {
+        for (const progressKey of [...mavenProgressStates.keys()]) {
+            renderMavenProgress(progressKey);
+        }
+    }, 1000);
+
+    document.addEventListener('click', (e) => {
+        const cancelButton = e.target.closest && e.target.closest('.maven-cancel');
+        const state = cancelButton && mavenProgressStates.get(cancelButton.dataset.progressKey);
+        if (!state || state.cancelling) {
+            return;
+        }
+        state.cancelling = true;
+        vscode.postMessage({ type: 'cancelMaven', progressKey: cancelButton.dataset.progressKey });
+        renderMavenProgress(cancelButton.dataset.progressKey);
+    });
+
+    // 离线解析（未运行 Maven）的结果在标题旁显示标记
+    function getOfflineBadgeHtml(offline) {
+        return offline
+            ? ` <span class="offline-badge" title="${escapeHtml(i18n('resolvedWithoutMavenHint'))}">${i18n('resolvedWithoutMaven')}</span>`
+            : '';
+    }
+
+    function updateOfflineBadge(titleSelector, offline) {
+        const title = document.querySelector(titleSelector);
+        if (!title) {
+            return;
+        }
+        const badge = title.querySelector('.offline-badge');
+        if (badge) {
+            badge.remove();
+        }
+        if (offline) {
+            title.insertAdjacentHTML('beforeend', getOfflineBadgeHtml(true));
+        }
+    }
+
     function renderDependencyTree() {
         const dependencyHierarchyContent = document.getElementById('dependency-hierarchy');
 
@@ -399,7 +697,7 @@
                 <div class="dual-panel-container">
                     <div class="left-panel">
                         <div class="panel-header">
-                            <span class="panel-title">${i18n('panelDependencyHierarchy')}</span>
+                            <span class="panel-title">${i18n('panelDependencyHierarchy')}${getOfflineBadgeHtml(isTreeResolvedWithoutMaven())}</span>
                         </div>
                         <div id="dependency-tree-view">
                             ${dependencyTreeData ? renderTreeNodes(dependencyTreeData, searchQuery) : `<div class="loading-container"><div class="loading-spinner"></div><p>${i18n('loading')}</p></div>`}
@@ -408,7 +706,7 @@
                     <div class="panel-divider"></div>
                     <div class="right-panel">
                         <div class="panel-header">
-                            <span class="panel-title">${i18n('panelResolvedDependencies')}</span>
+                            <span class="panel-title">${i18n('panelResolvedDependencies')}${getOfflineBadgeHtml(isListResolvedWithoutMaven())}</span>
                             ${resolvedDependenciesData ? `<span class="dependency-count">${getFilteredResolvedCount()} / ${resolvedDependenciesData.length}</span>` : ''}
                         </div>
                         <div id="resolved-dependencies-view">
@@ -442,7 +740,7 @@
         const maxNodes = 1000; // 限制渲染的节点数量，防止性能问题
 
         for (const node of nodes) {
-            const nodeHtml = renderTreeNode(node, query, 0);
+            const nodeHtml = renderTreeNode(node, query, 0, null);
             if (nodeHtml) {
                 html += nodeHtml;
                 nodeCount++;
@@ -462,8 +760,10 @@
         return html;
     }
 
-    function renderTreeNode(node, query, level) {
+    function renderTreeNode(node, query, level, directNode) {
         const nodeId = getNodeId(node);
+        // 第 1 层为直接依赖，更深层级记录引入它的直接依赖（用于排除操作）
+        const direct = level === 1 ? node : directNode;
         const isExpanded = expandedNodes.has(nodeId);
         const hasChildren = node.children && node.children.length > 0;
         const matchesSearch = nodeMatchesSearch(node, query);
@@ -503,7 +803,7 @@
         }
 
         let html = `
-            <li class="tree-node ${highlightClass} ${selectedClass} ${omittedClass}" data-node-id="${nodeId}" data-level="${level}" data-artifact-id="${escapeHtml(node.artifactId)}" data-group-id="${escapeHtml(node.groupId)}">
+            <li class="tree-node ${highlightClass} ${selectedClass} ${omittedClass}" data-node-id="${nodeId}" data-level="${level}" data-artifact-id="${escapeHtml(node.artifactId)}" data-group-id="${escapeHtml(node.groupId)}"${direct ? ` data-direct-group-id="${escapeHtml(direct.groupId)}" data-direct-artifact-id="${escapeHtml(direct.artifactId)}"` : ''}>
                 <div class="node-content">
                     <span class="expand-icon ${hasChildren ? 'has-children' : ''}" data-node-id="${nodeId}">
                         ${expandIcon}
@@ -519,7 +819,7 @@
                         <button class="mvn-repo-btn" data-group-id="${escapeHtml(node.groupId)}" data-artifact-id="${escapeHtml(node.artifactId)}" title="View versions">📦</button>
                     </span>
                 </div>
-                ${hasChildren && isExpanded ? `<ul class="tree-children">${node.children.map(child => renderTreeNode(child, query, level + 1)).join('')}</ul>` : ''}
+                ${hasChildren && isExpanded ? `<ul class="tree-children">${node.children.map(child => renderTreeNode(child, query, level + 1, direct)).join('')}</ul>` : ''}
             </li>
         `;
 
@@ -732,16 +1032,23 @@
         const refreshBtn = document.getElementById('refresh-tree');
         if (refreshBtn) {
             refreshBtn.addEventListener('click', () => {
-                dependencyTreeLoaded = false;
-                resolvedDependenciesLoaded = false;
-                expandedNodes.clear();
-                clearAllSelections();
-                searchQuery = '';
-                filteredArtifactId = null;
-                isProcessingClick = false; // 重置处理状态
-                eventListenersAttached = false; // 重置事件监听器状态
-                loadDependencyTree(true); // 强制刷新
-                loadResolvedDependencies(true); // 强制刷新
+                refreshDependencyViews();
+            });
+        }
+
+        // Add dependency button
+        const addDependencyBtn = document.getElementById('add-dependency');
+        if (addDependencyBtn) {
+            addDependencyBtn.addEventListener('click', () => {
+                vscode.postMessage({ type: 'addDependency' });
+            });
+        }
+
+        // Compare dependencies button
+        const compareDependenciesBtn = document.getElementById('compare-dependencies');
+        if (compareDependenciesBtn) {
+            compareDependenciesBtn.addEventListener('click', () => {
+                vscode.postMessage({ type: 'compareDependencies' });
             });
         }
 
@@ -762,6 +1069,19 @@
         setupContextMenu(resolvedView, 'resolved');
     }
 
+    function refreshDependencyViews(forceRefresh = true) {
+        dependencyTreeLoaded = false;
+        resolvedDependenciesLoaded = false;
+        expandedNodes.clear();
+        clearAllSelections();
+        searchQuery = '';
+        filteredArtifactId = null;
+        isProcessingClick = false; // 重置处理状态
+        eventListenersAttached = false; // 重置事件监听器状态
+        loadDependencyTree(forceRefresh);
+        loadResolvedDependencies(forceRefresh);
+    }
+
     function setupContextMenu(container, type) {
         if (!container) return;
 
@@ -781,11 +1101,75 @@
             const artifactId = targetElement.getAttribute('data-artifact-id');
             if (!groupId || !artifactId) return;
 
-            contextMenuTarget = { groupId, artifactId };
+            // 只有传递依赖（第 2 层及以下）才能被排除
+            const level = parseInt(targetElement.getAttribute('data-level') || '0', 10);
+            const directGroupId = targetElement.getAttribute('data-direct-group-id');
+            const directArtifactId = targetElement.getAttribute('data-direct-artifact-id');
+            const canExclude = type === 'tree' && level >= 2 && directGroupId && directArtifactId;
+
+            const path = type === 'tree'
+                ? getTreeNodePath(targetElement)
+                : findDependencyPath(dependencyTreeData || [], groupId, artifactId);
+
+            contextMenuTarget = { groupId, artifactId, directGroupId, directArtifactId, path };
+            const excludeItem = document.getElementById('context-menu-exclude');
+            if (excludeItem) {
+                excludeItem.style.display = canExclude ? '' : 'none';
+            }
             showContextMenu(e.clientX, e.clientY);
         });
     }
 
+    /**
+     * 从 DOM 中收集树节点的路径（从直接依赖到该节点，不含项目根节点）
+     */
+    function getTreeNodePath(element) {
+        const path = [];
+        for (let current = element; current; current = current.parentElement && current.parentElement.closest('.tree-node')) {
+            if (parseInt(current.getAttribute('data-level') || '0', 10) === 0) {
+                break;
+            }
+            path.unshift({
+                groupId: current.getAttribute('data-group-id'),
+                artifactId: current.getAttribute('data-artifact-id')
+            });
+        }
+        return path;
+    }
+
+    /**
+     * 在依赖树数据中查找依赖的路径，优先返回 Maven 实际选用（未被省略）的节点
+     */
+    function findDependencyPath(rootNodes, groupId, artifactId) {
+        let fallback = null;
+        const search = (node, path) => {
+            const currentPath = [...path, { groupId: node.groupId, artifactId: node.artifactId }];
+            if (node.groupId === groupId && node.artifactId === artifactId) {
+                if (!node.omittedReason) {
+                    return currentPath;
+                }
+                fallback = fallback || currentPath;
+            }
+            for (const child of node.children || []) {
+                const found = search(child, currentPath);
+                if (found) {
+                    return found;
+                }
+            }
+            return null;
+        };
+
+        for (const root of rootNodes) {
+            for (const child of root.children || []) {
+                const found = search(child, []);
+                if (found) {
+                    return found;
+                }
+            }
+        }
+        return fallback;
+    }
+
     function showContextMenu(x, y) {
         const menu = document.getElementById('context-menu');
         if (!menu) return;
@@ -832,7 +1216,24 @@
                 vscode.postMessage({
                     type: 'locateInEditor',
                     groupId: contextMenuTarget.groupId,
-                    artifactId: contextMenuTarget.artifactId
+                    artifactId: contextMenuTarget.artifactId,
+                    path: contextMenuTarget.path
+                });
+            }
+            hideContextMenu();
+        });
+    }
+
+    const contextMenuExclude = document.getElementById('context-menu-exclude');
+    if (contextMenuExclude) {
+        contextMenuExclude.addEventListener('click', () => {
+            if (contextMenuTarget && contextMenuTarget.directGroupId) {
+                vscode.postMessage({
+                    type: 'excludeDependency',
+                    groupId: contextMenuTarget.groupId,
+                    artifactId: contextMenuTarget.artifactId,
+                    directGroupId: contextMenuTarget.directGroupId,
+                    directArtifactId: contextMenuTarget.directArtifactId
                 });
             }
             hideContextMenu();
@@ -1127,7 +1528,760 @@
         }
     }
 
+    function loadConflicts(forceRefresh = false) {
+        const conflictsContent = document.getElementById('dependency-conflicts');
+        conflictsContent.innerHTML = `
+            <div class="loading-container">
+                <div class="loading-spinner"></div>
+                <p>${i18n('loadingConflicts')}</p>
+                <p class="loading-hint">${i18n('loadingHint')}</p>
+                ${getMavenProgressHtml('conflicts')}
+            </div>
+        `;
+
+        vscode.postMessage({
+            type: 'getConflicts',
+            forceRefresh: forceRefresh
+        });
+    }
+
+    function initializeConflicts(data, resolvedWithoutMaven) {
+        conflictsData = data;
+        conflictsResolvedWithoutMaven = !!resolvedWithoutMaven;
+        conflictsLoaded = true;
+        renderConflicts();
+    }
+
+    function renderConflicts() {
+        const conflictsContent = document.getElementById('dependency-conflicts');
+        const offlineNotice = conflictsResolvedWithoutMaven
+            ? `<div class="offline-notice">${getOfflineBadgeHtml(true)} ${i18n('resolvedWithoutMavenHint')}</div>`
+            : '';
+        if (!conflictsData || conflictsData.length === 0) {
+            conflictsContent.innerHTML = `${offlineNotice}<div class="empty-tree">${i18n('noConflicts')}</div>`;
+            return;
+        }
+
+        conflictsContent.innerHTML = `
+            ${offlineNotice}
+            <div class="conflict-list">
+                ${conflictsData.map((conflict, index) => renderConflict(conflict, index)).join('')}
+            </div>
+        `;
+
+        conflictsContent.querySelectorAll('.conflict-action').forEach(button => {
+            button.addEventListener('click', () => {
+                const conflict = conflictsData[parseInt(button.getAttribute('data-index'), 10)];
+                vscode.postMessage({
+                    type: 'resolveConflict',
+                    action: button.getAttribute('data-action'),
+                    conflict: conflict
+                });
+            });
+        });
+    }
+
+    function renderConflict(conflict, index) {
+        const rows = conflict.requests.map(request => {
+            const path = request.path
+                .map(node => `${escapeHtml(node.artifactId)}:${escapeHtml(node.version)}`)
+                .join(' → ');
+            const statusClass = request.omitted ? 'conflict-omitted' : 'conflict-selected';
+            const statusLabel = request.omitted ? i18n('conflictOmitted') : i18n('conflictSelected');
+            return `
+                <tr class="${statusClass}">
+                    <td class="conflict-version">${escapeHtml(request.version)}</td>
+                    <td><span class="conflict-status">${statusLabel}</span></td>
+                    <td class="conflict-path">${path}</td>
+                </tr>
+            `;
+        }).join('');
+
+        return `
+            <div class="conflict-card">
+                <div class="conflict-header">
+                    <span class="node-artifact">${escapeHtml(conflict.groupId)}:<strong>${escapeHtml(conflict.artifactId)}</strong></span>
+                    <span class="node-version">${i18n('conflictPicked')}: ${escapeHtml(conflict.resolvedVersion)}</span>
+                    <div class="conflict-actions">
+                        <button class="toolbar-btn conflict-action" data-action="pin" data-index="${index}" title="${escapeHtml(i18n('pinVersionHint'))}">${i18n('pinVersion')}</button>
+                        <button class="toolbar-btn conflict-action" data-action="exclude" data-index="${index}" title="${escapeHtml(i18n('excludeLosingHint'))}">${i18n('excludeLosing')}</button>
+                        <button class="toolbar-btn conflict-action" data-action="declare" data-index="${index}" title="${escapeHtml(i18n('declareDirectlyHint'))}">${i18n('declareDirectly')}</button>
+                    </div>
+                </div>
+                <table class="conflict-table">
+                    <tbody>${rows}</tbody>
+                </table>
+            </div>
+        `;
+    }
+
+    function showConflictsError(errorMessage) {
+        const conflictsContent = document.getElementById('dependency-conflicts');
+        conflictsContent.innerHTML = `
+            <div class="error-container">
+                <div class="error-icon">⚠️</div>
+                <p class="error-title">${i18n('errorConflicts')}</p>
+                <p class="error-message">${errorMessage}</p>
+                <button class="retry-button" onclick="window.retryLoadConflicts()">${i18n('retry')}</button>
+            </div>
+        `;
+    }
+
     // Expose retry function globally
+    window.retryLoadConflicts = function () {
+        conflictsLoaded = false;
+        loadConflicts();
+    };
+
+    function loadDependencyAnalysis(forceRefresh = false) {
+        const analysisContent = document.getElementById('dependency-analysis');
+        analysisContent.innerHTML = `
+            <div class="loading-container">
+                <div class="loading-spinner"></div>
+                <p>${i18n('loadingAnalysis')}</p>
+                <p class="loading-hint">${i18n('loadingHint')}</p>
+                ${getMavenProgressHtml('dependencyAnalysis')}
+            </div>
+        `;
+
+        vscode.postMessage({
+            type: 'getDependencyAnalysis',
+            forceRefresh: forceRefresh
+        });
+    }
+
+    function initializeDependencyAnalysis(data, ignored) {
+        analysisData = data;
+        analysisIgnored = new Set(ignored || []);
+        analysisLoaded = true;
+        renderDependencyAnalysis();
+    }
+
+    function getAnalysisKey(section, dependency) {
+        return `${section}:${dependency.groupId}:${dependency.artifactId}`;
+    }
+
+    function renderDependencyAnalysis() {
+        const analysisContent = document.getElementById('dependency-analysis');
+        const sections = ['usedUndeclared', 'unusedDeclared'];
+        const active = {};
+        const ignored = [];
+        sections.forEach(section => {
+            active[section] = [];
+            (analysisData[section] || []).forEach((dependency, index) => {
+                const entry = { section, dependency, index };
+                if (analysisIgnored.has(getAnalysisKey(section, dependency))) {
+                    ignored.push(entry);
+                } else {
+                    active[section].push(entry);
+                }
+            });
+        });
+
+        const body = sections.every(section => active[section].length === 0)
+            ? `<div class="empty-tree">${i18n('noAnalysisProblems')}</div>`
+            : sections
+                .filter(section => active[section].length > 0)
+                .map(section => `
+                    <div class="analysis-section">
+                        <div class="analysis-section-title" title="${escapeHtml(i18n(section + 'Hint'))}">${i18n(section)} (${active[section].length})</div>
+                        <table class="analysis-table">
+                            <tbody>${active[section].map(renderAnalysisEntry).join('')}</tbody>
+                        </table>
+                    </div>
+                `).join('');
+
+        const ignoredSection = ignored.length === 0 ? '' : `
+            <details class="analysis-section analysis-ignored">
+                <summary class="analysis-section-title">${i18n('ignoredAnalysisEntries').replace('{0}', ignored.length)}</summary>
+                <table class="analysis-table">
+                    <tbody>${ignored.map(renderAnalysisEntry).join('')}</tbody>
+                </table>
+            </details>
+        `;
+
+        analysisContent.innerHTML = `
+            <div class="dependency-toolbar">
+                <div class="analysis-hint">${i18n('analysisHint')}</div>
+                <div class="toolbar-buttons">
+                    <button class="toolbar-btn" id="refresh-analysis" title="${i18n('refresh')}">${i18n('refresh')}</button>
+                </div>
+            </div>
+            ${body}
+            ${ignoredSection}
+        `;
+
+        document.getElementById('refresh-analysis').addEventListener('click', () => loadDependencyAnalysis(true));
+        analysisContent.querySelectorAll('.analysis-action').forEach(button => {
+            button.addEventListener('click', () => {
+                const section = button.getAttribute('data-section');
+                const dependency = analysisData[section][parseInt(button.getAttribute('data-index'), 10)];
+                const action = button.getAttribute('data-action');
+                if (action === 'remove') {
+                    vscode.postMessage({
+                        type: 'removeUnusedDependency',
+                        groupId: dependency.groupId,
+                        artifactId: dependency.artifactId
+                    });
+                } else if (action === 'declare') {
+                    vscode.postMessage({
+                        type: 'declareUsedDependency',
+                        dependency: dependency
+                    });
+                } else {
+                    vscode.postMessage({
+                        type: 'ignoreAnalysisEntry',
+                        key: getAnalysisKey(section, dependency),
+                        ignored: action === 'ignore'
+                    });
+                }
+            });
+        });
+    }
+
+    function renderAnalysisEntry(entry) {
+        const dependency = entry.dependency;
+        const attributes = `data-section="${entry.section}" data-index="${entry.index}"`;
+        let actions;
+        if (analysisIgnored.has(getAnalysisKey(entry.section, dependency))) {
+            actions = `<button class="toolbar-btn analysis-action" data-action="restore" ${attributes}>${i18n('restoreAnalysisEntry')}</button>`;
+        } else {
+            actions = entry.section === 'usedUndeclared'
+                ? `<button class="toolbar-btn analysis-action" data-action="declare" ${attributes} title="${escapeHtml(i18n('declareUsedDependencyHint'))}">${i18n('declareUsedDependency')}</button>`
+                : `<button class="toolbar-btn analysis-action" data-action="remove" ${attributes} title="${escapeHtml(i18n('removeUnusedDependencyHint'))}">${i18n('removeUnusedDependency')}</button>`;
+            actions += `<button class="toolbar-btn analysis-action" data-action="ignore" ${attributes}>${i18n('ignoreAnalysisEntry')}</button>`;
+        }
+
+        const classifier = dependency.classifier ? `:${escapeHtml(dependency.classifier)}` : '';
+        const scope = dependency.scope || 'compile';
+        return `
+            <tr>
+                <td><span class="node-artifact">${escapeHtml(dependency.groupId)}:<strong>${escapeHtml(dependency.artifactId)}</strong>${classifier}</span></td>
+                <td class="node-version">${escapeHtml(dependency.version)}</td>
+                <td><span class="node-scope scope-${escapeHtml(scope)}">${escapeHtml(scope)}</span></td>
+                <td class="analysis-actions">${actions}</td>
+            </tr>
+        `;
+    }
+
+    function showDependencyAnalysisError(errorMessage) {
+        const analysisContent = document.getElementById('dependency-analysis');
+        analysisContent.innerHTML = `
+            <div class="error-container">
+                <div class="error-icon">⚠️</div>
+                <p class="error-title">${i18n('errorAnalysis')}</p>
+                <p class="error-message">${errorMessage}</p>
+                <button class="retry-button" onclick="window.retryLoadDependencyAnalysis()">${i18n('retry')}</button>
+            </div>
+        `;
+    }
+
+    window.retryLoadDependencyAnalysis = function () {
+        analysisLoaded = false;
+        loadDependencyAnalysis();
+    };
+
+    function loadProperties(forceRefresh = false) {
+        const propertiesContent = document.getElementById('pom-properties');
+        propertiesContent.innerHTML = `
+            <div class="loading-container">
+                <div class="loading-spinner"></div>
+                <p>${i18n('loadingProperties')}</p>
+                <p class="loading-hint">${i18n('loadingHint')}</p>
+                ${getMavenProgressHtml('properties')}
+            </div>
+        `;
+
+        vscode.postMessage({
+            type: 'getProperties',
+            forceRefresh: forceRefresh
+        });
+    }
+
+    function initializeProperties(data, fromEffectivePom) {
+        propertiesData = data;
+        propertiesFromEffectivePom = !!fromEffectivePom;
+        propertiesLoaded = true;
+
+        const propertiesContent = document.getElementById('pom-properties');
+        propertiesContent.innerHTML = `
+            <div class="dependency-toolbar">
+                <div class="search-container">
+                    <input type="text" id="properties-search" class="search-input" placeholder="${i18n('searchProperties')}" value="${escapeHtml(propertiesQuery)}" />
+                </div>
+                <div class="toolbar-buttons">
+                    <button class="toolbar-btn" id="refresh-properties" title="${i18n('refresh')}">${i18n('refresh')}</button>
+                </div>
+            </div>
+            ${propertiesFromEffectivePom ? '' : `<div class="offline-notice">${i18n('propertyValueFromChain')}</div>`}
+            <div id="properties-view"></div>
+        `;
+
+        document.getElementById('properties-search').addEventListener('input', event => {
+            propertiesQuery = event.target.value;
+            renderProperties();
+        });
+        document.getElementById('refresh-properties').addEventListener('click', () => loadProperties(true));
+        renderProperties();
+    }
+
+    function renderProperties() {
+        const propertiesView = document.getElementById('properties-view');
+        if (!propertiesData || propertiesData.length === 0) {
+            propertiesView.innerHTML = `<div class="empty-tree">${i18n('noProperties')}</div>`;
+            return;
+        }
+
+        const query = propertiesQuery.trim().toLowerCase();
+        const properties = propertiesData.filter(property =>
+            !query ||
+            property.name.toLowerCase().includes(query) ||
+            property.effectiveValue.toLowerCase().includes(query)
+        );
+
+        propertiesView.innerHTML = `
+            <table class="properties-table">
+                <thead>
+                    <tr>
+                        <th>${i18n('propertyName')}</th>
+                        <th>${i18n('propertyEffectiveValue')}</th>
+                        <th>${i18n('propertyDeclaredIn')}</th>
+                        <th>${i18n('propertyUsages')}</th>
+                        <th></th>
+                    </tr>
+                </thead>
+                <tbody>
+                    ${properties.map(renderProperty).join('')}
+                </tbody>
+            </table>
+        `;
+
+        propertiesView.querySelectorAll('.property-location').forEach(link => {
+            link.addEventListener('click', () => {
+                vscode.postMessage({
+                    type: 'openLocation',
+                    path: link.getAttribute('data-path'),
+                    line: parseInt(link.getAttribute('data-line'), 10),
+                    character: parseInt(link.getAttribute('data-character'), 10)
+                });
+            });
+        });
+        propertiesView.querySelectorAll('.property-action').forEach(button => {
+            button.addEventListener('click', () => {
+                vscode.postMessage({
+                    type: button.getAttribute('data-action'),
+                    name: button.getAttribute('data-name')
+                });
+            });
+        });
+    }
+
+    function renderProperty(property) {
+        // 第一个不在 profile 中的声明生效，其余的非 profile 声明被它覆盖
+        const effectiveDeclaration = property.declarations.find(declaration => !declaration.profileId);
+        const declarations = property.declarations.map(declaration => {
+            const tags = [];
+            if (declaration.profileId) {
+                tags.push(i18n('propertyProfile').replace('{0}', escapeHtml(declaration.profileId)));
+            } else if (declaration !== effectiveDeclaration) {
+                tags.push(i18n('propertyOverridden'));
+            }
+            return `
+                <div class="${declaration === effectiveDeclaration ? '' : 'property-shadowed'}">
+                    ${renderLocation(declaration)}
+                    <span class="property-declared-value">= ${escapeHtml(declaration.value)}</span>
+                    ${tags.map(tag => `<span class="property-tag">${tag}</span>`).join('')}
+                </div>
+            `;
+        }).join('');
+
+        const usages = property.usages.length === 0
+            ? `<span class="property-unused">${i18n('propertyNoUsages')}</span>`
+            : `<details>
+                    <summary>${i18n('propertyUsageCount').replace('{0}', property.usages.length)}</summary>
+                    ${property.usages.map(usage => `<div>${renderLocation(usage)}</div>`).join('')}
+                </details>`;
+
+        const name = escapeHtml(property.name);
+        return `
+            <tr>
+                <td class="property-name">${name}</td>
+                <td class="property-value">${escapeHtml(property.effectiveValue)}</td>
+                <td>${declarations}</td>
+                <td>${usages}</td>
+                <td class="property-actions">
+                    <button class="toolbar-btn property-action" data-action="editProperty" data-name="${name}">${i18n('editPropertyValue')}</button>
+                    <button class="toolbar-btn property-action" data-action="renameProperty" data-name="${name}">${i18n('renameProperty')}</button>
+                </td>
+            </tr>
+        `;
+    }
+
+    function renderLocation(location) {
+        return `<a class="property-location" data-path="${escapeHtml(location.path)}" data-line="${location.line}" data-character="${location.character}">${escapeHtml(location.label)}:${location.line + 1}</a>`;
+    }
+
+    function showPropertiesError(errorMessage) {
+        const propertiesContent = document.getElementById('pom-properties');
+        propertiesContent.innerHTML = `
+            <div class="error-container">
+                <div class="error-icon">⚠️</div>
+                <p class="error-title">${i18n('errorProperties')}</p>
+                <p class="error-message">${errorMessage}</p>
+                <button class="retry-button" onclick="window.retryLoadProperties()">${i18n('retry')}</button>
+            </div>
+        `;
+    }
+
+    window.retryLoadProperties = function () {
+        propertiesLoaded = false;
+        loadProperties();
+    };
+
+    function loadModules() {
+        const modulesContent = document.getElementById('reactor-modules');
+        modulesContent.innerHTML = `
+            <div class="loading-container">
+                <div class="loading-spinner"></div>
+                <p>${i18n('loadingModules')}</p>
+            </div>
+        `;
+
+        vscode.postMessage({
+            type: 'getModules'
+        });
+    }
+
+    function initializeModules(data) {
+        modulesData = data;
+        modulesLoaded = true;
+        if (!modulesData.modules.some(module => module.path === selectedModulePath)) {
+            selectedModulePath = modulesData.currentPath;
+        }
+        renderModules();
+    }
+
+    function renderModules() {
+        const modulesContent = document.getElementById('reactor-modules');
+        const modules = modulesData.modules;
+        const byPath = new Map(modules.map(module => [module.path, module]));
+
+        const toolbar = `
+            <div class="dependency-toolbar">
+                <div class="analysis-hint">${i18n('modulesSummary').replace('{0}', modules.length)} · ${escapeHtml(getModuleLabel(byPath.get(modulesData.rootPath)))}</div>
+                <div class="toolbar-buttons">
+                    <button class="toolbar-btn" id="refresh-modules" title="${i18n('refresh')}">${i18n('refresh')}</button>
+                </div>
+            </div>
+        `;
+
+        if (modules.length <= 1 && modulesData.missingModules.length === 0) {
+            modulesContent.innerHTML = `${toolbar}<div class="empty-tree">${i18n('notMultiModule')}</div>`;
+            document.getElementById('refresh-modules').addEventListener('click', () => loadModules());
+            return;
+        }
+
+        const cycles = modulesData.cycles.map(cycle => `
+            <div class="module-problem">
+                ${[...cycle, cycle[0]].map(modulePath => `<strong>${escapeHtml(getModuleLabel(byPath.get(modulePath)))}</strong>`).join(' → ')}
+            </div>
+        `).join('');
+        const missing = modulesData.missingModules.map((module, index) => `
+            <div class="module-problem">
+                <strong>${escapeHtml(module.name)}</strong>
+                ${module.profileId ? `<span class="property-tag">${i18n('propertyProfile').replace('{0}', escapeHtml(module.profileId))}</span>` : ''}
+                <span class="module-problem-location">${i18n('moduleDeclaredIn')} <a class="property-location module-missing-location" data-index="${index}">${escapeHtml(module.label)}:${module.line + 1}</a></span>
+            </div>
+        `).join('');
+
+        modulesContent.innerHTML = `
+            ${toolbar}
+            <div class="modules-container">
+                ${cycles ? `
+                    <div class="module-problems">
+                        <div class="analysis-section-title" title="${escapeHtml(i18n('moduleCyclesHint'))}">${i18n('moduleCycles').replace('{0}', modulesData.cycles.length)}</div>
+                        ${cycles}
+                    </div>
+                ` : ''}
+                ${missing ? `
+                    <div class="module-problems">
+                        <div class="analysis-section-title">${i18n('missingModules').replace('{0}', modulesData.missingModules.length)}</div>
+                        ${missing}
+                    </div>
+                ` : ''}
+                <div class="analysis-section">
+                    <div class="analysis-section-title">${i18n('moduleGraph')}</div>
+                    <div class="module-graph">${renderModuleGraph(byPath)}</div>
+                </div>
+                <div class="analysis-section">
+                    <div class="analysis-section-title">${i18n('buildOrder')}</div>
+                    <table class="properties-table module-table">
+                        <tbody>
+                            ${modulesData.buildOrder.map((modulePath, index) => renderModuleRow(byPath.get(modulePath), index, byPath)).join('')}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+        `;
+
+        document.getElementById('refresh-modules').addEventListener('click', () => loadModules());
+        modulesContent.querySelectorAll('.module-missing-location').forEach(link => {
+            link.addEventListener('click', () => {
+                const module = modulesData.missingModules[parseInt(link.getAttribute('data-index'), 10)];
+                vscode.postMessage({ type: 'openLocation', path: module.path, line: module.line, character: module.character });
+            });
+        });
+        modulesContent.querySelectorAll('[data-module]').forEach(element => {
+            const module = modules[parseInt(element.getAttribute('data-module'), 10)];
+            element.addEventListener('click', event => {
+                const action = event.target.closest('[data-module-action]');
+                if (action) {
+                    event.stopPropagation();
+                    runModuleAction(action.getAttribute('data-module-action'), module);
+                    return;
+                }
+                selectModule(module.path);
+            });
+            // 双击图中的模块打开其 POM 视图
+            if (element.classList.contains('module-node')) {
+                element.addEventListener('dblclick', () => runModuleAction('openModulePomView', module));
+            }
+        });
+        selectModule(selectedModulePath, false);
+    }
+
+    /**
+     * 分层绘制模块依赖图：不依赖其他模块的模块在最左列，每个模块位于其依赖的右侧，箭头指向被依赖的模块
+     */
+    function renderModuleGraph(byPath) {
+        const nodeWidth = 180;
+        const nodeHeight = 26;
+        const columnGap = 60;
+        const rowGap = 10;
+        const padding = 8;
+
+        // 按构建顺序计算层级，循环依赖中尚未排好的模块不计入
+        const levels = new Map();
+        modulesData.buildOrder.forEach(modulePath => {
+            const dependencyLevels = byPath.get(modulePath).dependsOn
+                .filter(dependency => levels.has(dependency.path))
+                .map(dependency => levels.get(dependency.path) + 1);
+            levels.set(modulePath, Math.max(0, ...dependencyLevels));
+        });
+
+        const positions = new Map();
+        const rows = [];
+        modulesData.buildOrder.forEach(modulePath => {
+            const level = levels.get(modulePath);
+            rows[level] = (rows[level] || 0) + 1;
+            positions.set(modulePath, {
+                x: padding + level * (nodeWidth + columnGap),
+                y: padding + (rows[level] - 1) * (nodeHeight + rowGap)
+            });
+        });
+        const width = padding * 2 + rows.length * nodeWidth + (rows.length - 1) * columnGap;
+        let height = padding * 2 + Math.max(...rows) * (nodeHeight + rowGap) - rowGap;
+
+        const cycleEdges = new Set();
+        modulesData.cycles.forEach(cycle => cycle.forEach((modulePath, index) => {
+            cycleEdges.add(`${modulePath}\n${cycle[(index + 1) % cycle.length]}`);
+        }));
+
+        const edges = modulesData.modules.flatMap(module => module.dependsOn.map(dependency => {
+            const from = positions.get(module.path);
+            const to = positions.get(dependency.path);
+            const x1 = from.x;
+            const y1 = from.y + nodeHeight / 2;
+            const x2 = to.x + nodeWidth;
+            const y2 = to.y + nodeHeight / 2;
+            const span = levels.get(module.path) - levels.get(dependency.path);
+            let curve;
+            if (span === 1) {
+                const bend = columnGap / 2;
+                curve = `C ${x1 - bend} ${y1}, ${x2 + bend} ${y2}, ${x2} ${y2}`;
+            } else {
+                // 跨越多列或指向右侧（循环依赖）的边从模块下方绕过，避免穿过中间的模块
+                const depth = nodeHeight / 2 + rowGap + 8 * Math.min(Math.abs(span), 5);
+                height = Math.max(height, Math.max(y1, y2) + depth + padding);
+                curve = `C ${x1 - columnGap / 2} ${Math.round(y1 + depth * 4 / 3)}, ${x2 + columnGap / 2} ${Math.round(y2 + depth * 4 / 3)}, ${x2} ${y2}`;
+            }
+            const inCycle = cycleEdges.has(`${module.path}\n${dependency.path}`);
+            return `<path class="module-edge${inCycle ? ' module-edge-cycle' : ''}" data-from="${modulesData.modules.indexOf(module)}" data-to="${modulesData.modules.indexOf(byPath.get(dependency.path))}"
+                d="M ${x1} ${y1} ${curve}"
+                marker-end="url(#${inCycle ? 'module-arrow-cycle' : 'module-arrow'})"><title>${escapeHtml(getModuleDependencyTitle(module, dependency, byPath))}</title></path>`;
+        })).join('');
+
+        const nodes = modulesData.modules.map((module, index) => {
+            const position = positions.get(module.path);
+            const label = getModuleLabel(module);
+            const text = label.length > 24 ? `${label.substring(0, 23)}…` : label;
+            const classes = ['module-node'];
+            if (module.path === modulesData.currentPath) {
+                classes.push('module-current');
+            }
+            return `
+                <g class="${classes.join(' ')}" data-module="${index}" transform="translate(${position.x}, ${position.y})">
+                    <title>${escapeHtml(`${module.groupId}:${module.artifactId}\n${module.label}`)}</title>
+                    <rect width="${nodeWidth}" height="${nodeHeight}" rx="3"></rect>
+                    <text x="8" y="${nodeHeight / 2}" dominant-baseline="central">${escapeHtml(text)}</text>
+                    <text class="module-node-packaging" x="${nodeWidth - 8}" y="${nodeHeight / 2}" dominant-baseline="central" text-anchor="end">${escapeHtml(module.packaging)}</text>
+                </g>
+            `;
+        }).join('');
+
+        return `
+            <svg width="${width}" height="${height}" xmlns="http://www.w3.org/2000/svg">
+                <defs>
+                    <marker id="module-arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+                        <path class="module-arrow" d="M 0 0 L 10 5 L 0 10 z"></path>
+                    </marker>
+                    <marker id="module-arrow-cycle" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+                        <path class="module-arrow-cycle" d="M 0 0 L 10 5 L 0 10 z"></path>
+                    </marker>
+                </defs>
+                ${edges}
+                ${nodes}
+            </svg>
+        `;
+    }
+
+    function renderModuleRow(module, index, byPath) {
+        const moduleIndex = modulesData.modules.indexOf(module);
+        const dependencies = module.dependsOn.length === 0
+            ? `<span class="property-unused">${i18n('moduleNoDependencies')}</span>`
+            : module.dependsOn.map(dependency => {
+                const kind = dependency.kind === 'dependency' ? dependency.scope : getModuleDependencyKind(dependency);
+                return `<span class="module-dependency">${escapeHtml(getModuleLabel(byPath.get(dependency.path)))}${kind ? `<span class="property-tag">${escapeHtml(kind)}</span>` : ''}</span>`;
+            }).join('');
+        const current = module.path === modulesData.currentPath
+            ? `<span class="property-tag">${i18n('moduleCurrent')}</span>`
+            : '';
+
+        return `
+            <tr class="module-row" data-module="${moduleIndex}">
+                <td class="module-order">${index + 1}</td>
+                <td>
+                    <div class="property-name">${escapeHtml(module.artifactId)}${current}</div>
+                    <div class="module-path">${escapeHtml(module.label)}</div>
+                </td>
+                <td class="node-version">${escapeHtml(module.packaging)}</td>
+                <td>${i18n('moduleDependsOn')}: ${dependencies}</td>
+                <td class="property-actions">
+                    <button class="toolbar-btn" data-module-action="openModulePomView">${i18n('openModulePomView')}</button>
+                    <button class="toolbar-btn" data-module-action="runModuleGoal" title="${escapeHtml(i18n('runModuleGoalHint'))}">${i18n('runModuleGoal')}</button>
+                </td>
+            </tr>
+        `;
+    }
+
+    /**
+     * 选中模块：高亮图中的模块及其依赖边，并滚动到构建顺序中的对应行
+     */
+    function selectModule(modulePath, reveal = true) {
+        selectedModulePath = modulePath;
+        const index = String(modulesData.modules.findIndex(module => module.path === modulePath));
+        const modulesContent = document.getElementById('reactor-modules');
+        modulesContent.querySelectorAll('[data-module]').forEach(element => {
+            element.classList.toggle('selected', element.getAttribute('data-module') === index);
+        });
+        modulesContent.querySelectorAll('.module-edge').forEach(edge => {
+            edge.classList.toggle('selected', edge.getAttribute('data-from') === index || edge.getAttribute('data-to') === index);
+        });
+        const row = modulesContent.querySelector(`.module-row[data-module="${index}"]`);
+        if (reveal && row) {
+            row.scrollIntoView({ block: 'nearest' });
+        }
+    }
+
+    function runModuleAction(action, module) {
+        vscode.postMessage({
+            type: action,
+            path: module.path,
+            name: module.artifactId
+        });
+    }
+
+    function getModuleLabel(module) {
+        return module ? module.artifactId : '';
+    }
+
+    function getModuleDependencyTitle(module, dependency, byPath) {
+        return `${module.artifactId} → ${getModuleLabel(byPath.get(dependency.path))} (${getModuleDependencyKind(dependency)})`;
+    }
+
+    /**
+     * 依赖关系的类型：普通依赖显示 scope，其余显示 parent/plugin/extension
+     */
+    function getModuleDependencyKind(dependency) {
+        if (dependency.kind === 'dependency') {
+            return dependency.scope || 'compile';
+        }
+        return i18n('moduleKind' + dependency.kind.charAt(0).toUpperCase() + dependency.kind.slice(1));
+    }
+
+    function showModulesError(errorMessage) {
+        const modulesContent = document.getElementById('reactor-modules');
+        modulesContent.innerHTML = `
+            <div class="error-container">
+                <div class="error-icon">⚠️</div>
+                <p class="error-title">${i18n('errorModules')}</p>
+                <p class="error-message">${errorMessage}</p>
+                <button class="retry-button" onclick="window.retryLoadModules()">${i18n('retry')}</button>
+            </div>
+        `;
+    }
+
+    window.retryLoadModules = function () {
+        modulesLoaded = false;
+        loadModules();
+    };
+
+    /**
+     * 激活的 profile 改变后重新加载依赖 Maven 结果的视图：可见的视图立即加载（有该组合的缓存时使用缓存），其余切换时再加载
+     * 模块视图只读取 POM 文件，不受 profile 影响
+     */
+    function reloadProfileViews() {
+        const isActive = tabId => document.getElementById(tabId).classList.contains('active');
+
+        if (effectivePomEditor) {
+            effectivePomEditor.dispose();
+            effectivePomEditor = null;
+        }
+        effectivePomLoaded = false;
+        if (isActive('effective-pom')) {
+            loadEffectivePom();
+        }
+
+        if (isActive('dependency-hierarchy')) {
+            refreshDependencyViews(false);
+        } else {
+            dependencyTreeLoaded = false;
+            resolvedDependenciesLoaded = false;
+        }
+
+        conflictsLoaded = false;
+        if (isActive('dependency-conflicts')) {
+            loadConflicts();
+        }
+        analysisLoaded = false;
+        if (isActive('dependency-analysis')) {
+            loadDependencyAnalysis();
+        }
+        propertiesLoaded = false;
+        if (isActive('pom-properties')) {
+            loadProperties();
+        }
+    }
+
+    /**
+     * 切换到 Dependency Hierarchy 并按 groupId:artifactId 过滤
+     */
+    function showDependency(groupId, artifactId) {
+        // 切换标签页时会按 searchQuery 重新渲染（或在加载完成后渲染）
+        searchQuery = `${groupId}:${artifactId}`;
+        switchTab('dependency-hierarchy');
+    }
+
     window.retryLoadDependencyTree = function () {
         dependencyTreeLoaded = false;
         resolvedDependenciesLoaded = false;
@@ -1180,6 +2334,118 @@
             case 'resolvedDependenciesLoading':
                 // Loading state is already handled
                 break;
+
+            case 'conflictsResult':
+                initializeConflicts(message.data, message.resolvedWithoutMaven);
+                break;
+
+            case 'conflictsError':
+                showConflictsError(message.error);
+                break;
+
+            case 'conflictsLoading':
+                // Loading state is already handled in loadConflicts()
+                break;
+
+            case 'dependencyAnalysisResult':
+                initializeDependencyAnalysis(message.data, message.ignored);
+                break;
+
+            case 'dependencyAnalysisError':
+                showDependencyAnalysisError(message.error);
+                break;
+
+            case 'dependencyAnalysisLoading':
+                // Loading state is already handled in loadDependencyAnalysis()
+                break;
+
+            case 'dependencyAnalysisIgnored':
+                analysisIgnored = new Set(message.ignored);
+                if (analysisData) {
+                    renderDependencyAnalysis();
+                }
+                break;
+
+            case 'propertiesResult':
+                initializeProperties(message.data, message.fromEffectivePom);
+                break;
+
+            case 'propertiesError':
+                showPropertiesError(message.error);
+                break;
+
+            case 'propertiesLoading':
+                // Loading state is already handled in loadProperties()
+                break;
+
+            case 'modulesResult':
+                initializeModules(message.data);
+                break;
+
+            case 'modulesError':
+                showModulesError(message.error);
+                break;
+
+            case 'modulesLoading':
+                // Loading state is already handled in loadModules()
+                break;
+
+            case 'showDependency':
+                showDependency(message.groupId, message.artifactId);
+                break;
+
+            case 'mavenProgress': {
+                const state = mavenProgressStates.get(message.progressKey);
+                if (state) {
+                    if (message.status !== undefined) {
+                        state.status = message.status;
+                    }
+                    if (message.progress !== undefined) {
+                        state.progress = message.progress;
+                    }
+                    renderMavenProgress(message.progressKey);
+                }
+                break;
+            }
+
+            case 'profilesChanged':
+                activeProfiles = message.profiles;
+                updateProfilesButton();
+                reloadProfileViews();
+                break;
+
+            case 'refreshDependencies':
+                // POM 已被修改，跳过缓存重新加载依赖视图
+                // 冲突视图与依赖层级共用依赖树，只刷新当前可见的视图，另一个切换时再从缓存加载
+                if (document.getElementById('dependency-conflicts').classList.contains('active')) {
+                    dependencyTreeLoaded = false;
+                    resolvedDependenciesLoaded = false;
+                    loadConflicts(true);
+                } else {
+                    conflictsLoaded = false;
+                    if (dependencyTreeLoaded || resolvedDependenciesLoaded) {
+                        refreshDependencyViews();
+                    }
+                }
+                // 依赖分析需要重新编译，只在可见时重新运行
+                if (document.getElementById('dependency-analysis').classList.contains('active')) {
+                    loadDependencyAnalysis(true);
+                } else {
+                    analysisLoaded = false;
+                }
+                // 属性的声明与引用可能已改变
+                if (document.getElementById('pom-properties').classList.contains('active')) {
+                    loadProperties();
+                } else {
+                    propertiesLoaded = false;
+                }
+                // 模块之间的依赖可能已改变
+                if (document.getElementById('reactor-modules').classList.contains('active')) {
+                    loadModules();
+                } else {
+                    modulesLoaded = false;
+                }
+                break;
         }
     });
 
@@ -1192,7 +2458,9 @@
     // 自动加载默认激活的标签页内容
     // 检查哪个标签页是默认激活的，并加载其内容
     const activeTab = document.querySelector('.tab-button.active');
-    if (activeTab) {
+    if (typeof initialDependency !== 'undefined' && initialDependency) {
+        showDependency(initialDependency.groupId, initialDependency.artifactId);
+    } else if (activeTab) {
         const activeTabId = activeTab.getAttribute('data-tab');
         if (activeTabId === 'effective-pom' && !effectivePomLoaded) {
             // 延迟一小段时间确保 Monaco Editor 已经加载完成
@@ -1,5 +1,6 @@
 import * as vscode from 'vscode';
 import * as crypto from 'crypto';
+import { DependencyNode, MavenUtils } from './mavenUtils';
 
 /**
  * 缓存管理器 - 基于 VS Code 官方扩展开发指南
@@ -14,11 +15,20 @@ import * as crypto from 'crypto';
 export class CacheManager {
     private context: vscode.ExtensionContext;
     private memoryCache: Map<string, CacheData>;
+    private readonly changeEmitter = new vscode.EventEmitter<CacheChangeEvent>();
+    private readonly profilesEmitter = new vscode.EventEmitter<string>();
+
+    /** 缓存写入或清除后触发，切换 profile 后也会触发 */
+    readonly onDidChange = this.changeEmitter.event;
+
+    /** POM 激活的 profile 改变后触发，参数为 POM 路径 */
+    readonly onDidChangeProfiles = this.profilesEmitter.event;
     
     // 缓存配置常量
-    static readonly CACHE_VERSION = '1.0.0';
+    static readonly CACHE_VERSION = '1.1.0';
     static readonly MAX_CACHE_AGE_MS = 60 * 60 * 1000; // 1小时
     static readonly SMALL_DATA_THRESHOLD = 50 * 1024; // 50KB
+    static readonly ACTIVE_PROFILES_KEY = 'maven-active-profiles';
 
     constructor(context: vscode.ExtensionContext) {
         this.context = context;
@@ -89,7 +99,8 @@ export class CacheManager {
                 data,
                 timestamp: Date.now(),
                 pomMtime: pomStat.mtime,
-                version: CacheManager.CACHE_VERSION
+                version: CacheManager.CACHE_VERSION,
+                offline: this.isResolvedWithoutMaven(data)
             };
 
             // L1: 始终写入内存缓存
@@ -110,6 +121,8 @@ export class CacheManager {
                 await this.setToFileCache(pomPath, cacheKey, cacheData);
                 console.log(`[CacheManager] ✓ 写入文件缓存: ${cacheKey} (数据较大)`);
             }
+
+            this.changeEmitter.fire({ pomPath, cacheKey });
         } catch (error) {
             console.error(`[CacheManager] ✗ 缓存写入失败: ${cacheKey}`, error);
             // 写入失败不影响正常功能，只记录错误
@@ -124,24 +137,112 @@ export class CacheManager {
         console.log(`[CacheManager] 清除缓存: ${pomPath}`);
         
         // 清除所有相关的缓存键
-        const cacheKeys = ['dependencyTree', 'resolvedDependencies', 'effectivePom'];
+        const cacheKeys = ['dependencyTree', 'resolvedDependencies', 'effectivePom', 'dependencyAnalysis'];
         
         for (const cacheKey of cacheKeys) {
-            // L1: 清除内存缓存
-            const key = this.generateCacheKey(pomPath, cacheKey);
-            this.memoryCache.delete(key);
-            
-            // L2: 清除 workspaceState
-            const wsKey = this.getWorkspaceStateKey(pomPath, cacheKey);
-            await this.context.workspaceState.update(wsKey, undefined);
-            
-            // L3: 清除文件缓存
-            await this.deleteFileCache(pomPath, cacheKey);
+            await this.deleteEntry(pomPath, cacheKey);
+            this.changeEmitter.fire({ pomPath, cacheKey });
         }
         
         console.log(`[CacheManager] ✓ 缓存已清除: ${pomPath}`);
     }
 
+    /**
+     * 从三层缓存中删除指定条目
+     */
+    async deleteEntry(pomPath: string, cacheKey: string): Promise<void> {
+        // L1: 清除内存缓存
+        const key = this.generateCacheKey(pomPath, cacheKey);
+        this.memoryCache.delete(key);
+
+        // L2: 清除 workspaceState
+        const wsKey = this.getWorkspaceStateKey(pomPath, cacheKey);
+        await this.context.workspaceState.update(wsKey, undefined);
+
+        // L3: 清除文件缓存
+        await this.deleteFileCache(pomPath, cacheKey);
+    }
+
+    /**
+     * 将当前缓存的依赖树另存为快照，需在 POM 保存后、invalidate 之前调用
+     * 快照不随 POM 修改而失效，用于比较保存前后的依赖变化
+     * @param pomPath POM 文件路径
+     */
+    async saveSnapshot(pomPath: string): Promise<void> {
+        const cached = await this.getEntry(pomPath, 'dependencyTree');
+        if (!cached || cached.version !== CacheManager.CACHE_VERSION) {
+            return;
+        }
+
+        const snapshot: DependencySnapshot = {
+            treeData: cached.data,
+            timestamp: cached.timestamp
+        };
+        // 快照大小变化时可能换到另一层缓存，先清除旧快照
+        await this.deleteEntry(pomPath, 'dependencyTreeSnapshot');
+        await this.set(pomPath, 'dependencyTreeSnapshot', snapshot);
+        console.log(`[CacheManager] ✓ 已保存依赖树快照: ${pomPath}`);
+    }
+
+    /**
+     * 获取上次保存 POM 前的依赖树快照
+     * @param pomPath POM 文件路径
+     * @returns 快照，不存在时返回 null
+     */
+    async getSnapshot(pomPath: string): Promise<DependencySnapshot | null> {
+        const cached = await this.getEntry(pomPath, 'dependencyTreeSnapshot');
+        return cached && cached.version === CacheManager.CACHE_VERSION ? cached.data : null;
+    }
+
+    /**
+     * 读取缓存条目，不检查是否过期或 POM 是否被修改
+     */
+    async getEntry(pomPath: string, cacheKey: string): Promise<CacheData | null> {
+        const memCached = this.memoryCache.get(this.generateCacheKey(pomPath, cacheKey));
+        if (memCached) {
+            return memCached;
+        }
+
+        const wsCached = this.context.workspaceState.get(this.getWorkspaceStateKey(pomPath, cacheKey)) as CacheData | undefined;
+        if (wsCached) {
+            return wsCached;
+        }
+
+        return this.getFromFileCache(pomPath, cacheKey);
+    }
+
+    /**
+     * 获取 POM 选择激活的 profile（按名称排序），运行 Maven 时以 -P 传递
+     * 缓存按 profile 组合分别保存，不同组合的结果互不覆盖
+     * @param pomPath POM 文件路径
+     */
+    getActiveProfiles(pomPath: string): string[] {
+        const selections = this.context.workspaceState.get<Record<string, string[]>>(CacheManager.ACTIVE_PROFILES_KEY, {});
+        return selections[pomPath] ?? [];
+    }
+
+    /**
+     * 设置 POM 激活的 profile，为空时恢复默认激活的 profile
+     * @param pomPath POM 文件路径
+     * @param profiles profile id 列表
+     */
+    async setActiveProfiles(pomPath: string, profiles: string[]): Promise<void> {
+        const selections = { ...this.context.workspaceState.get<Record<string, string[]>>(CacheManager.ACTIVE_PROFILES_KEY, {}) };
+        if (profiles.length > 0) {
+            selections[pomPath] = [...new Set(profiles)].sort();
+        } else {
+            delete selections[pomPath];
+        }
+        await this.context.workspaceState.update(CacheManager.ACTIVE_PROFILES_KEY, selections);
+        console.log(`[CacheManager] 激活的 profile: ${profiles.join(',') || '(默认)'} for ${pomPath}`);
+
+        this.profilesEmitter.fire(pomPath);
+        // 切换后可见的是另一组缓存
+        for (const cacheKey of ['dependencyTree', 'resolvedDependencies', 'effectivePom', 'dependencyAnalysis']) {
+            this.changeEmitter.fire({ pomPath, cacheKey });
+        }
+    }
+
     /**
      * 清除所有缓存（用于手动清理）
      */
@@ -207,14 +308,38 @@ export class CacheManager {
             return false;
         }
 
+        // 离线解析的结果只在仍使用离线解析时有效，Maven 可用后改为重新运行 Maven
+        if (cached.offline) {
+            const offline = await MavenUtils.shouldResolveOffline(pomPath).catch(() => false);
+            if (!offline) {
+                console.log(`[CacheManager] 缓存由离线解析生成，当前使用 Maven 解析`);
+                return false;
+            }
+        }
+
         return true;
     }
 
+    /**
+     * 判断数据是否由离线解析器生成（依赖树根节点或依赖列表条目带有 resolvedWithoutMaven 标记）
+     */
+    isResolvedWithoutMaven(data: any): boolean {
+        return Array.isArray(data) && data.some(item => item?.resolvedWithoutMaven === true);
+    }
+
+    /**
+     * 缓存所属的范围：POM 路径加上激活的 profile，未选择 profile 时与 POM 路径相同
+     */
+    getCacheScope(pomPath: string): string {
+        const profiles = this.getActiveProfiles(pomPath);
+        return profiles.length > 0 ? `${pomPath}?profiles=${profiles.join(',')}` : pomPath;
+    }
+
     /**
      * 生成缓存键（用于内存缓存）
      */
     generateCacheKey(pomPath: string, cacheKey: string): string {
-        return `${pomPath}:${cacheKey}`;
+        return `${this.getCacheScope(pomPath)}:${cacheKey}`;
     }
 
     /**
@@ -222,7 +347,7 @@ export class CacheManager {
      */
     getWorkspaceStateKey(pomPath: string, cacheKey: string): string {
         // 使用 MD5 哈希来缩短路径，避免键名过长
-        const hash = crypto.createHash('md5').update(pomPath).digest('hex');
+        const hash = crypto.createHash('md5').update(this.getCacheScope(pomPath)).digest('hex');
         return `maven-cache-${cacheKey}-${hash}`;
     }
 
@@ -286,7 +411,7 @@ export class CacheManager {
      * 获取缓存文件路径
      */
     async getCacheFilePath(pomPath: string, cacheKey: string): Promise<vscode.Uri> {
-        const hash = crypto.createHash('md5').update(pomPath).digest('hex');
+        const hash = crypto.createHash('md5').update(this.getCacheScope(pomPath)).digest('hex');
         const fileName = `cache-${cacheKey}-${hash}.json`;
         return vscode.Uri.joinPath(this.context.storageUri!, fileName);
     }
@@ -352,26 +477,34 @@ export class CacheManager {
     async preloadData(pomPath: string, cacheKey: string): Promise<void> {
         try {
             const { MavenUtils } = await import('./mavenUtils');
+            const { OfflineResolver } = await import('./offlineResolver');
+
+            let data: any;
+            const profiles = this.getActiveProfiles(pomPath);
 
-            // Check maven availability before attempting preload
-            const mavenAvailable = await MavenUtils.isMavenAvailable(pomPath);
-            if (!mavenAvailable) {
-                console.log(`[CacheManager] Maven not available, skipping preload for ${cacheKey}`);
+            // Maven 不可用或配置为离线解析时，使用离线解析器
+            if (await MavenUtils.shouldResolveOffline(pomPath)) {
+                if (cacheKey === 'effectivePom') {
+                    console.log(`[CacheManager] Maven not available, skipping preload for ${cacheKey}`);
+                    return;
+                }
+                const treeData = await OfflineResolver.resolveDependencyTree(pomPath);
+                data = cacheKey === 'dependencyTree' ? treeData : OfflineResolver.toResolvedDependencies(treeData);
+                await this.set(pomPath, cacheKey, data);
+                console.log(`[CacheManager] 离线预加载完成: ${cacheKey}`);
                 return;
             }
 
-            let data: any;
-
             switch (cacheKey) {
                 case 'effectivePom':
-                    data = await MavenUtils.getEffectivePom(pomPath);
+                    data = await MavenUtils.getEffectivePom(pomPath, { profiles });
                     break;
                 case 'dependencyTree':
-                    const treeText = await MavenUtils.getDependencyTree(pomPath);
+                    const treeText = await MavenUtils.getDependencyTree(pomPath, false, { profiles });
                     data = MavenUtils.parseDependencyTree(treeText);
                     break;
                 case 'resolvedDependencies':
-                    const listText = await MavenUtils.getResolvedDependencies(pomPath);
+                    const listText = await MavenUtils.getResolvedDependencies(pomPath, { profiles });
                     data = MavenUtils.parseResolvedDependencies(listText);
                     break;
                 default:
@@ -461,6 +594,17 @@ interface CacheData {
     timestamp: number;
     pomMtime: number;
     version: string;
+    /** 由离线解析器生成，Maven 可用后视为失效 */
+    offline?: boolean;
+}
+
+/**
+ * 依赖树快照
+ */
+export interface DependencySnapshot {
+    treeData: DependencyNode[];
+    /** 依赖树的解析时间 */
+    timestamp: number;
 }
 
 /**
@@ -471,3 +615,11 @@ export interface CacheStats {
     workspaceStateCount: number;
     fileCount: number;
 }
+
+/**
+ * 缓存写入事件
+ */
+export interface CacheChangeEvent {
+    pomPath: string;
+    cacheKey: string;
+}
@@ -0,0 +1,176 @@
+import { MavenUtils, DependencyNode, ResolvedDependency } from './mavenUtils';
+import { MavenVersion } from './mavenVersion';
+import { t } from './i18n';
+
+/**
+ * 依赖树比较工具类
+ * 比较两棵依赖树最终生效的依赖，得出新增、移除、升级、降级与 scope 变化
+ */
+export class DependencyDiff {
+    private static readonly KIND_ORDER: DependencyChangeKind[] = ['added', 'removed', 'upgraded', 'downgraded', 'scopeChanged'];
+
+    /**
+     * 比较两棵依赖树
+     * @param before 基准依赖树（如某个 Git 版本）
+     * @param after 目标依赖树（如当前工作区）
+     * @returns 变化列表，按变化类型与 groupId:artifactId 排序
+     */
+    static compare(before: DependencyNode[], after: DependencyNode[]): DependencyChange[] {
+        const beforeMap = this.toDependencyMap(before);
+        const afterMap = this.toDependencyMap(after);
+        const changes: DependencyChange[] = [];
+
+        for (const [key, dependency] of afterMap) {
+            const previous = beforeMap.get(key);
+            if (!previous) {
+                changes.push(this.createChange('added', undefined, dependency));
+                continue;
+            }
+
+            const versionOrder = MavenVersion.compare(dependency.version, previous.version);
+            if (versionOrder > 0) {
+                changes.push(this.createChange('upgraded', previous, dependency));
+            } else if (versionOrder < 0) {
+                changes.push(this.createChange('downgraded', previous, dependency));
+            } else if ((dependency.scope ?? 'compile') !== (previous.scope ?? 'compile')) {
+                changes.push(this.createChange('scopeChanged', previous, dependency));
+            }
+        }
+
+        for (const [key, dependency] of beforeMap) {
+            if (!afterMap.has(key)) {
+                changes.push(this.createChange('removed', dependency, undefined));
+            }
+        }
+
+        return changes.sort((a, b) =>
+            this.KIND_ORDER.indexOf(a.kind) - this.KIND_ORDER.indexOf(b.kind) ||
+            `${a.groupId}:${a.artifactId}`.localeCompare(`${b.groupId}:${b.artifactId}`)
+        );
+    }
+
+    /**
+     * 统计各类变化的数量
+     */
+    static summarize(changes: DependencyChange[]): Record<DependencyChangeKind, number> {
+        const summary: Record<DependencyChangeKind, number> = {
+            added: 0,
+            removed: 0,
+            upgraded: 0,
+            downgraded: 0,
+            scopeChanged: 0
+        };
+        changes.forEach(change => summary[change.kind]++);
+        return summary;
+    }
+
+    /**
+     * 导出为 Markdown，方便粘贴到代码评审中
+     * @param baseLabel 基准的名称，如 HEAD
+     * @param targetLabel 目标的名称，如工作区
+     */
+    static toMarkdown(changes: DependencyChange[], baseLabel: string, targetLabel: string): string {
+        const lines = [`### ${t('ui.diffTitle', baseLabel, targetLabel)}`, ''];
+        if (changes.length === 0) {
+            lines.push(t('ui.diffNoChanges'));
+            return lines.join('\n') + '\n';
+        }
+
+        const summary = this.summarize(changes);
+        lines.push(this.KIND_ORDER
+            .filter(kind => summary[kind] > 0)
+            .map(kind => `${this.getKindLabel(kind)}: ${summary[kind]}`)
+            .join(' · '));
+        lines.push('');
+        lines.push(`| ${t('ui.diffChange')} | ${t('ui.diffDependency')} | ${baseLabel} | ${targetLabel} |`);
+        lines.push('| --- | --- | --- | --- |');
+
+        for (const change of changes) {
+            const before = this.formatVersion(change.beforeVersion, change.beforeScope);
+            const after = this.formatVersion(change.afterVersion, change.afterScope);
+            lines.push(`| ${this.getKindLabel(change.kind)} | \`${this.formatCoordinate(change)}\` | ${before} | ${after} |`);
+        }
+        return lines.join('\n') + '\n';
+    }
+
+    /**
+     * 变化类型的显示名称
+     */
+    static getKindLabel(kind: DependencyChangeKind): string {
+        switch (kind) {
+            case 'added':
+                return t('ui.diffAdded');
+            case 'removed':
+                return t('ui.diffRemoved');
+            case 'upgraded':
+                return t('ui.diffUpgraded');
+            case 'downgraded':
+                return t('ui.diffDowngraded');
+            case 'scopeChanged':
+                return t('ui.diffScopeChanged');
+        }
+    }
+
+    /**
+     * groupId:artifactId[:classifier]
+     */
+    static formatCoordinate(change: DependencyChange): string {
+        const coordinate = `${change.groupId}:${change.artifactId}`;
+        return change.classifier ? `${coordinate}:${change.classifier}` : coordinate;
+    }
+
+    private static formatVersion(version: string | undefined, scope: string | undefined): string {
+        if (!version) {
+            return '-';
+        }
+        return scope ? `${version} (${scope})` : version;
+    }
+
+    /**
+     * 收集依赖树中最终生效的依赖（不含项目根节点）
+     */
+    private static toDependencyMap(treeData: DependencyNode[]): Map<string, ResolvedDependency> {
+        const dependencies = MavenUtils.flattenDependencyTree(treeData.flatMap(root => root.children));
+        return new Map(dependencies.map(dependency => [
+            `${dependency.groupId}:${dependency.artifactId}:${dependency.classifier ?? ''}`,
+            dependency
+        ]));
+    }
+
+    private static createChange(
+        kind: DependencyChangeKind,
+        before: ResolvedDependency | undefined,
+        after: ResolvedDependency | undefined
+    ): DependencyChange {
+        const dependency = (after ?? before)!;
+        return {
+            kind,
+            groupId: dependency.groupId,
+            artifactId: dependency.artifactId,
+            classifier: dependency.classifier,
+            beforeVersion: before?.version,
+            afterVersion: after?.version,
+            beforeScope: before?.scope,
+            afterScope: after?.scope
+        };
+    }
+}
+
+/**
+ * 依赖变化类型
+ */
+export type DependencyChangeKind = 'added' | 'removed' | 'upgraded' | 'downgraded' | 'scopeChanged';
+
+/**
+ * 单个依赖的变化
+ */
+export interface DependencyChange {
+    kind: DependencyChangeKind;
+    groupId: string;
+    artifactId: string;
+    classifier?: string;
+    beforeVersion?: string;
+    afterVersion?: string;
+    beforeScope?: string;
+    afterScope?: string;
+}
@@ -0,0 +1,106 @@
+import { CacheManager } from './cacheManager';
+import { MavenUtils, DependencyNode, DependencyConflict, ResolvedDependency } from './mavenUtils';
+
+/**
+ * 依赖概况工具类
+ * 从缓存的依赖树与已解析依赖中汇总单个依赖的信息，供编辑器中的悬停提示等使用；只读缓存，不会运行 Maven
+ */
+export class DependencyInsights {
+    /**
+     * 读取缓存的依赖数据
+     * @returns 依赖树与已解析依赖都没有缓存时返回 undefined
+     */
+    static async getCachedData(cacheManager: CacheManager, pomPath: string): Promise<CachedDependencyData | undefined> {
+        const treeData: DependencyNode[] | null = await cacheManager.get(pomPath, 'dependencyTree');
+        const resolvedDependencies: ResolvedDependency[] | null = await cacheManager.get(pomPath, 'resolvedDependencies');
+        if (!treeData && !resolvedDependencies) {
+            return undefined;
+        }
+        return {
+            treeData: treeData ?? undefined,
+            resolvedDependencies: resolvedDependencies ?? undefined,
+            conflicts: treeData ? MavenUtils.findConflicts(treeData) : []
+        };
+    }
+
+    /**
+     * 汇总依赖的解析结果
+     * @returns 缓存数据中没有该依赖时返回 undefined
+     */
+    static describe(data: CachedDependencyData, groupId: string, artifactId: string, classifier?: string): DependencyInsight | undefined {
+        const matches = (dependency: { groupId: string; artifactId: string; classifier?: string }) =>
+            dependency.groupId === groupId &&
+            dependency.artifactId === artifactId &&
+            (classifier === undefined || (dependency.classifier ?? '') === classifier);
+
+        const directNodes = (data.treeData ?? []).flatMap(root => root.children);
+        const directNode = directNodes.find(matches);
+        const node = directNode ?? this.findNode(directNodes, matches);
+        const resolved = data.resolvedDependencies?.find(matches);
+        if (!node && !resolved) {
+            return undefined;
+        }
+
+        return {
+            version: node?.version ?? resolved?.version,
+            scope: node?.scope ?? resolved?.scope,
+            direct: directNode !== undefined,
+            transitiveCount: directNode ? this.countTransitive(directNode) : 0,
+            conflicts: directNode
+                ? data.conflicts.filter(conflict => conflict.requests.some(request => request.omitted && matches(request.path[0])))
+                : [],
+            resolvedWithoutMaven: (data.treeData ?? []).some(root => root.resolvedWithoutMaven) || resolved?.resolvedWithoutMaven === true
+        };
+    }
+
+    /**
+     * 按层序查找第一个未被省略的节点（离项目最近的才是 Maven 选用的）
+     */
+    private static findNode(
+        nodes: DependencyNode[],
+        matches: (node: DependencyNode) => boolean
+    ): DependencyNode | undefined {
+        let level = nodes;
+        while (level.length > 0) {
+            const node = level.find(candidate => matches(candidate) && (!candidate.omittedReason || candidate.omittedReason === 'managed'));
+            if (node) {
+                return node;
+            }
+            level = level.flatMap(candidate => candidate.children);
+        }
+        return undefined;
+    }
+
+    /**
+     * 统计依赖引入的传递依赖数量，被省略的节点不计入
+     */
+    private static countTransitive(node: DependencyNode): number {
+        return MavenUtils.flattenDependencyTree(node.children).length;
+    }
+}
+
+/**
+ * 缓存中的依赖数据
+ */
+export interface CachedDependencyData {
+    treeData?: DependencyNode[];
+    resolvedDependencies?: ResolvedDependency[];
+    conflicts: DependencyConflict[];
+}
+
+/**
+ * 单个依赖的解析结果
+ */
+export interface DependencyInsight {
+    /** Maven 选用的版本 */
+    version?: string;
+    /** 生效的 scope */
+    scope?: string;
+    /** 是否为直接依赖 */
+    direct: boolean;
+    /** 直接依赖引入的传递依赖数量 */
+    transitiveCount: number;
+    /** 经由该直接依赖请求、但落选的版本冲突 */
+    conflicts: DependencyConflict[];
+    resolvedWithoutMaven: boolean;
+}
@@ -1,17 +1,32 @@
 import * as vscode from 'vscode';
 import { PomViewProvider } from './pomEditorProvider';
 import { CacheManager } from './cacheManager';
+import { PomHierarchy } from './pomHierarchy';
+import { MavenUtils } from './mavenUtils';
 import { MavenTaskProvider } from './mavenTaskProvider';
+import { MavenTestController } from './mavenTestController';
+import { PomDiagnosticProvider } from './pomDiagnosticProvider';
+import { PomHoverProvider } from './pomHoverProvider';
+import { PomCodeLensProvider } from './pomCodeLensProvider';
+import { PomCompletionProvider } from './pomCompletionProvider';
+import { PomDefinitionProvider } from './pomDefinitionProvider';
+import { PomCodeActionProvider } from './pomCodeActionProvider';
+import { MavenExplorerProvider, ExplorerNode } from './mavenExplorerProvider';
 import { t } from './i18n';
 
+/** 文件系统中的 pom.xml */
+const POM_SELECTOR: vscode.DocumentSelector = { scheme: 'file', pattern: '**/pom.xml' };
+
 export function activate(context: vscode.ExtensionContext) {
     console.log('Maven POM Editor extension is now active');
 
     // 创建缓存管理器实例
     const cacheManager = new CacheManager(context);
 
+    const taskProvider = new MavenTaskProvider(context, cacheManager);
+
     // Register the POM view provider
-    const pomViewProvider = new PomViewProvider(context, cacheManager);
+    const pomViewProvider = new PomViewProvider(context, cacheManager, taskProvider);
 
     // Register the open POM view command
     const openPomViewCommand = vscode.commands.registerCommand('mavenPomEditor.openPomView', () => {
@@ -31,26 +46,213 @@ export function activate(context: vscode.ExtensionContext) {
     });
     context.subscriptions.push(openPomViewCommand);
 
+    // Register the add dependency command
+    const addDependencyCommand = vscode.commands.registerCommand('mavenPomEditor.addDependency', (uri?: vscode.Uri) => {
+        const pomUri = uri ?? vscode.window.activeTextEditor?.document.uri;
+        if (!pomUri) {
+            vscode.window.showWarningMessage(t('msg.openPomFirst'));
+            return;
+        }
+        if (!pomUri.fsPath.endsWith('pom.xml')) {
+            vscode.window.showWarningMessage(t('msg.notPomFile'));
+            return;
+        }
+
+        return pomViewProvider.addDependency(pomUri);
+    });
+    context.subscriptions.push(addDependencyCommand);
+
+    // Register the compare dependencies command
+    const compareDependenciesCommand = vscode.commands.registerCommand('mavenPomEditor.compareDependencies', (uri?: vscode.Uri) => {
+        const pomUri = uri ?? vscode.window.activeTextEditor?.document.uri;
+        if (!pomUri) {
+            vscode.window.showWarningMessage(t('msg.openPomFirst'));
+            return;
+        }
+        if (!pomUri.fsPath.endsWith('pom.xml')) {
+            vscode.window.showWarningMessage(t('msg.notPomFile'));
+            return;
+        }
+
+        return pomViewProvider.compareDependencies(pomUri);
+    });
+    context.subscriptions.push(compareDependenciesCommand);
+
+    // 悬停提示与 CodeLens 中的命令，参数为 [pom.xml 的 URI, groupId, artifactId]
+    const showInHierarchyCommand = vscode.commands.registerCommand(
+        'mavenPomEditor.showInDependencyHierarchy',
+        (uri: vscode.Uri | string, groupId: string, artifactId: string) => {
+            pomViewProvider.openPomView(toUri(uri), { groupId, artifactId });
+        }
+    );
+    context.subscriptions.push(showInHierarchyCommand);
+
+    const codeLensProvider = new PomCodeLensProvider(cacheManager);
+    const checkVersionsCommand = vscode.commands.registerCommand(
+        'mavenPomEditor.checkVersions',
+        async (uri: vscode.Uri | string, groupId: string, artifactId: string) => {
+            await pomViewProvider.checkVersions(toUri(uri), groupId, artifactId);
+            // 查询到的版本列表会用于 CodeLens 中的新版本提示
+            codeLensProvider.refresh();
+        }
+    );
+    context.subscriptions.push(checkVersionsCommand);
+
+    // 注册 pom.xml 悬停提示
+    const hoverProvider = vscode.languages.registerHoverProvider(POM_SELECTOR, new PomHoverProvider(cacheManager));
+    context.subscriptions.push(hoverProvider);
+
+    // 注册 pom.xml CodeLens
+    const codeLensRegistration = vscode.languages.registerCodeLensProvider(POM_SELECTOR, codeLensProvider);
+    context.subscriptions.push(codeLensProvider, codeLensRegistration);
+
+    // 注册 pom.xml 自动补全
+    const completionProvider = vscode.languages.registerCompletionItemProvider(
+        POM_SELECTOR,
+        new PomCompletionProvider(cacheManager),
+        ...PomCompletionProvider.triggerCharacters
+    );
+    context.subscriptions.push(completionProvider);
+
+    // 注册 pom.xml 跳转到定义
+    const definitionProvider = vscode.languages.registerDefinitionProvider(POM_SELECTOR, new PomDefinitionProvider());
+    context.subscriptions.push(definitionProvider);
+
+    // 注册 pom.xml 重构操作
+    const codeActionProvider = vscode.languages.registerCodeActionsProvider(POM_SELECTOR, new PomCodeActionProvider(), {
+        providedCodeActionKinds: PomCodeActionProvider.providedCodeActionKinds
+    });
+    context.subscriptions.push(codeActionProvider);
+
     // 注册 Maven 任务提供者
-    const taskProvider = new MavenTaskProvider();
     const taskProviderRegistration = vscode.tasks.registerTaskProvider(
         MavenTaskProvider.taskType,
         taskProvider
     );
-    context.subscriptions.push(taskProviderRegistration);
+    context.subscriptions.push(taskProvider, taskProviderRegistration);
+
+    // 选择目标运行：未指定 POM 时使用当前编辑器中的 pom.xml，否则从工作区的 pom.xml 中选择
+    const runGoalCommand = vscode.commands.registerCommand('mavenPomEditor.runGoal', async (uri?: vscode.Uri) => {
+        let pomUri = uri ?? vscode.window.activeTextEditor?.document.uri;
+        if (!pomUri?.fsPath.endsWith('pom.xml')) {
+            const pomFiles = await vscode.workspace.findFiles('**/pom.xml', '**/{node_modules,target}/**');
+            if (pomFiles.length === 0) {
+                vscode.window.showWarningMessage(t('msg.noPomFiles'));
+                return;
+            }
+            const selected = pomFiles.length === 1 ? { uri: pomFiles[0] } : await vscode.window.showQuickPick(
+                pomFiles.map(file => ({ label: vscode.workspace.asRelativePath(file), uri: file })),
+                { placeHolder: t('task.selectPom') }
+            );
+            pomUri = selected?.uri;
+        }
+        if (pomUri) {
+            const pom = PomHierarchy.loadPom(pomUri.fsPath).pom;
+            await taskProvider.runGoal(pomUri.fsPath, pom.artifactId ?? vscode.workspace.asRelativePath(pomUri));
+        }
+    });
+    context.subscriptions.push(runGoalCommand);
+
+    // 在测试视图中显示 Surefire/Failsafe 报告，并以 Maven 任务重新运行测试
+    context.subscriptions.push(new MavenTestController(taskProvider));
+
+    // 注册资源管理器中的 Maven 项目视图
+    const explorerProvider = new MavenExplorerProvider(cacheManager);
+    const explorerView = vscode.window.createTreeView(MavenExplorerProvider.viewId, {
+        treeDataProvider: explorerProvider,
+        showCollapseAll: true
+    });
+    context.subscriptions.push(explorerProvider, explorerView);
+
+    const explorerRefreshCommand = vscode.commands.registerCommand('mavenPomEditor.explorer.refresh', (node?: ExplorerNode) => {
+        if (node?.kind === 'module') {
+            return explorerProvider.resolveDependencies(node);
+        }
+        PomHierarchy.resetWorkspaceIndex();
+        MavenUtils.resetReactorCache();
+        explorerProvider.refresh();
+    });
+    context.subscriptions.push(explorerRefreshCommand);
+
+    const explorerLocateCommand = vscode.commands.registerCommand('mavenPomEditor.explorer.locate', async (node: ExplorerNode) => {
+        switch (node.kind) {
+            case 'module':
+                await vscode.window.showTextDocument(vscode.Uri.file(node.pomPath));
+                break;
+            case 'dependency':
+                await pomViewProvider.locateDependency(
+                    vscode.Uri.file(node.module.pomPath),
+                    node.dependency.groupId,
+                    node.dependency.artifactId,
+                    node.path
+                );
+                break;
+            case 'plugin':
+            case 'profile': {
+                const element = node.kind === 'plugin' ? node.plugin.element : node.profile.element;
+                await pomViewProvider.revealElement({ file: PomHierarchy.loadPom(node.module.pomPath), element });
+                break;
+            }
+        }
+    });
+    context.subscriptions.push(explorerLocateCommand);
+
+    const explorerOpenPomViewCommand = vscode.commands.registerCommand('mavenPomEditor.explorer.openPomView', (node: ExplorerNode) => {
+        if (node.kind === 'module') {
+            pomViewProvider.openPomView(vscode.Uri.file(node.pomPath));
+        } else if (node.kind === 'dependency') {
+            const { groupId, artifactId } = node.dependency;
+            pomViewProvider.openPomView(vscode.Uri.file(node.module.pomPath), { groupId, artifactId });
+        }
+    });
+    context.subscriptions.push(explorerOpenPomViewCommand);
+
+    const explorerRunGoalCommand = vscode.commands.registerCommand('mavenPomEditor.explorer.runGoal', async (node: ExplorerNode) => {
+        if (node.kind !== 'module') {
+            return;
+        }
+        await taskProvider.runGoal(node.pomPath, node.pom.artifactId ?? node.pomPath);
+    });
+    context.subscriptions.push(explorerRunGoalCommand);
+
+    // 注册 POM 诊断
+    const diagnosticProvider = new PomDiagnosticProvider(cacheManager);
+    context.subscriptions.push(diagnosticProvider);
 
     // Listen for POM file save events to auto-clear cache
     const fileWatcher = vscode.workspace.onDidSaveTextDocument(async (document) => {
         if (document.fileName.endsWith('pom.xml')) {
+            PomHierarchy.resetWorkspaceIndex();
+            MavenUtils.resetReactorCache();
+            // 保留保存前的依赖树，供"比较依赖"使用
+            await cacheManager.saveSnapshot(document.uri.fsPath);
             await cacheManager.invalidate(document.uri.fsPath);
             vscode.window.showInformationMessage(t('msg.cacheCleared'));
         }
     });
     context.subscriptions.push(fileWatcher);
 
+    // POM 文件新增或删除时重建工作区 POM 索引与多模块项目的模块缓存
+    const pomWatcher = vscode.workspace.createFileSystemWatcher('**/pom.xml', false, true, false);
+    const resetPomIndexes = () => {
+        PomHierarchy.resetWorkspaceIndex();
+        MavenUtils.resetReactorCache();
+    };
+    pomWatcher.onDidCreate(resetPomIndexes);
+    pomWatcher.onDidDelete(resetPomIndexes);
+    context.subscriptions.push(pomWatcher);
+
+    // Maven 路径或运行配置改变后重新检查 Maven 是否可用
+    context.subscriptions.push(vscode.workspace.onDidChangeConfiguration(event => {
+        if (['mavenPomEditor.mavenPath', 'mavenPomEditor.maven'].some(section => event.affectsConfiguration(section))) {
+            MavenUtils.resetMavenAvailability();
+        }
+    }));
+
     // Register clear all cache command
     const clearCacheCommand = vscode.commands.registerCommand('mavenPomEditor.clearCache', async () => {
         await cacheManager.clearAll();
+        MavenUtils.resetMavenAvailability();
         vscode.window.showInformationMessage(t('msg.allCacheCleared'));
     });
     context.subscriptions.push(clearCacheCommand);
@@ -67,6 +269,13 @@ export function activate(context: vscode.ExtensionContext) {
     scheduleBackgroundPreload(context, cacheManager);
 }
 
+/**
+ * 命令链接的参数经过 JSON 序列化，URI 以字符串传递
+ */
+function toUri(uri: vscode.Uri | string): vscode.Uri {
+    return typeof uri === 'string' ? vscode.Uri.parse(uri) : uri;
+}
+
 export function deactivate() {
     console.log('Maven POM Editor extension is now deactivated');
 }
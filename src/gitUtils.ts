@@ -0,0 +1,79 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Git 工具类
+ * 通过 git 命令行读取文件的历史版本，文件不在 Git 仓库中时相关方法返回空结果或抛出错误
+ */
+export class GitUtils {
+    /**
+     * 判断文件是否位于 Git 仓库中
+     */
+    static async isInRepository(filePath: string): Promise<boolean> {
+        try {
+            await this.git(path.dirname(filePath), 'rev-parse', '--is-inside-work-tree');
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * 列出本地分支、远程分支与标签，按最近提交时间排序
+     */
+    static async listRefs(filePath: string): Promise<string[]> {
+        const stdout = await this.git(
+            path.dirname(filePath),
+            'for-each-ref',
+            '--sort=-committerdate',
+            '--format=%(refname:short)',
+            'refs/heads',
+            'refs/remotes',
+            'refs/tags'
+        );
+        return stdout.split('\n').map(ref => ref.trim()).filter(ref => ref && !ref.endsWith('/HEAD'));
+    }
+
+    /**
+     * 读取文件在指定 ref 中的内容
+     * @param ref 分支、标签或提交，如 HEAD、main、v1.0
+     */
+    static async showFile(filePath: string, ref: string): Promise<string> {
+        // ./ 前缀表示相对于当前目录的路径
+        return this.git(path.dirname(filePath), 'show', `${ref}:./${path.basename(filePath)}`);
+    }
+
+    /**
+     * 把仓库在指定 ref 中的 POM 文件（pom*.xml）与 .mvn 中的 Maven 配置按原目录结构写入 targetDir
+     * @returns filePath 在 targetDir 中对应的路径
+     */
+    static async exportPomFiles(filePath: string, ref: string, targetDir: string): Promise<string> {
+        const dir = fs.realpathSync(path.dirname(filePath));
+        const topLevel = path.resolve((await this.git(dir, 'rev-parse', '--show-toplevel')).trim());
+        const files = (await this.git(topLevel, 'ls-tree', '-r', '--name-only', '-z', ref, '--'))
+            .split('\0')
+            .filter(file => POM_FILE_PATTERN.test(file) || MAVEN_CONFIG_PATTERN.test(file));
+
+        for (const file of files) {
+            const target = path.join(targetDir, ...file.split('/'));
+            fs.mkdirSync(path.dirname(target), { recursive: true });
+            fs.writeFileSync(target, await this.git(topLevel, 'show', `${ref}:${file}`), 'utf-8');
+        }
+        return path.join(targetDir, path.relative(topLevel, path.join(dir, path.basename(filePath))));
+    }
+
+    private static async git(cwd: string, ...args: string[]): Promise<string> {
+        const { stdout } = await execFileAsync('git', args, { cwd, maxBuffer: 10 * 1024 * 1024 });
+        return stdout;
+    }
+}
+
+/** POM 文件：pom.xml 以及以文件声明的模块（如 pom-custom.xml） */
+const POM_FILE_PATTERN = /(^|\/)pom[^/]*\.xml$/;
+
+/** .mvn 中影响构建的配置，不包括 Maven Wrapper */
+const MAVEN_CONFIG_PATTERN = /(^|\/)\.mvn\/(maven\.config|jvm\.config|extensions\.xml)$/;
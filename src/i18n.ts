@@ -40,18 +40,34 @@ const translations: Record<Locale, Record<string, string>> = {
         'error.permission': '{0} failed: Insufficient permissions. Please check file access permissions.',
         'error.generic': '{0} failed: {1}',
         'error.notFoundInPom': 'Dependency not found in POM file: {0}:{1}',
+        'error.excludeFailed': 'Failed to add exclusion: {0}',
+        'error.applyVersionFailed': 'Failed to update version: {0}',
+        'error.propertyNotDefined': 'Property ${{0}} is not defined in this POM or its parent POMs',
+        'error.invalidPom': 'Invalid POM file: missing </project>',
+        'error.addDependencyFailed': 'Failed to add dependency: {0}',
+        'error.resolveConflictFailed': 'Failed to resolve conflict: {0}',
+        'error.compareFailed': 'Failed to compare dependencies: {0}',
+        'error.editPropertyFailed': 'Failed to edit property: {0}',
+        'error.renamePropertyFailed': 'Failed to rename property: {0}',
+        'error.analysisRequiresMaven': 'Dependency analysis compiles the project and requires Maven. Configure mavenPomEditor.mavenPath or set mavenPomEditor.dependencyResolution to "maven".',
+        'error.removeDependencyFailed': 'Failed to remove dependency: {0}',
+        'error.refactorFailed': 'Failed to prepare the refactoring: {0}',
+        'error.mavenCancelled': 'The Maven run was cancelled',
 
         // Progress
         'progress.checkMaven': 'Checking Maven environment',
-        'progress.resolveDependencies': 'Resolving dependencies',
+        'progress.resolveOffline': 'Resolving dependencies from the local repository (without Maven)',
         'progress.generateEffectivePom': 'Generating Effective POM',
         'progress.generateDependencyTree': 'Generating dependency tree',
         'progress.generateDependencyList': 'Generating dependency list',
         'progress.processResult': 'Processing results',
+        'progress.compareDependencies': 'Comparing dependencies with {0}...',
+        'progress.analyzeDependencies': 'Compiling and analyzing dependency usage',
 
         // Extension messages
         'msg.openPomFirst': 'Please open a pom.xml file first',
         'msg.notPomFile': 'The current file is not a pom.xml',
+        'msg.noPomFiles': 'No pom.xml found in the workspace',
         'msg.usingWrapper': 'Using Maven Wrapper: {0}',
         'msg.usingConfigPath': 'Using configured Maven path: {0}',
         'msg.usingSystemMaven': 'Using system Maven: {0}',
@@ -59,6 +75,83 @@ const translations: Record<Locale, Record<string, string>> = {
         'msg.cacheCleared': 'POM file updated, cache cleared',
         'msg.allCacheCleared': 'All Maven dependency caches cleared',
         'msg.cacheStats': 'Cache Statistics:\n• Memory cache: {0} items\n• WorkspaceState: {1} items\n• File cache: {2} items',
+        'msg.alreadyExcluded': '{0} is already excluded from {1}',
+        'msg.onlyTransitive': '{0} is not declared in this POM (transitive only). Add a managed version {1} to <dependencyManagement>?',
+        'msg.noLosingPaths': 'No omitted path of {0} can be excluded without also removing the version Maven picked',
+        'msg.versionManagedIn': 'The version of {0} is managed in {1}',
+        'msg.noCompareBase': 'Nothing to compare with: this pom.xml is not in a Git repository and no dependency tree was resolved before the last save',
+        'msg.markdownCopied': 'Dependency changes copied as Markdown',
+        'msg.propertyNotEditable': '${{0}} is only declared in POMs outside the workspace and cannot be edited',
+        'msg.propertyNotFound': 'No declaration or usage of ${{0}} was found in the workspace',
+        'msg.propertyRenamed': 'Renamed ${{0}} to ${{1}}: {2} change(s) in {3} file(s)',
+        'msg.noProfiles': 'No profiles are declared in this POM or its parents',
+
+        // Edit labels
+        'edit.excludeDependency': 'Exclude {0}:{1}',
+        'edit.updateVersion': 'Update {0}:{1} to {2}',
+        'edit.updateProperty': 'Set ${{0}} to {1}',
+        'edit.addDependency': 'Add dependency {0}:{1}',
+        'edit.addManagedDependency': 'Add managed dependency {0}:{1}',
+        'edit.renameProperty': 'Rename ${{0}} to ${{1}}',
+        'edit.removeDependency': 'Remove dependency {0}:{1}',
+        'edit.removeVersion': 'Remove version of {0}:{1}',
+        'edit.addProperty': 'Add property ${{0}} = {1}',
+        'edit.useVersionProperty': 'Use ${{2}} as the version of {0}:{1}',
+
+        // Diagnostics
+        'diag.duplicateDependency': 'Duplicate declaration of {0}; it is already declared on line {1}',
+        'diag.missingVersion': '{0} has no version and no managed version in the parent POMs or imported BOMs',
+        'diag.undefinedProperty': 'Property ${{0}} is not defined in this POM or its parents',
+        'diag.snapshotDependency': '{0} uses SNAPSHOT version {1} in release version {2}',
+        'diag.missingModule': 'Module "{0}" does not exist or contains no pom.xml',
+        'diag.versionConflict': '{0}:{1} is omitted; Maven uses {2}',
+        'diag.transitiveVersionConflict': 'Brings in {0}:{1} transitively, which is omitted; Maven uses {2}',
+
+        // Hover
+        'hover.resolvedVersion': 'Resolved version',
+        'hover.scope': 'Scope',
+        'hover.notInTree': 'Not in the resolved dependencies',
+        'hover.managedBy': 'Version {0} managed in {1}',
+        'hover.notManaged': 'No version and no managed version found',
+        'hover.declaredVersion': 'Declared version',
+        'hover.transitiveCount': 'Transitive dependencies',
+        'hover.conflicts': 'Conflicts under this dependency ({0}):',
+        'hover.conflictItem': 'requests {0}, Maven uses {1}',
+        'hover.notResolved': 'Dependencies have not been resolved yet. Open the POM view to resolve them.',
+        'hover.resolvedWithoutMaven': 'Resolved without Maven',
+        'hover.showInHierarchy': 'Show in Dependency Hierarchy',
+        'hover.checkVersions': 'Check versions',
+        'hover.value': 'Value',
+        'hover.declaredIn': 'Declared in {0}',
+        'hover.declaredInProfiles': 'Only declared in profiles: {0}',
+        'hover.propertyUndefined': 'Not defined in this POM or its parents',
+
+        // CodeLens
+        'lens.transitive': '{0} transitive',
+        'lens.conflict': '1 conflict',
+        'lens.conflicts': '{0} conflicts',
+        'lens.notInTree': 'Not in the resolved dependencies',
+        'lens.newer': 'newer: {0}',
+        'lens.latest': 'latest',
+        'lens.checkVersions': 'check versions',
+
+        // Code actions
+        'action.extractVersion': 'Extract version into property ${{0}}',
+        'action.moveVersionToParent': 'Move version to dependencyManagement in {0}',
+        'action.alignGroupVersions': 'Align versions of {0} with ${{1}} ({2})',
+
+        // Maven Projects view
+        'explorer.dependencies': 'Dependencies',
+        'explorer.plugins': 'Plugins',
+        'explorer.profiles': 'Profiles',
+        'explorer.resolving': 'Resolving dependencies...',
+        'explorer.resolveFailed': 'Failed to resolve dependencies. Click to retry.',
+        'explorer.noDependencies': 'No dependencies',
+        'explorer.omitted': 'omitted ({0})',
+        'explorer.omittedForConflict': 'omitted for conflict with {0}',
+        'explorer.inProfile': 'profile {0}',
+        'explorer.unnamedProfile': '(no id)',
+        'explorer.activeByDefault': 'active by default',
 
         // Task descriptions
         'task.clean': 'Clean project',
@@ -71,6 +164,16 @@ const translations: Record<Locale, Record<string, string>> = {
         'task.cleanPackage': 'Clean and package',
         'task.dependencyTree': 'Show dependency tree',
         'task.dependencyList': 'List dependencies',
+        'task.selectGoal': 'Select or type Maven goals and options to run in {0}',
+        'task.recentGoals': 'Recently used',
+        'task.commonGoals': 'Common goals',
+        'task.configuredGoals': 'Configured goals',
+        'task.pluginGoals': 'Plugin goals',
+        'task.runTypedGoal': 'Run',
+        'task.selectPom': 'Select the pom.xml to run Maven in',
+        'test.runWithMaven': 'Run with Maven',
+        'test.buildFailed': 'Maven exited with code {0} before reporting a result for this test',
+        'test.noResult': 'Maven did not report a result for this test',
 
         // Webview UI (passed to frontend)
         'ui.panelTitle': 'POM: {0}',
@@ -99,10 +202,57 @@ const translations: Record<Locale, Record<string, string>> = {
         'ui.noMatches': 'No matching dependencies',
         'ui.moreNodes': '... more nodes (click refresh to view all)',
         'ui.locateInEditor': 'Locate in Editor',
+        'ui.excludeDependency': 'Exclude',
+        'ui.applyVersion': '$(check) Apply to pom.xml',
+        'ui.copyVersion': '$(clippy) Copy to clipboard',
+        'ui.addManagedVersion': 'Add Managed Version',
+        'ui.searchArtifact': 'Search artifacts (keyword or groupId:artifactId)',
+        'ui.enteredCoordinates': 'Entered coordinates',
+        'ui.selectSection': 'Where should the dependency be added?',
+        'ui.sectionDependencies': 'Project dependencies',
+        'ui.sectionDependencyManagement': 'Managed version only',
+        'ui.selectType': 'Select dependency type',
+        'ui.selectScope': 'Select dependency scope',
+        'ui.enterClassifier': 'Classifier (leave empty for none)',
+        'ui.conflicts': 'Conflicts',
+        'ui.selectConflictVersion': 'Select the version of {0} to use',
+        'ui.conflictPicked': 'picked by Maven',
+        'ui.conflictRequestCount': 'requested by {0} path(s)',
+        'ui.otherVersion': '$(search) Other version...',
         'ui.omitted.conflict': 'conflict',
         'ui.omitted.duplicate': 'duplicate',
         'ui.omitted.cycle': 'cycle',
         'ui.omitted.managed': 'managed',
+        'ui.selectCompareBase': 'Compare the working copy with...',
+        'ui.lastSavedSnapshot': 'Last saved snapshot',
+        'ui.compareHeadHint': 'Last commit',
+        'ui.compareOtherRef': 'Branch, tag or commit...',
+        'ui.selectRef': 'Select a branch or tag',
+        'ui.enterCommit': 'Enter a commit hash or ref',
+        'ui.workingCopy': 'Working copy',
+        'ui.diffPanelTitle': 'Dependency Changes: {0} ({1})',
+        'ui.diffTitle': 'Dependency changes: {0} → {1}',
+        'ui.diffNoChanges': 'No dependency changes',
+        'ui.diffChange': 'Change',
+        'ui.diffDependency': 'Dependency',
+        'ui.diffAdded': 'Added',
+        'ui.diffRemoved': 'Removed',
+        'ui.diffUpgraded': 'Upgraded',
+        'ui.diffDowngraded': 'Downgraded',
+        'ui.diffScopeChanged': 'Scope changed',
+        'ui.copyMarkdown': 'Copy as Markdown',
+        'ui.openMarkdown': 'Open as Markdown',
+        'ui.properties': 'Properties',
+        'ui.modules': 'Modules',
+        'ui.selectPropertyDeclaration': 'Select the declaration of ${{0}} to edit',
+        'ui.enterPropertyValue': 'New value for ${{0}}',
+        'ui.enterPropertyName': 'New name for ${{0}} (declarations and usages in all modules are updated)',
+        'ui.invalidPropertyName': 'Property names must start with a letter or underscore and contain only letters, digits, ".", "-" or "_"',
+        'ui.dependencyAnalysis': 'Dependency Usage',
+        'ui.selectProfiles': 'Select the profiles to activate (-P) when running Maven for this POM',
+        'ui.profileActiveByDefault': 'active by default unless another profile of its POM is activated',
+        'ui.profileDeclaredIn': 'Declared in {0}',
+        'ui.profileNotDeclared': 'not declared in this POM or its parents',
     },
     'zh-cn': {
         // Common
@@ -117,18 +267,34 @@ const translations: Record<Locale, Record<string, string>> = {
         'error.permission': '{0}失败：权限不足。请检查文件访问权限。',
         'error.generic': '{0}失败：{1}',
         'error.notFoundInPom': '未在 POM 文件中找到依赖: {0}:{1}',
+        'error.excludeFailed': '添加依赖排除失败: {0}',
+        'error.applyVersionFailed': '更新依赖版本失败: {0}',
+        'error.propertyNotDefined': '属性 ${{0}} 未在当前 POM 及其父 POM 中定义',
+        'error.invalidPom': '无效的 POM 文件：缺少 </project>',
+        'error.addDependencyFailed': '添加依赖失败: {0}',
+        'error.resolveConflictFailed': '解决依赖冲突失败: {0}',
+        'error.compareFailed': '比较依赖失败: {0}',
+        'error.editPropertyFailed': '修改属性失败: {0}',
+        'error.renamePropertyFailed': '重命名属性失败: {0}',
+        'error.analysisRequiresMaven': '依赖分析需要编译项目，必须使用 Maven。请配置 mavenPomEditor.mavenPath，或将 mavenPomEditor.dependencyResolution 设置为 "maven"',
+        'error.removeDependencyFailed': '删除依赖失败: {0}',
+        'error.refactorFailed': '生成重构编辑失败: {0}',
+        'error.mavenCancelled': '已取消运行 Maven',
 
         // Progress
         'progress.checkMaven': '检查 Maven 环境',
-        'progress.resolveDependencies': '解析依赖关系',
+        'progress.resolveOffline': '从本地仓库解析依赖（未使用 Maven）',
         'progress.generateEffectivePom': '生成 Effective POM',
         'progress.generateDependencyTree': '生成依赖树',
         'progress.generateDependencyList': '生成依赖列表',
         'progress.processResult': '处理结果',
+        'progress.compareDependencies': '正在与 {0} 比较依赖...',
+        'progress.analyzeDependencies': '编译并分析依赖使用情况',
 
         // Extension messages
         'msg.openPomFirst': '请先打开一个 pom.xml 文件',
         'msg.notPomFile': '当前文件不是 pom.xml',
+        'msg.noPomFiles': '工作区中没有 pom.xml',
         'msg.usingWrapper': '使用 Maven Wrapper: {0}',
         'msg.usingConfigPath': '使用配置的 Maven 路径: {0}',
         'msg.usingSystemMaven': '使用系统 Maven: {0}',
@@ -136,6 +302,83 @@ const translations: Record<Locale, Record<string, string>> = {
         'msg.cacheCleared': 'POM 文件已更新，缓存已清除',
         'msg.allCacheCleared': '已清除所有 Maven 依赖缓存',
         'msg.cacheStats': '缓存统计:\n• 内存缓存: {0} 项\n• WorkspaceState: {1} 项\n• 文件缓存: {2} 项',
+        'msg.alreadyExcluded': '{0} 已在 {1} 中排除',
+        'msg.onlyTransitive': '{0} 未在当前 POM 中声明（仅为传递依赖）。是否在 <dependencyManagement> 中添加托管版本 {1}？',
+        'msg.noLosingPaths': '{0} 没有可以排除的被省略路径（排除会同时移除 Maven 选用的版本）',
+        'msg.versionManagedIn': '{0} 的版本由 {1} 管理',
+        'msg.noCompareBase': '没有可比较的对象：该 pom.xml 不在 Git 仓库中，且上次保存前没有解析过依赖树',
+        'msg.markdownCopied': '依赖变化已复制为 Markdown',
+        'msg.propertyNotEditable': '${{0}} 只在工作区之外的 POM 中声明，无法修改',
+        'msg.propertyNotFound': '工作区中没有找到 ${{0}} 的声明或引用',
+        'msg.propertyRenamed': '已将 ${{0}} 重命名为 ${{1}}：{3} 个文件中共 {2} 处修改',
+        'msg.noProfiles': '该 POM 及其父 POM 中没有声明 profile',
+
+        // Edit labels
+        'edit.excludeDependency': '排除 {0}:{1}',
+        'edit.updateVersion': '将 {0}:{1} 更新为 {2}',
+        'edit.updateProperty': '将 ${{0}} 设置为 {1}',
+        'edit.addDependency': '添加依赖 {0}:{1}',
+        'edit.addManagedDependency': '添加托管依赖 {0}:{1}',
+        'edit.renameProperty': '将 ${{0}} 重命名为 ${{1}}',
+        'edit.removeDependency': '删除依赖 {0}:{1}',
+        'edit.removeVersion': '删除 {0}:{1} 的版本',
+        'edit.addProperty': '添加属性 ${{0}} = {1}',
+        'edit.useVersionProperty': '将 {0}:{1} 的版本改为 ${{2}}',
+
+        // 诊断
+        'diag.duplicateDependency': '重复声明 {0}，第 {1} 行已声明',
+        'diag.missingVersion': '{0} 没有指定版本，父 POM 与 import 的 BOM 中也没有托管版本',
+        'diag.undefinedProperty': '该 POM 及其父 POM 中没有定义属性 ${{0}}',
+        'diag.snapshotDependency': '正式版本 {2} 中使用了 {0} 的 SNAPSHOT 版本 {1}',
+        'diag.missingModule': '模块 "{0}" 不存在或其中没有 pom.xml',
+        'diag.versionConflict': '{0}:{1} 被省略，Maven 使用 {2}',
+        'diag.transitiveVersionConflict': '传递引入的 {0}:{1} 被省略，Maven 使用 {2}',
+
+        // 悬停提示
+        'hover.resolvedVersion': '解析版本',
+        'hover.scope': 'Scope',
+        'hover.notInTree': '不在已解析的依赖中',
+        'hover.managedBy': '版本 {0} 由 {1} 托管',
+        'hover.notManaged': '没有指定版本，也没有找到托管版本',
+        'hover.declaredVersion': '声明的版本',
+        'hover.transitiveCount': '传递依赖数',
+        'hover.conflicts': '该依赖下的版本冲突（{0}）：',
+        'hover.conflictItem': '请求 {0}，Maven 使用 {1}',
+        'hover.notResolved': '尚未解析依赖，打开 POM 视图即可解析。',
+        'hover.resolvedWithoutMaven': '未使用 Maven 解析',
+        'hover.showInHierarchy': '在依赖层级中显示',
+        'hover.checkVersions': '查看版本',
+        'hover.value': '值',
+        'hover.declaredIn': '声明于 {0}',
+        'hover.declaredInProfiles': '仅在 profile 中声明：{0}',
+        'hover.propertyUndefined': '该 POM 及其父 POM 中没有定义',
+
+        // CodeLens
+        'lens.transitive': '{0} 个传递依赖',
+        'lens.conflict': '1 个冲突',
+        'lens.conflicts': '{0} 个冲突',
+        'lens.notInTree': '不在已解析的依赖中',
+        'lens.newer': '新版本: {0}',
+        'lens.latest': '已是最新',
+        'lens.checkVersions': '查看版本',
+
+        // 重构操作
+        'action.extractVersion': '将版本提取为属性 ${{0}}',
+        'action.moveVersionToParent': '将版本移到 {0} 的 dependencyManagement',
+        'action.alignGroupVersions': '用 ${{1}}（{2}）统一 {0} 下所有依赖的版本',
+
+        // Maven 项目视图
+        'explorer.dependencies': '依赖',
+        'explorer.plugins': '插件',
+        'explorer.profiles': 'Profiles',
+        'explorer.resolving': '正在解析依赖...',
+        'explorer.resolveFailed': '解析依赖失败，点击重试',
+        'explorer.noDependencies': '没有依赖',
+        'explorer.omitted': '已省略（{0}）',
+        'explorer.omittedForConflict': '因与 {0} 冲突被省略',
+        'explorer.inProfile': 'profile {0}',
+        'explorer.unnamedProfile': '（没有 id）',
+        'explorer.activeByDefault': '默认激活',
 
         // Task descriptions
         'task.clean': '清理项目',
@@ -148,6 +391,16 @@ const translations: Record<Locale, Record<string, string>> = {
         'task.cleanPackage': '清理并打包',
         'task.dependencyTree': '显示依赖树',
         'task.dependencyList': '列出依赖',
+        'task.selectGoal': '选择或输入要在 {0} 中运行的 Maven 目标与参数',
+        'task.recentGoals': '最近使用',
+        'task.commonGoals': '常用目标',
+        'task.configuredGoals': '配置的目标',
+        'task.pluginGoals': '插件目标',
+        'task.runTypedGoal': '运行',
+        'task.selectPom': '选择要运行 Maven 的 pom.xml',
+        'test.runWithMaven': '使用 Maven 运行',
+        'test.buildFailed': 'Maven 在报告该测试的结果之前退出，退出码 {0}',
+        'test.noResult': 'Maven 没有报告该测试的结果',
 
         // Webview UI
         'ui.panelTitle': 'POM: {0}',
@@ -176,10 +429,57 @@ const translations: Record<Locale, Record<string, string>> = {
         'ui.noMatches': '没有匹配的依赖',
         'ui.moreNodes': '... 更多节点 (点击刷新查看全部)',
         'ui.locateInEditor': '在编辑器中定位',
+        'ui.excludeDependency': '排除',
+        'ui.applyVersion': '$(check) 应用到 pom.xml',
+        'ui.copyVersion': '$(clippy) 复制到剪贴板',
+        'ui.addManagedVersion': '添加托管版本',
+        'ui.searchArtifact': '搜索构件（关键字或 groupId:artifactId）',
+        'ui.enteredCoordinates': '输入的坐标',
+        'ui.selectSection': '将依赖添加到哪里？',
+        'ui.sectionDependencies': '项目依赖',
+        'ui.sectionDependencyManagement': '仅托管版本',
+        'ui.selectType': '选择依赖类型',
+        'ui.selectScope': '选择依赖作用域',
+        'ui.enterClassifier': 'Classifier（不需要请留空）',
+        'ui.conflicts': '依赖冲突',
+        'ui.selectConflictVersion': '选择 {0} 要使用的版本',
+        'ui.conflictPicked': 'Maven 选用的版本',
+        'ui.conflictRequestCount': '{0} 条路径请求',
+        'ui.otherVersion': '$(search) 其他版本...',
         'ui.omitted.conflict': '冲突',
         'ui.omitted.duplicate': '重复',
         'ui.omitted.cycle': '循环',
         'ui.omitted.managed': '托管',
+        'ui.selectCompareBase': '将当前工作区与以下版本比较...',
+        'ui.lastSavedSnapshot': '上次保存前的快照',
+        'ui.compareHeadHint': '最近一次提交',
+        'ui.compareOtherRef': '分支、标签或提交...',
+        'ui.selectRef': '选择分支或标签',
+        'ui.enterCommit': '输入提交哈希或 ref',
+        'ui.workingCopy': '当前工作区',
+        'ui.diffPanelTitle': '依赖变化: {0} ({1})',
+        'ui.diffTitle': '依赖变化: {0} → {1}',
+        'ui.diffNoChanges': '依赖没有变化',
+        'ui.diffChange': '变化',
+        'ui.diffDependency': '依赖',
+        'ui.diffAdded': '新增',
+        'ui.diffRemoved': '移除',
+        'ui.diffUpgraded': '升级',
+        'ui.diffDowngraded': '降级',
+        'ui.diffScopeChanged': 'scope 变化',
+        'ui.copyMarkdown': '复制为 Markdown',
+        'ui.openMarkdown': '打开为 Markdown',
+        'ui.properties': '属性',
+        'ui.modules': '模块',
+        'ui.selectPropertyDeclaration': '选择要修改的 ${{0}} 声明',
+        'ui.enterPropertyValue': '${{0}} 的新值',
+        'ui.enterPropertyName': '${{0}} 的新名称（所有模块中的声明和引用都会更新）',
+        'ui.invalidPropertyName': '属性名必须以字母或下划线开头，只能包含字母、数字、"."、"-" 或 "_"',
+        'ui.dependencyAnalysis': '依赖使用',
+        'ui.selectProfiles': '选择为该 POM 运行 Maven 时激活的 profile（-P）',
+        'ui.profileActiveByDefault': '默认激活，同一 POM 中的其他 profile 被激活时失效',
+        'ui.profileDeclaredIn': '声明于 {0}',
+        'ui.profileNotDeclared': '未在该 POM 及其父 POM 中声明',
     }
 };
 
@@ -0,0 +1,327 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { CacheManager } from './cacheManager';
+import { DependencyNode, MavenUtils } from './mavenUtils';
+import { PomDocument, PomPlugin, PomProfile } from './pomDocument';
+import { PomHierarchy } from './pomHierarchy';
+import { t } from './i18n';
+
+/**
+ * 资源管理器中的 Maven 项目视图
+ * 按 <modules> 列出工作区中的多模块项目，每个模块下显示依赖（来自缓存的依赖树）、插件与 profile；
+ * 依赖树缓存更新或 pom.xml 保存后自动刷新
+ */
+export class MavenExplorerProvider implements vscode.TreeDataProvider<ExplorerNode>, vscode.Disposable {
+    static readonly viewId = 'mavenPomEditor.projects';
+
+    private readonly changeEmitter = new vscode.EventEmitter<ExplorerNode | undefined>();
+    private readonly disposables: vscode.Disposable[] = [];
+    /** 正在解析依赖的模块 */
+    private readonly resolving = new Set<string>();
+    /** 解析依赖失败的模块，再次刷新前不自动重试 */
+    private readonly failed = new Set<string>();
+
+    readonly onDidChangeTreeData = this.changeEmitter.event;
+
+    constructor(private readonly cacheManager: CacheManager) {
+        const watcher = vscode.workspace.createFileSystemWatcher('**/pom.xml');
+        this.disposables.push(
+            this.changeEmitter,
+            watcher,
+            watcher.onDidCreate(() => this.refresh()),
+            watcher.onDidDelete(() => this.refresh()),
+            vscode.workspace.onDidSaveTextDocument(document => {
+                if (document.fileName.endsWith('pom.xml')) {
+                    this.refresh();
+                }
+            }),
+            this.cacheManager.onDidChange(event => {
+                if (event.cacheKey === 'dependencyTree') {
+                    this.failed.delete(event.pomPath);
+                    this.refresh();
+                }
+            })
+        );
+        this.updateContext();
+    }
+
+    dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+
+    /**
+     * 重新读取所有 POM 并刷新视图
+     */
+    refresh(): void {
+        this.changeEmitter.fire(undefined);
+        this.updateContext();
+    }
+
+    /**
+     * 运行 Maven 重新解析模块的依赖树，完成后通过缓存更新事件刷新视图
+     */
+    async resolveDependencies(module: ModuleNode): Promise<void> {
+        if (this.resolving.has(module.pomPath)) {
+            return;
+        }
+        this.resolving.add(module.pomPath);
+        this.failed.delete(module.pomPath);
+        this.changeEmitter.fire(undefined);
+
+        try {
+            await vscode.window.withProgress(
+                {
+                    location: { viewId: MavenExplorerProvider.viewId },
+                    title: t('progress.generateDependencyTree')
+                },
+                () => this.cacheManager.preloadData(module.pomPath, 'dependencyTree')
+            );
+        } finally {
+            this.resolving.delete(module.pomPath);
+            // preloadData 不抛出错误，缓存中仍然没有数据即为失败
+            if (!await this.cacheManager.get(module.pomPath, 'dependencyTree')) {
+                this.failed.add(module.pomPath);
+            }
+            this.changeEmitter.fire(undefined);
+        }
+    }
+
+    getTreeItem(node: ExplorerNode): vscode.TreeItem {
+        const collapsed = vscode.TreeItemCollapsibleState.Collapsed;
+        const none = vscode.TreeItemCollapsibleState.None;
+
+        switch (node.kind) {
+            case 'module': {
+                const pom = node.pom;
+                const item = new vscode.TreeItem(pom.artifactId || path.basename(path.dirname(node.pomPath)), collapsed);
+                item.description = pom.version ?? pom.parent?.version;
+                item.tooltip = vscode.workspace.asRelativePath(node.pomPath);
+                item.iconPath = new vscode.ThemeIcon('package');
+                item.contextValue = 'module';
+                return item;
+            }
+            case 'folder': {
+                const item = new vscode.TreeItem(t(`explorer.${node.folder}`), collapsed);
+                item.iconPath = new vscode.ThemeIcon(FOLDER_ICONS[node.folder]);
+                item.contextValue = 'folder';
+                return item;
+            }
+            case 'dependency': {
+                const dependency = node.dependency;
+                const item = new vscode.TreeItem(dependency.artifactId, dependency.children.length > 0 ? collapsed : none);
+                const details = [dependency.version];
+                if (dependency.scope && dependency.scope !== 'compile') {
+                    details.push(dependency.scope);
+                }
+                if (dependency.omittedReason === 'conflict') {
+                    details.push(t('explorer.omittedForConflict', dependency.conflictVersion ?? '?'));
+                } else if (dependency.omittedReason) {
+                    details.push(t('explorer.omitted', dependency.omittedReason));
+                }
+                item.description = details.join(' · ');
+                item.tooltip = [dependency.groupId, dependency.artifactId, dependency.type, dependency.classifier, dependency.version]
+                    .filter(part => part)
+                    .join(':');
+                item.iconPath = new vscode.ThemeIcon(dependency.omittedReason ? 'circle-slash' : 'library');
+                item.contextValue = 'dependency';
+                return item;
+            }
+            case 'plugin': {
+                const item = new vscode.TreeItem(node.plugin.artifactId, none);
+                item.description = [node.plugin.version, node.plugin.profileId && t('explorer.inProfile', node.plugin.profileId)]
+                    .filter(part => part)
+                    .join(' · ');
+                item.tooltip = `${node.plugin.groupId}:${node.plugin.artifactId}`;
+                item.iconPath = new vscode.ThemeIcon('plug');
+                item.contextValue = 'plugin';
+                return item;
+            }
+            case 'profile': {
+                const item = new vscode.TreeItem(node.profile.id || t('explorer.unnamedProfile'), none);
+                const activeByDefault = PomDocument.childText(PomDocument.child(node.profile.element, 'activation'), 'activeByDefault');
+                item.description = activeByDefault === 'true' ? t('explorer.activeByDefault') : undefined;
+                item.iconPath = new vscode.ThemeIcon('symbol-enum');
+                item.contextValue = 'profile';
+                return item;
+            }
+            case 'message': {
+                const item = new vscode.TreeItem(node.label, none);
+                item.iconPath = new vscode.ThemeIcon(node.icon);
+                item.command = node.command;
+                return item;
+            }
+        }
+    }
+
+    async getChildren(node?: ExplorerNode): Promise<ExplorerNode[]> {
+        if (!node) {
+            return this.findRootModules();
+        }
+
+        switch (node.kind) {
+            case 'module':
+                return this.getModuleChildren(node);
+            case 'folder':
+                return this.getFolderChildren(node);
+            case 'dependency':
+                return node.dependency.children.map(child => ({
+                    kind: 'dependency',
+                    module: node.module,
+                    dependency: child,
+                    path: [...node.path, child]
+                }));
+            default:
+                return [];
+        }
+    }
+
+    /**
+     * 工作区中不属于其他 POM 的 <modules> 的 pom.xml
+     */
+    private async findRootModules(): Promise<ModuleNode[]> {
+        const files = await vscode.workspace.findFiles('**/pom.xml', '**/{node_modules,target}/**');
+        const modules: ModuleNode[] = [];
+        for (const file of files) {
+            try {
+                modules.push(this.toModuleNode(file.fsPath));
+            } catch (error) {
+                console.warn(`读取 POM 失败: ${file.fsPath}`, error);
+            }
+        }
+
+        const childPaths = new Set(modules.flatMap(module => this.getModulePaths(module)));
+        return modules
+            .filter(module => !childPaths.has(module.pomPath))
+            .sort((a, b) => a.pomPath.localeCompare(b.pomPath));
+    }
+
+    private getModuleChildren(module: ModuleNode): ExplorerNode[] {
+        const children: ExplorerNode[] = [];
+        for (const modulePath of this.getModulePaths(module)) {
+            try {
+                children.push(this.toModuleNode(modulePath));
+            } catch (error) {
+                console.warn(`读取 POM 失败: ${modulePath}`, error);
+            }
+        }
+
+        children.push({ kind: 'folder', folder: 'dependencies', module });
+        if (module.pom.getPlugins().length > 0) {
+            children.push({ kind: 'folder', folder: 'plugins', module });
+        }
+        if (module.pom.profiles.length > 0) {
+            children.push({ kind: 'folder', folder: 'profiles', module });
+        }
+        return children;
+    }
+
+    private async getFolderChildren(folder: FolderNode): Promise<ExplorerNode[]> {
+        const module = folder.module;
+        switch (folder.folder) {
+            case 'plugins':
+                return module.pom.getPlugins().map(plugin => ({ kind: 'plugin', module, plugin }));
+            case 'profiles':
+                return module.pom.profiles.map(profile => ({ kind: 'profile', module, profile }));
+            case 'dependencies':
+                break;
+        }
+
+        const treeData: DependencyNode[] | null = await this.cacheManager.get(module.pomPath, 'dependencyTree');
+        if (!treeData) {
+            if (this.failed.has(module.pomPath)) {
+                return [{
+                    kind: 'message',
+                    label: t('explorer.resolveFailed'),
+                    icon: 'warning',
+                    command: { title: t('explorer.resolveFailed'), command: 'mavenPomEditor.explorer.refresh', arguments: [module] }
+                }];
+            }
+            // 展开时才解析依赖，避免打开工作区时为每个模块运行 Maven
+            this.resolveDependencies(module);
+            return [{ kind: 'message', label: t('explorer.resolving'), icon: 'loading~spin' }];
+        }
+
+        const root = treeData.find(node => node.artifactId === module.pom.artifactId) ?? treeData[0];
+        const dependencies = root?.children ?? [];
+        if (dependencies.length === 0) {
+            return [{ kind: 'message', label: t('explorer.noDependencies'), icon: 'info' }];
+        }
+        return dependencies.map(dependency => ({ kind: 'dependency', module, dependency, path: [dependency] }));
+    }
+
+    private toModuleNode(pomPath: string): ModuleNode {
+        return { kind: 'module', pomPath, pom: PomHierarchy.loadPom(pomPath).pom };
+    }
+
+    /**
+     * 模块声明的子模块 pom.xml 路径（只包含存在的文件）
+     */
+    private getModulePaths(module: ModuleNode): string[] {
+        return module.pom.modules
+            .map(name => MavenUtils.resolveModulePath(module.pomPath, name))
+            .filter(modulePath => fs.existsSync(modulePath));
+    }
+
+    /**
+     * 工作区中有 pom.xml 时才显示视图
+     */
+    private updateContext(): void {
+        vscode.workspace.findFiles('**/pom.xml', '**/{node_modules,target}/**', 1).then(files => {
+            vscode.commands.executeCommand('setContext', 'mavenPomEditor.hasPomFiles', files.length > 0);
+        });
+    }
+}
+
+/**
+ * 视图中的节点
+ */
+export type ExplorerNode = ModuleNode | FolderNode | DependencyItemNode | PluginNode | ProfileNode | MessageNode;
+
+export interface ModuleNode {
+    kind: 'module';
+    pomPath: string;
+    pom: PomDocument;
+}
+
+export interface FolderNode {
+    kind: 'folder';
+    folder: 'dependencies' | 'plugins' | 'profiles';
+    module: ModuleNode;
+}
+
+export interface DependencyItemNode {
+    kind: 'dependency';
+    module: ModuleNode;
+    dependency: DependencyNode;
+    /** 从直接依赖到该依赖的路径 */
+    path: DependencyNode[];
+}
+
+export interface PluginNode {
+    kind: 'plugin';
+    module: ModuleNode;
+    plugin: PomPlugin;
+}
+
+export interface ProfileNode {
+    kind: 'profile';
+    module: ModuleNode;
+    profile: PomProfile;
+}
+
+/**
+ * 提示信息（如正在解析、解析失败）
+ */
+export interface MessageNode {
+    kind: 'message';
+    label: string;
+    icon: string;
+    command?: vscode.Command;
+}
+
+const FOLDER_ICONS: Record<FolderNode['folder'], string> = {
+    dependencies: 'references',
+    plugins: 'extensions',
+    profiles: 'list-filter'
+};
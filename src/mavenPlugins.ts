@@ -0,0 +1,233 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as yauzl from 'yauzl';
+import { MavenRepository } from './mavenRepository';
+import { PomDocument, XmlElement } from './pomDocument';
+import { PomHierarchy } from './pomHierarchy';
+
+/**
+ * Maven 插件目标发现工具类
+ * 列出 POM 构建中使用的插件的目标（如 spring-boot:run、jib:build）；
+ * 插件在本地仓库中时读取插件描述符（META-INF/maven/plugin.xml）得到前缀与全部目标，否则使用 <executions> 中的目标
+ */
+export class MavenPlugins {
+    /** 插件 jar 路径 → 读取时 jar 的修改时间与描述符（没有描述符时为 null） */
+    private static readonly descriptors = new Map<string, { mtime: number; descriptor: PluginDescriptor | null }>();
+
+    /**
+     * 获取 POM 中插件的目标
+     * @param effectivePom Effective POM 的内容，未提供时使用该 POM 及其父 POM 中声明的插件（不包括 profile 中的插件）
+     */
+    static async getPluginGoals(pomPath: string, effectivePom?: string): Promise<PluginGoal[]> {
+        const plugins = effectivePom
+            ? this.getEffectivePlugins(pomPath, effectivePom)
+            : await this.getDeclaredPlugins(pomPath);
+
+        // 默认生命周期绑定的插件已通过常用的阶段提供
+        const buildPlugins = plugins.filter(plugin =>
+            plugin.groupId !== 'org.apache.maven.plugins' || !LIFECYCLE_PLUGINS.includes(plugin.artifactId));
+        const descriptors = await Promise.all(buildPlugins.map(plugin =>
+            plugin.version ? this.readDescriptor(plugin.groupId, plugin.artifactId, plugin.version) : null));
+
+        const goals = new Map<string, PluginGoal>();
+        for (const [index, plugin] of buildPlugins.entries()) {
+            const descriptor = descriptors[index];
+            const prefix = descriptor?.goalPrefix ?? this.getGoalPrefix(plugin.artifactId);
+            const names = descriptor?.goals ?? plugin.executionGoals;
+            for (const name of names) {
+                const goal = `${prefix}:${name}`;
+                if (!goals.has(goal)) {
+                    goals.set(goal, { goal, groupId: plugin.groupId, artifactId: plugin.artifactId, version: plugin.version });
+                }
+            }
+        }
+        return [...goals.values()];
+    }
+
+    /**
+     * 按 Maven 的命名约定推断插件前缀：maven-xxx-plugin 与 xxx-maven-plugin 的前缀为 xxx
+     */
+    static getGoalPrefix(artifactId: string): string {
+        const match = artifactId.match(/^maven-(.+)-plugin$/) ?? artifactId.match(/^(.+)-maven-plugin$/);
+        return match ? match[1] : artifactId.replace(/-plugin$/, '');
+    }
+
+    /**
+     * Effective POM 中的 <build><plugins>；多模块项目的 Effective POM 包含多个项目时取该 POM 对应的项目
+     */
+    private static getEffectivePlugins(pomPath: string, effectivePom: string): BuildPlugin[] {
+        const document = PomDocument.parse(effectivePom);
+        const projects = document.project
+            ? [document.project]
+            : document.roots.flatMap(root => PomDocument.childElements(root, 'project'));
+        const artifactId = PomHierarchy.loadPom(pomPath).pom.artifactId;
+        const project = projects.find(item => PomDocument.childText(item, 'artifactId') === artifactId) ?? projects[0];
+
+        return PomDocument.childElements(PomDocument.child(project, 'build', 'plugins'), 'plugin').map(element => ({
+            groupId: PomDocument.childText(element, 'groupId') ?? 'org.apache.maven.plugins',
+            artifactId: PomDocument.childText(element, 'artifactId') ?? '',
+            version: PomDocument.childText(element, 'version'),
+            executionGoals: this.getExecutionGoals(element)
+        }));
+    }
+
+    /**
+     * 该 POM 及其父 POM 的 <build><plugins> 中声明的插件，版本与 <executions> 从 <pluginManagement> 中补全
+     */
+    private static async getDeclaredPlugins(pomPath: string): Promise<BuildPlugin[]> {
+        const chain = await PomHierarchy.resolveChain(pomPath);
+        const declared = chain.flatMap(file => file.pom.getPlugins()
+            .filter(plugin => plugin.profileId === undefined)
+            .map(plugin => ({ file, plugin })));
+
+        const plugins = new Map<string, BuildPlugin>();
+        for (const { file, plugin } of declared) {
+            if (plugin.location !== 'plugins') {
+                continue;
+            }
+            const key = `${plugin.groupId}:${plugin.artifactId}`;
+            if (plugins.has(key)) {
+                continue;
+            }
+            const managed = declared.find(item =>
+                item.plugin.location === 'pluginManagement' &&
+                item.plugin.groupId === plugin.groupId &&
+                item.plugin.artifactId === plugin.artifactId
+            );
+            // 版本中的属性从声明版本的 POM 开始解析
+            const versionSource = plugin.version ? file : managed?.file ?? file;
+            plugins.set(key, {
+                groupId: plugin.groupId,
+                artifactId: plugin.artifactId,
+                version: PomHierarchy.resolveValue(plugin.version ?? managed?.plugin.version, chain.slice(chain.indexOf(versionSource))),
+                executionGoals: [
+                    ...this.getExecutionGoals(plugin.element),
+                    ...(managed ? this.getExecutionGoals(managed.plugin.element) : [])
+                ]
+            });
+        }
+        return [...plugins.values()];
+    }
+
+    private static getExecutionGoals(plugin: XmlElement): string[] {
+        const goals = PomDocument.childElements(PomDocument.child(plugin, 'executions'), 'execution')
+            .flatMap(execution => PomDocument.childElements(PomDocument.child(execution, 'goals'), 'goal'))
+            .map(goal => goal.text)
+            .filter((goal): goal is string => !!goal && !goal.includes('${'));
+        return [...new Set(goals)];
+    }
+
+    /**
+     * 读取本地仓库中插件 jar 的描述符，jar 未修改时复用上次读取的结果
+     */
+    private static async readDescriptor(groupId: string, artifactId: string, version: string): Promise<PluginDescriptor | null> {
+        if (version.includes('${')) {
+            return null;
+        }
+        const jarPath = path.join(
+            MavenRepository.getLocalRepositoryPath(),
+            ...groupId.split('.'),
+            artifactId,
+            version,
+            `${artifactId}-${version}.jar`
+        );
+        let mtime: number;
+        try {
+            mtime = (await fs.promises.stat(jarPath)).mtimeMs;
+        } catch {
+            // 插件不在本地仓库中
+            return null;
+        }
+        const cached = this.descriptors.get(jarPath);
+        if (cached?.mtime === mtime) {
+            return cached.descriptor;
+        }
+
+        let descriptor: PluginDescriptor | null = null;
+        try {
+            const content = await readZipEntry(jarPath, 'META-INF/maven/plugin.xml');
+            const plugin = content ? PomDocument.parse(content.toString('utf-8')).roots.find(root => root.name === 'plugin') : undefined;
+            if (plugin) {
+                descriptor = {
+                    goalPrefix: PomDocument.childText(plugin, 'goalPrefix') ?? this.getGoalPrefix(artifactId),
+                    goals: PomDocument.childElements(PomDocument.child(plugin, 'mojos'), 'mojo')
+                        .map(mojo => PomDocument.childText(mojo, 'goal'))
+                        .filter((goal): goal is string => !!goal)
+                };
+            }
+        } catch (error) {
+            console.warn(`读取插件描述符失败: ${jarPath}`, error);
+        }
+        this.descriptors.set(jarPath, { mtime, descriptor });
+        return descriptor;
+    }
+}
+
+/**
+ * 插件的一个目标
+ */
+export interface PluginGoal {
+    /** 以前缀表示的目标，如 spring-boot:run */
+    goal: string;
+    groupId: string;
+    artifactId: string;
+    version?: string;
+}
+
+interface BuildPlugin {
+    groupId: string;
+    artifactId: string;
+    version?: string;
+    /** <executions> 中绑定的目标 */
+    executionGoals: string[];
+}
+
+interface PluginDescriptor {
+    goalPrefix: string;
+    goals: string[];
+}
+
+/** 默认生命周期中绑定的插件（artifactId） */
+const LIFECYCLE_PLUGINS = [
+    'maven-clean-plugin',
+    'maven-resources-plugin',
+    'maven-compiler-plugin',
+    'maven-surefire-plugin',
+    'maven-jar-plugin',
+    'maven-war-plugin',
+    'maven-install-plugin',
+    'maven-deploy-plugin',
+    'maven-site-plugin'
+];
+
+/**
+ * 从 zip（jar）文件中读取一个条目，只读取中央目录与该条目
+ * @returns 条目内容，条目不存在时为 undefined
+ */
+async function readZipEntry(zipPath: string, entryName: string): Promise<Buffer | undefined> {
+    const zip = await new Promise<yauzl.ZipFile>((resolve, reject) => {
+        yauzl.open(zipPath, { lazyEntries: true, autoClose: false }, (error, zipFile) => error ? reject(error) : resolve(zipFile));
+    });
+    try {
+        const entry = await new Promise<yauzl.Entry | undefined>((resolve, reject) => {
+            zip.on('entry', (candidate: yauzl.Entry) => candidate.fileName === entryName ? resolve(candidate) : zip.readEntry());
+            zip.on('end', () => resolve(undefined));
+            zip.on('error', reject);
+            zip.readEntry();
+        });
+        if (!entry) {
+            return undefined;
+        }
+
+        const stream = await new Promise<NodeJS.ReadableStream>((resolve, reject) => {
+            zip.openReadStream(entry, (error, readStream) => error ? reject(error) : resolve(readStream));
+        });
+        const chunks: Buffer[] = [];
+        for await (const chunk of stream) {
+            chunks.push(chunk as Buffer);
+        }
+        return Buffer.concat(chunks);
+    } finally {
+        zip.close();
+    }
+}
@@ -0,0 +1,440 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+import { MavenVersion } from './mavenVersion';
+
+/**
+ * Maven 仓库访问工具类
+ * 查询远程仓库（Maven Central、Atlassian）与本地 ~/.m2 仓库中的构件和版本
+ */
+export class MavenRepository {
+    private static localArtifactIndex: Promise<ArtifactInfo[]> | undefined;
+    /** 本次会话中从远程仓库查询到的版本列表（groupId:artifactId → 版本） */
+    private static fetchedVersions = new Map<string, RepositoryVersion[]>();
+
+    /**
+     * 获取本地仓库路径
+     * 优先读取 ~/.m2/settings.xml 中的 <localRepository>，否则使用 ~/.m2/repository
+     */
+    static getLocalRepositoryPath(): string {
+        const m2Dir = path.join(os.homedir(), '.m2');
+        try {
+            const settings = fs.readFileSync(path.join(m2Dir, 'settings.xml'), 'utf-8');
+            const match = settings.replace(/<!--[\s\S]*?-->/g, '').match(/<localRepository>\s*([^<]+?)\s*<\/localRepository>/);
+            if (match) {
+                return match[1].replace(/\$\{user\.home\}/g, os.homedir());
+            }
+        } catch {
+            // settings.xml 不存在，使用默认路径
+        }
+        return path.join(m2Dir, 'repository');
+    }
+
+    /**
+     * 在本地仓库中搜索构件
+     * @param query 关键字（匹配 groupId:artifactId）
+     * @param limit 最大返回数量
+     */
+    static async searchLocalArtifacts(query: string, limit: number = 50): Promise<ArtifactInfo[]> {
+        const artifacts = await this.getLocalArtifactIndex();
+        const keywords = query.toLowerCase().split(/[\s:]+/).filter(k => k.length > 0);
+        if (keywords.length === 0) {
+            return [];
+        }
+
+        const results: ArtifactInfo[] = [];
+        for (const artifact of artifacts) {
+            const text = `${artifact.groupId}:${artifact.artifactId}`.toLowerCase();
+            if (keywords.every(k => text.includes(k))) {
+                results.push(artifact);
+                if (results.length >= limit) {
+                    break;
+                }
+            }
+        }
+        return results;
+    }
+
+    /**
+     * 通过 Maven Central 搜索接口搜索构件
+     * @param query 关键字，或 groupId:artifactId
+     */
+    static async searchRemoteArtifacts(query: string): Promise<ArtifactInfo[]> {
+        const https = await import('https');
+        const coordinates = query.trim().split(':');
+        const q = coordinates.length === 2 && coordinates[0] && coordinates[1]
+            ? `g:"${coordinates[0]}" AND a:"${coordinates[1]}"`
+            : query.trim();
+        const requestPath = `/solrsearch/select?q=${encodeURIComponent(q)}&rows=20&wt=json`;
+
+        return new Promise((resolve, reject) => {
+            const request = https.request({
+                hostname: 'search.maven.org', path: requestPath, method: 'GET',
+                headers: { 'Accept': 'application/json' }
+            }, (res) => {
+                let data = '';
+                res.on('data', (chunk: Buffer) => { data += chunk.toString(); });
+                res.on('end', () => {
+                    if (res.statusCode !== 200) {
+                        reject(new Error(`Maven Central search HTTP ${res.statusCode}`));
+                        return;
+                    }
+                    try {
+                        const docs: any[] = JSON.parse(data).response?.docs ?? [];
+                        resolve(docs.map(doc => ({
+                            groupId: doc.g,
+                            artifactId: doc.a,
+                            latestVersion: doc.latestVersion,
+                            source: 'Maven Central'
+                        })));
+                    } catch (e: any) {
+                        reject(new Error(`Maven Central search: parse error: ${e.message}`));
+                    }
+                });
+                res.on('error', reject);
+            });
+            request.on('error', reject);
+            request.setTimeout(15000, () => { request.destroy(); reject(new Error('Maven Central search: Request timeout')); });
+            request.end();
+        });
+    }
+
+    /**
+     * 获取本地仓库构件索引（首次调用时扫描，之后复用）
+     */
+    static getLocalArtifactIndex(): Promise<ArtifactInfo[]> {
+        if (!this.localArtifactIndex) {
+            this.localArtifactIndex = this.scanLocalRepository().catch(error => {
+                console.warn('扫描本地仓库失败:', error);
+                this.localArtifactIndex = undefined;
+                return [];
+            });
+        }
+        return this.localArtifactIndex;
+    }
+
+    /**
+     * 清除本地仓库索引，下次访问时重新扫描
+     */
+    static resetLocalArtifactIndex(): void {
+        this.localArtifactIndex = undefined;
+    }
+
+    /**
+     * 扫描本地仓库目录结构：包含 .pom 文件的目录为版本目录，其父目录为构件目录
+     * 本地仓库可能很大，超过扫描时间或构件数量上限时停止，只使用已扫描到的构件
+     */
+    private static async scanLocalRepository(): Promise<ArtifactInfo[]> {
+        const repoRoot = this.getLocalRepositoryPath();
+        const artifacts: ArtifactInfo[] = [];
+        const deadline = Date.now() + LOCAL_SCAN_TIME_BUDGET_MS;
+
+        const walk = async (dir: string, depth: number): Promise<void> => {
+            if (depth > LOCAL_SCAN_MAX_DEPTH || artifacts.length >= LOCAL_SCAN_MAX_ARTIFACTS || Date.now() > deadline) {
+                return;
+            }
+            let entries: fs.Dirent[];
+            try {
+                entries = await fs.promises.readdir(dir, { withFileTypes: true });
+            } catch {
+                return;
+            }
+
+            const subDirs = entries.filter(e => e.isDirectory());
+            // 判断子目录是否为版本目录（包含 .pom 文件）
+            const versionDirs: string[] = [];
+            for (const sub of subDirs) {
+                if (!/^\d/.test(sub.name)) {
+                    continue;
+                }
+                try {
+                    const files = await fs.promises.readdir(path.join(dir, sub.name));
+                    if (files.some(f => f.endsWith('.pom'))) {
+                        versionDirs.push(sub.name);
+                    }
+                } catch {
+                    // 忽略无法读取的目录
+                }
+            }
+
+            if (versionDirs.length > 0) {
+                const relative = path.relative(repoRoot, dir).split(path.sep);
+                artifacts.push({
+                    groupId: relative.slice(0, -1).join('.'),
+                    artifactId: relative[relative.length - 1],
+                    latestVersion: MavenVersion.sortDescending(versionDirs)[0],
+                    source: 'Local'
+                });
+                return;
+            }
+
+            for (const sub of subDirs) {
+                await walk(path.join(dir, sub.name), depth + 1);
+            }
+        };
+
+        await walk(repoRoot, 0);
+        return artifacts;
+    }
+
+    /**
+     * 获取构件的版本列表，本次会话中查询过的直接返回，否则查询远程与本地仓库
+     */
+    static async getRepositoryVersions(groupId: string, artifactId: string): Promise<RepositoryVersion[]> {
+        return this.fetchedVersions.get(`${groupId}:${artifactId}`) ?? this.fetchAllRepoVersions(groupId, artifactId);
+    }
+
+    /**
+     * 获取已知的版本列表，不发起网络请求
+     * 优先使用本次会话中查询过的远程版本，否则读取本地仓库中已下载的版本
+     */
+    static async getKnownVersions(groupId: string, artifactId: string): Promise<KnownVersions> {
+        const fetched = this.fetchedVersions.get(`${groupId}:${artifactId}`);
+        if (fetched) {
+            return { versions: fetched.map(v => v.version), remote: true };
+        }
+        const local = await this.fetchFromLocalRepository(groupId, artifactId);
+        return { versions: local.map(v => v.version), remote: false };
+    }
+
+    /**
+     * 读取本地仓库中某个构件的所有版本
+     */
+    private static async fetchFromLocalRepository(groupId: string, artifactId: string): Promise<Array<{ version: string; timestamp: string; source: string; date: Date }>> {
+        const artifactDir = path.join(this.getLocalRepositoryPath(), ...groupId.split('.'), artifactId);
+        const versions: Array<{ version: string; timestamp: string; source: string; date: Date }> = [];
+        let entries: fs.Dirent[];
+        try {
+            entries = await fs.promises.readdir(artifactDir, { withFileTypes: true });
+        } catch {
+            return versions;
+        }
+
+        for (const entry of entries) {
+            if (!entry.isDirectory() || !this.isVersionDir(entry.name)) {
+                continue;
+            }
+            const pomFile = path.join(artifactDir, entry.name, `${artifactId}-${entry.name}.pom`);
+            try {
+                const stat = await fs.promises.stat(pomFile);
+                versions.push({
+                    version: entry.name,
+                    timestamp: stat.mtime.toISOString().replace('T', ' ').substring(0, 16),
+                    source: 'Local',
+                    date: stat.mtime
+                });
+            } catch {
+                // 没有 POM 文件的目录（如下载失败残留）跳过
+            }
+        }
+        return versions;
+    }
+
+    // source code generated by GenAI of Kiro starts
+    /**
+     * 从多个 Maven 仓库获取依赖版本列表
+     */
+    static async fetchAllRepoVersions(
+        groupId: string,
+        artifactId: string
+    ): Promise<Array<{
+        version: string; timestamp: string; source: string
+    }>> {
+        const groupPath = groupId.replace(/\./g, '/');
+        const repos = [
+            { name: 'Maven Central', hostname: 'repo1.maven.org', path: `/maven2/${groupPath}/${artifactId}/` },
+            { name: 'Atlassian', hostname: 'maven.artifacts.atlassian.com', path: `/${groupPath}/${artifactId}/` }
+        ];
+        const allResults = await Promise.allSettled([
+            ...repos.map(repo => this.fetchFromRepo(repo.hostname, repo.path, repo.name)),
+            this.fetchFromLocalRepository(groupId, artifactId) // source code generated by GenAI of Kiro
+        ]);
+        const versionMap = new Map<string, { version: string; timestamp: string; source: string; date: Date }>();
+        const atlassianNoDates: Array<{ version: string; groupPath: string; artifactId: string }> = [];
+        for (const result of allResults) {
+            if (result.status === 'fulfilled') {
+                for (const v of result.value) {
+                    if (!versionMap.has(v.version)) {
+                        versionMap.set(v.version, v);
+                        if (v.source === 'Atlassian' && v.date.getTime() === 0) {
+                            atlassianNoDates.push({ version: v.version, groupPath, artifactId });
+                        }
+                    } else {
+                        const existing = versionMap.get(v.version)!;
+                        if (!existing.source.includes(v.source)) {
+                            existing.source += `, ${v.source}`;
+                        }
+                    }
+                }
+            } else {
+                console.warn('Repo fetch failed:', result.reason?.message);
+            }
+        }
+        if (atlassianNoDates.length > 0) {
+            const toFetch = atlassianNoDates.slice(0, 30);
+            const dateResults = await Promise.allSettled(
+                toFetch.map(v => this.fetchAtlassianVersionDate(v.groupPath, v.artifactId, v.version))
+            );
+            for (let i = 0; i < dateResults.length; i++) {
+                const dr = dateResults[i];
+                if (dr.status === 'fulfilled' && dr.value) {
+                    const entry = versionMap.get(toFetch[i].version);
+                    if (entry) {
+                        entry.date = dr.value;
+                        entry.timestamp = dr.value.toISOString().replace('T', ' ').substring(0, 16);
+                    }
+                }
+            }
+        }
+        const merged = Array.from(versionMap.values());
+        merged.sort((a, b) => b.date.getTime() - a.date.getTime());
+        const versions = merged.map(({ version, timestamp, source }) => ({ version, timestamp, source }));
+        this.fetchedVersions.set(`${groupId}:${artifactId}`, versions);
+        return versions;
+    }
+
+    private static async fetchAtlassianVersionDate(groupPath: string, artifactId: string, version: string): Promise<Date | null> {
+        const https = await import('https');
+        const pomPath = `/${groupPath}/${artifactId}/${version}/${artifactId}-${version}.pom`;
+        return new Promise((resolve) => {
+            const req = https.request({
+                hostname: 'maven.artifacts.atlassian.com', path: pomPath, method: 'HEAD',
+                headers: { 'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/147.0.0.0 Safari/537.36' }
+            }, (res) => {
+                const lastMod = res.headers['last-modified'];
+                resolve(lastMod ? new Date(lastMod) : null);
+                res.resume();
+            });
+            req.on('error', () => resolve(null));
+            req.setTimeout(5000, () => { req.destroy(); resolve(null); });
+            req.end();
+        });
+    }
+
+    private static async fetchFromRepo(hostname: string, repoPath: string, repoName: string): Promise<Array<{ version: string; timestamp: string; source: string; date: Date }>> {
+        const https = await import('https');
+        const options = {
+            hostname, path: repoPath, method: 'GET',
+            headers: {
+                'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/147.0.0.0 Safari/537.36',
+                'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+                'Accept-Language': 'en-US,en;q=0.9'
+            }
+        };
+        return new Promise((resolve, reject) => {
+            const request = https.request(options, (res) => {
+                if ((res.statusCode === 301 || res.statusCode === 302) && res.headers.location) {
+                    // source code generated by GenAI of Kiro starts
+                    res.resume(); // Drain original response to free socket
+                    const redirectReq = https.get(res.headers.location, { headers: options.headers }, (rRes) => {
+                        this.handleRepoResponse(rRes, repoName, resolve, reject);
+                    });
+                    redirectReq.on('error', reject);
+                    redirectReq.setTimeout(15000, () => { redirectReq.destroy(); reject(new Error(`${repoName}: Redirect timeout`)); });
+                    // source code generated by GenAI of Kiro ends
+                    return;
+                }
+                this.handleRepoResponse(res, repoName, resolve, reject);
+            });
+            request.on('error', reject);
+            request.setTimeout(15000, () => { request.destroy(); reject(new Error(`${repoName}: Request timeout`)); });
+            request.end();
+        });
+    }
+
+    private static handleRepoResponse(res: any, repoName: string, resolve: (value: Array<{ version: string; timestamp: string; source: string; date: Date }>) => void, reject: (reason: Error) => void): void {
+        let data = '';
+        res.on('data', (chunk: Buffer) => { data += chunk.toString(); });
+        res.on('end', () => {
+            try {
+                if (res.statusCode === 404) { resolve([]); return; }
+                if (res.statusCode !== 200) { reject(new Error(`${repoName} HTTP ${res.statusCode}`)); return; }
+                resolve(this.parseRepoHtml(data, repoName));
+            } catch (e: any) { reject(new Error(`${repoName}: parse error: ${e.message}`)); }
+        });
+        res.on('error', (err: Error) => reject(err));
+    }
+
+    private static parseRepoHtml(html: string, repoName: string): Array<{ version: string; timestamp: string; source: string; date: Date }> {
+        const versions: Array<{ version: string; timestamp: string; source: string; date: Date }> = [];
+        const htmlRegex = /<a\s+href="([^"]+\/)"\s*[^>]*>[^<]+<\/a>\s+(\d{4}-\d{2}-\d{2}\s+\d{2}:\d{2})/g;
+        let match;
+        let foundHtmlDates = false;
+        while ((match = htmlRegex.exec(html)) !== null) {
+            const ver = match[1].replace(/\/$/, '');
+            const dateStr = match[2];
+            if (this.isVersionDir(ver)) {
+                foundHtmlDates = true;
+                versions.push({ version: ver, timestamp: dateStr, source: repoName, date: new Date(dateStr.replace(' ', 'T') + ':00Z') });
+            }
+        }
+        if (!foundHtmlDates) {
+            const linkRegex = /<a\s+href="([^"]+\/)"\s*[^>]*>[^<]+<\/a>/g;
+            while ((match = linkRegex.exec(html)) !== null) {
+                const ver = match[1].replace(/\/$/, '');
+                if (this.isVersionDir(ver)) {
+                    versions.push({ version: ver, timestamp: 'N/A', source: repoName, date: new Date(0) });
+                }
+            }
+            if (versions.length === 0) {
+                for (const line of html.split('\n')) {
+                    const textMatch = line.match(/^\s*([^\s<>]+\/)\s+/);
+                    if (textMatch) {
+                        const ver = textMatch[1].replace(/\/$/, '');
+                        if (this.isVersionDir(ver)) {
+                            versions.push({ version: ver, timestamp: 'N/A', source: repoName, date: new Date(0) });
+                        }
+                    }
+                }
+            }
+        }
+        versions.sort((a, b) => b.date.getTime() - a.date.getTime());
+        return versions;
+    }
+
+    private static isVersionDir(name: string): boolean {
+        if (!name || name === '..' || name === '.') { return false; }
+        if (name.includes('.xml') || name.includes('.md5') || name.includes('.sha') || name.includes('.asc') || name.includes('.index') || name === 'maven-metadata') { return false; }
+        return /^\d/.test(name);
+    }
+    // source code generated by GenAI of Kiro ends
+}
+
+/**
+ * 构件搜索结果
+ */
+export interface ArtifactInfo {
+    groupId: string;
+    artifactId: string;
+    latestVersion?: string;
+    source: string;
+}
+
+/**
+ * 仓库中的版本
+ */
+export interface RepositoryVersion {
+    version: string;
+    /** 发布（或下载到本地）的时间，格式为 yyyy-MM-dd HH:mm */
+    timestamp: string;
+    /** 所在的仓库，多个仓库以逗号分隔 */
+    source: string;
+}
+
+/**
+ * 已知的版本列表
+ */
+export interface KnownVersions {
+    versions: string[];
+    /** 是否来自远程仓库的查询结果（否则只是本地仓库中已下载的版本） */
+    remote: boolean;
+}
+
+/** 本地仓库的最大扫描深度（groupId 的段数加上 artifactId） */
+const LOCAL_SCAN_MAX_DEPTH = 12;
+
+/** 扫描本地仓库的时间上限 */
+const LOCAL_SCAN_TIME_BUDGET_MS = 5000;
+
+/** 本地仓库索引的最大构件数 */
+const LOCAL_SCAN_MAX_ARTIFACTS = 20000;
@@ -1,19 +1,49 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { MavenUtils } from './mavenUtils';
+import { CacheManager } from './cacheManager';
+import { MavenPlugins } from './mavenPlugins';
+import { MavenUtils, MultiModuleInfo } from './mavenUtils';
 import { t } from './i18n';
 
 /**
  * Maven Task Provider
  * Integrates with VS Code task system to provide common Maven commands
+ * 每个 pom.xml 的任务包括常用目标、mavenPomEditor.tasks.goals 中配置的目标，以及从 Effective POM 中发现的插件目标
  */
-export class MavenTaskProvider implements vscode.TaskProvider {
+export class MavenTaskProvider implements vscode.TaskProvider, vscode.Disposable {
     static readonly taskType = 'maven';
-    
+
     private tasks: vscode.Task[] | undefined;
+    private readonly disposables: vscode.Disposable[] = [];
+
+    constructor(
+        private readonly context: vscode.ExtensionContext,
+        private readonly cacheManager: CacheManager
+    ) {
+        // 任务将在 provideTasks 中动态生成；pom.xml 增删改、Effective POM 更新、激活的 profile 或配置改变后重新生成
+        const reset = () => this.tasks = undefined;
+        const watcher = vscode.workspace.createFileSystemWatcher('**/pom.xml');
+        this.disposables.push(
+            watcher,
+            watcher.onDidCreate(reset),
+            watcher.onDidChange(reset),
+            watcher.onDidDelete(reset),
+            cacheManager.onDidChangeProfiles(reset),
+            cacheManager.onDidChange(event => {
+                if (event.cacheKey === 'effectivePom') {
+                    reset();
+                }
+            }),
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (['mavenPomEditor.mavenPath', 'mavenPomEditor.maven', 'mavenPomEditor.tasks'].some(section => event.affectsConfiguration(section))) {
+                    reset();
+                }
+            })
+        );
+    }
 
-    constructor() {
-        // 任务将在 provideTasks 中动态生成
+    dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
     }
 
     /**
@@ -45,14 +75,10 @@ export class MavenTaskProvider implements vscode.TaskProvider {
             return this.tasks;
         }
 
-        this.tasks = [];
-        
+        const tasks: vscode.Task[] = [];
+
         // 查找工作区中的 POM 文件
-        const pomFiles = await vscode.workspace.findFiles('**/pom.xml', '**/node_modules/**');
-        
-        if (pomFiles.length === 0) {
-            return this.tasks;
-        }
+        const pomFiles = await vscode.workspace.findFiles('**/pom.xml', '**/{node_modules,target}/**');
 
         // 为每个 POM 文件创建任务
         for (const pomFile of pomFiles) {
@@ -61,42 +87,149 @@ export class MavenTaskProvider implements vscode.TaskProvider {
                 continue;
             }
 
-            // Common Maven goals
-            const goals = [
-                { name: 'clean', description: t('task.clean') },
-                { name: 'compile', description: t('task.compile') },
-                { name: 'test', description: t('task.test') },
-                { name: 'package', description: t('task.package') },
-                { name: 'install', description: t('task.install') },
-                { name: 'verify', description: t('task.verify') },
-                { name: 'clean install', description: t('task.cleanInstall') },
-                { name: 'clean package', description: t('task.cleanPackage') },
-                { name: 'dependency:tree', description: t('task.dependencyTree') },
-                { name: 'dependency:list', description: t('task.dependencyList') }
-            ];
-
-            for (const goal of goals) {
+            // 同一 POM 的所有任务共用多模块信息，避免为每个目标重复查找根 POM
+            const multiModuleInfo = MavenUtils.getMultiModuleInfo(pomFile.fsPath);
+            for (const goal of await this.getGoals(pomFile.fsPath)) {
                 const task = this.createTask(goal.name, {
                     type: MavenTaskProvider.taskType,
                     goal: goal.name,
                     pomFile: pomFile.fsPath,
                     description: goal.description
-                }, workspaceFolder);
-                
-                this.tasks.push(task);
+                }, workspaceFolder, multiModuleInfo);
+
+                tasks.push(task);
             }
         }
 
-        return this.tasks;
+        this.tasks = tasks;
+        return tasks;
+    }
+
+    /**
+     * POM 可运行的目标：常用目标、配置的目标与插件目标，重复的目标只保留第一个
+     */
+    private async getGoals(pomFile: string): Promise<MavenGoal[]> {
+        const configured = vscode.workspace.getConfiguration('mavenPomEditor.tasks', vscode.Uri.file(pomFile))
+            .get<Array<string | { goal: string; description?: string }>>('goals', [])
+            .map((item): MavenGoal => typeof item === 'string'
+                ? { name: item.trim(), description: '', source: 'configured' }
+                : { name: item.goal?.trim() ?? '', description: item.description ?? '', source: 'configured' });
+
+        let pluginGoals: MavenGoal[] = [];
+        try {
+            // 只使用缓存的 Effective POM，列出任务时不运行 Maven
+            const effectivePom: string | null = await this.cacheManager.get(pomFile, 'effectivePom');
+            pluginGoals = (await MavenPlugins.getPluginGoals(pomFile, effectivePom ?? undefined))
+                .map(goal => ({ name: goal.goal, description: goal.artifactId, source: 'plugin' }));
+        } catch (error) {
+            console.warn(`查找插件目标失败: ${pomFile}`, error);
+        }
+
+        const goals = new Map<string, MavenGoal>();
+        for (const goal of [...MavenTaskProvider.getCommonGoals(), ...configured, ...pluginGoals]) {
+            if (goal.name && !goals.has(goal.name)) {
+                goals.set(goal.name, goal);
+            }
+        }
+        return [...goals.values()];
+    }
+
+    /**
+     * 常用的 Maven 目标
+     */
+    static getCommonGoals(): MavenGoal[] {
+        return [
+            { name: 'clean', description: t('task.clean'), source: 'common' },
+            { name: 'compile', description: t('task.compile'), source: 'common' },
+            { name: 'test', description: t('task.test'), source: 'common' },
+            { name: 'package', description: t('task.package'), source: 'common' },
+            { name: 'install', description: t('task.install'), source: 'common' },
+            { name: 'verify', description: t('task.verify'), source: 'common' },
+            { name: 'clean install', description: t('task.cleanInstall'), source: 'common' },
+            { name: 'clean package', description: t('task.cleanPackage'), source: 'common' },
+            { name: 'dependency:tree', description: t('task.dependencyTree'), source: 'common' },
+            { name: 'dependency:list', description: t('task.dependencyList'), source: 'common' }
+        ];
+    }
+
+    /**
+     * 选择目标并以 Maven 任务运行，多模块项目中通过 -pl 只构建该模块
+     * @param moduleName 显示在提示中的模块名称
+     */
+    async runGoal(pomFile: string, moduleName: string): Promise<void> {
+        const goal = await this.pickGoal(pomFile, moduleName);
+        if (goal) {
+            await vscode.tasks.executeTask(this.createGoalTask(goal, pomFile));
+        }
+    }
+
+    /**
+     * 选择要运行的 Maven 目标：最近使用的目标、该 POM 可运行的目标，或直接输入目标与参数
+     */
+    private async pickGoal(pomFile: string, moduleName: string): Promise<string | undefined> {
+        const history = this.context.workspaceState.get<string[]>(GOAL_HISTORY_KEY, []);
+        const goals = await this.getGoals(pomFile);
+        const sections: Array<[string, GoalPickItem[]]> = [
+            [t('task.recentGoals'), history.map(goal => ({ label: goal, goal }))],
+            ...(['common', 'configured', 'plugin'] as const).map((source): [string, GoalPickItem[]] => [
+                t(`task.${source}Goals`),
+                goals
+                    .filter(goal => goal.source === source)
+                    .map(goal => ({ label: goal.name, description: goal.description, goal: goal.name }))
+            ])
+        ];
+        const items = sections
+            .filter(([, sectionItems]) => sectionItems.length > 0)
+            .flatMap(([label, sectionItems]): GoalPickItem[] => [{ label, kind: vscode.QuickPickItemKind.Separator }, ...sectionItems]);
+
+        const quickPick = vscode.window.createQuickPick<GoalPickItem>();
+        quickPick.placeholder = t('task.selectGoal', moduleName);
+        quickPick.items = items;
+        // 输入的内容不是已有的目标时，作为目标与参数运行
+        quickPick.onDidChangeValue(value => {
+            const typed = value.trim();
+            quickPick.items = typed && !items.some(item => item.goal === typed)
+                ? [{ label: typed, description: t('task.runTypedGoal'), goal: typed, alwaysShow: true }, ...items]
+                : items;
+        });
+        const goal = await new Promise<string | undefined>(resolve => {
+            quickPick.onDidAccept(() => {
+                resolve(quickPick.selectedItems[0]?.goal);
+                quickPick.hide();
+            });
+            quickPick.onDidHide(() => resolve(undefined));
+            quickPick.show();
+        });
+        quickPick.dispose();
+
+        if (goal) {
+            const updated = [goal, ...history.filter(item => item !== goal)].slice(0, GOAL_HISTORY_SIZE);
+            await this.context.workspaceState.update(GOAL_HISTORY_KEY, updated);
+        }
+        return goal;
+    }
+
+    /**
+     * 为指定 POM 创建运行 Maven 目标的任务
+     * @param goal 目标与参数，如 "clean install -DskipTests"
+     */
+    public createGoalTask(goal: string, pomFile: string): vscode.Task {
+        return this.createTask(goal, {
+            type: MavenTaskProvider.taskType,
+            goal,
+            pomFile
+        }, vscode.workspace.getWorkspaceFolder(vscode.Uri.file(pomFile)));
     }
 
     /**
      * 创建 Maven 任务
+     * @param multiModuleInfo 已查找的多模块信息，未提供时按 POM 查找
      */
     private createTask(
         goal: string, 
         definition: MavenTaskDefinition,
-        workspaceFolder?: vscode.WorkspaceFolder
+        workspaceFolder?: vscode.WorkspaceFolder,
+        multiModuleInfo?: MultiModuleInfo | null
     ): vscode.Task {
         const scope = workspaceFolder || vscode.TaskScope.Workspace;
         
@@ -105,27 +238,38 @@ export class MavenTaskProvider implements vscode.TaskProvider {
             ? `Maven: ${goal} (${path.basename(path.dirname(definition.pomFile))})`
             : `Maven: ${goal}`;
 
-        // 构建 Maven 命令
-        const args = [goal];
+        // 构建 Maven 命令，目标可以包含多个阶段与参数，逐个作为命令行参数传递
+        const args: (string | vscode.ShellQuotedString)[] = goal.split(/\s+/).filter(arg => arg.length > 0);
+        // 路径、profile 与配置的参数可能含有 shell 的特殊字符，按任务所用 shell 的规则加强引号
+        const quote = (values: string[]) => values.map(value => ({ value, quoting: vscode.ShellQuoting.Strong }));
         let cwd: string | undefined;
+        let env: Record<string, string> | undefined;
 
         if (definition.pomFile) {
-            // 检测多模块项目
-            const multiModuleInfo = MavenUtils.getMultiModuleInfo(definition.pomFile);
-            if (multiModuleInfo) {
-                args.push('-pl', `:${multiModuleInfo.moduleName}`, '-am');
-                cwd = multiModuleInfo.root;
+            // 检测多模块项目，并激活在 POM 视图中选择的 profile
+            const profiles = this.cacheManager.getActiveProfiles(definition.pomFile);
+            const moduleInfo = multiModuleInfo !== undefined ? multiModuleInfo : MavenUtils.getMultiModuleInfo(definition.pomFile);
+            if (moduleInfo) {
+                args.push(...quote(MavenUtils.getModuleSelectorArgs(moduleInfo, profiles)), '-am');
+                cwd = moduleInfo.root;
             } else {
-                args.push('-f', definition.pomFile);
+                args.push('-f', ...quote([definition.pomFile, ...MavenUtils.getProfileArgs(profiles)]));
                 cwd = path.dirname(definition.pomFile);
             }
+            args.push(...quote(MavenUtils.getConfiguredArgs(definition.pomFile)));
+            env = MavenUtils.getConfiguredEnv(definition.pomFile);
+        }
+
+        // $maven-test 按堆栈中的测试类定位，只保留测试类中的堆栈帧，Surefire 3 默认输出完整堆栈
+        if (MavenTaskProvider.runsTests(goal) && !args.some(arg => /trimStackTrace=/.test(typeof arg === 'string' ? arg : arg.value))) {
+            args.push('-Dsurefire.trimStackTrace=true', '-Dfailsafe.trimStackTrace=true');
         }
 
         // 创建 Shell 执行配置
         // source code generated by GenAI of Kiro starts
         const pomForMaven = definition.pomFile || '';
         const mavenCmd = MavenUtils.getMvnCommand(pomForMaven);
-        const execution = new vscode.ShellExecution(mavenCmd, args, { cwd });
+        const execution = new vscode.ShellExecution(mavenCmd, args, { cwd, env });
         // source code generated by GenAI of Kiro ends
 
         // 创建任务
@@ -135,7 +279,8 @@ export class MavenTaskProvider implements vscode.TaskProvider {
             taskName,
             MavenTaskProvider.taskType,
             execution,
-            ['$maven']  // 使用 Maven 问题匹配器
+            // 编译错误与警告、测试失败，定义见 package.json 的 problemMatchers
+            ['$maven', '$maven-test']
         );
 
         // 设置任务属性
@@ -149,6 +294,13 @@ export class MavenTaskProvider implements vscode.TaskProvider {
         return task;
     }
 
+    /**
+     * 目标是否运行测试：test 阶段及其之后的阶段，以及 surefire:test、failsafe:integration-test
+     */
+    static runsTests(goal: string): boolean {
+        return TEST_PHASE_PATTERN.test(goal);
+    }
+
     /**
      * 根据 Maven 目标确定任务组
      */
@@ -164,6 +316,27 @@ export class MavenTaskProvider implements vscode.TaskProvider {
     }
 }
 
+/**
+ * 可运行的 Maven 目标
+ */
+export interface MavenGoal {
+    /** 目标与参数，如 "clean install -DskipTests" */
+    name: string;
+    description: string;
+    source: 'common' | 'configured' | 'plugin';
+}
+
+interface GoalPickItem extends vscode.QuickPickItem {
+    /** 分隔线没有目标 */
+    goal?: string;
+}
+
+/** 最近运行的目标，保存在工作区状态中 */
+const GOAL_HISTORY_KEY = 'maven-goal-history';
+const GOAL_HISTORY_SIZE = 10;
+
+const TEST_PHASE_PATTERN = /(^|\s)(\S+:)?(test|integration-test|verify|package|install|deploy)(\s|$)/;
+
 /**
  * Maven 任务定义接口
  */
@@ -0,0 +1,544 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { MavenTaskProvider } from './mavenTaskProvider';
+import { PomDocument } from './pomDocument';
+import { PomHierarchy } from './pomHierarchy';
+import { t } from './i18n';
+
+/**
+ * Maven 测试结果
+ * Maven 任务运行测试后读取各模块 target/surefire-reports 与 target/failsafe-reports 中的 XML 报告，
+ * 在测试视图中按 模块 → 测试类 → 测试方法 显示结果；从测试视图重新运行时以 -Dtest / -Dit.test 创建 Maven 任务
+ */
+export class MavenTestController implements vscode.Disposable {
+    static readonly controllerId = 'mavenPomEditor.tests';
+
+    private readonly controller: vscode.TestController;
+    private readonly data = new WeakMap<vscode.TestItem, TestItemData>();
+    /** 运行中的 Maven 任务 → 开始时间 */
+    private readonly taskStarts = new Map<vscode.TaskExecution, number>();
+    /** 由测试视图启动的任务，结果在启动它的测试运行中报告 */
+    private readonly ownExecutions = new Set<vscode.TaskExecution>();
+    private readonly disposables: vscode.Disposable[] = [];
+
+    constructor(private readonly taskProvider: MavenTaskProvider) {
+        this.controller = vscode.tests.createTestController(MavenTestController.controllerId, 'Maven');
+        this.controller.refreshHandler = async () => {
+            this.controller.items.replace([]);
+            await this.loadReports(0);
+        };
+        this.controller.createRunProfile(
+            t('test.runWithMaven'),
+            vscode.TestRunProfileKind.Run,
+            (request, token) => this.runTests(request, token),
+            true
+        );
+
+        this.disposables.push(
+            this.controller,
+            vscode.tasks.onDidStartTaskProcess(event => {
+                if (event.execution.task.definition.type === MavenTaskProvider.taskType) {
+                    this.taskStarts.set(event.execution, Date.now());
+                }
+            }),
+            vscode.tasks.onDidEndTaskProcess(event => this.onTaskEnded(event.execution))
+        );
+
+        // 显示上次构建留下的报告（不包含结果）
+        this.loadReports(0).catch(error => console.warn('读取测试报告失败', error));
+    }
+
+    dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+
+    /**
+     * 运行测试的 Maven 任务结束后，把本次更新的报告作为一次测试运行报告结果
+     */
+    private async onTaskEnded(execution: vscode.TaskExecution): Promise<void> {
+        const start = this.taskStarts.get(execution);
+        this.taskStarts.delete(execution);
+        if (start === undefined || this.ownExecutions.has(execution)) {
+            return;
+        }
+        const goal: string = execution.task.definition.goal ?? '';
+        if (!MavenTaskProvider.runsTests(goal)) {
+            return;
+        }
+
+        try {
+            // 没有 -Dtest / -Dit.test 过滤时运行了整个测试类
+            const filtered = TEST_FILTER_PATTERN.test(goal);
+            const suites = await this.loadReports(start, () => !filtered);
+            if (suites.length > 0) {
+                const run = this.controller.createTestRun(new vscode.TestRunRequest(), execution.task.name, false);
+                suites.forEach(suite => this.reportSuite(run, suite));
+                run.end();
+            }
+        } catch (error) {
+            console.warn('读取测试报告失败', error);
+        }
+    }
+
+    /**
+     * 从测试视图运行：每个模块创建一个 Maven 任务，多模块项目由任务使用模块的 -pl 选择器从根目录构建
+     */
+    private async runTests(request: vscode.TestRunRequest, token: vscode.CancellationToken): Promise<void> {
+        const run = this.controller.createTestRun(request);
+        try {
+            await this.runModules(run, request, token);
+        } finally {
+            run.end();
+        }
+    }
+
+    private async runModules(run: vscode.TestRun, request: vscode.TestRunRequest, token: vscode.CancellationToken): Promise<void> {
+        const excluded = new Set(request.exclude ?? []);
+        const selected: vscode.TestItem[] = [];
+        (request.include ?? [...this.getChildren(this.controller.items)])
+            .forEach(item => this.collectSelected(item, excluded, selected));
+
+        // 按模块分组
+        const modules = new Map<string, vscode.TestItem[]>();
+        for (const item of selected) {
+            const pomPath = this.data.get(item)!.pomPath;
+            modules.set(pomPath, [...modules.get(pomPath) ?? [], item]);
+        }
+
+        for (const [pomPath, items] of modules) {
+            if (token.isCancellationRequested) {
+                break;
+            }
+            const leaves = items.flatMap(item => this.getLeaves(item));
+            leaves.forEach(leaf => run.started(leaf));
+
+            const task = this.taskProvider.createGoalTask(this.getTestGoal(items), pomPath);
+            const start = Date.now();
+            const { execution, exitCode } = await this.executeTask(task, token);
+            if (execution) {
+                this.ownExecutions.delete(execution);
+            }
+
+            const wholeClasses = (className: string) => items.some(item => {
+                const data = this.data.get(item)!;
+                return data.kind === 'module' || (data.kind === 'class' && data.className === className);
+            });
+            const reported = new Set<vscode.TestItem>();
+            const suites = await this.loadReports(start, (suite, className) => suite.pomPath === pomPath && wholeClasses(className));
+            // -am 构建的上游模块的测试不属于本次运行
+            for (const suite of suites.filter(item => item.pomPath === pomPath)) {
+                this.reportSuite(run, suite).forEach(item => reported.add(item));
+            }
+            for (const leaf of leaves.filter(item => !reported.has(item))) {
+                if (token.isCancellationRequested) {
+                    run.skipped(leaf);
+                } else if (exitCode) {
+                    run.errored(leaf, new vscode.TestMessage(t('test.buildFailed', exitCode)));
+                } else {
+                    run.errored(leaf, new vscode.TestMessage(t('test.noResult')));
+                }
+            }
+        }
+    }
+
+    /**
+     * 运行任务并等待结束，取消时终止任务；没有启动进程的任务只有 onDidEndTask 事件
+     */
+    private async executeTask(task: vscode.Task, token: vscode.CancellationToken): Promise<TaskResult> {
+        let execution: vscode.TaskExecution | undefined;
+        const listeners: vscode.Disposable[] = [];
+        const ended = new Promise<TaskResult>(resolve => listeners.push(
+            vscode.tasks.onDidEndTaskProcess(event => {
+                if (event.execution === execution) {
+                    resolve({ execution, exitCode: event.exitCode });
+                }
+            }),
+            vscode.tasks.onDidEndTask(event => {
+                if (event.execution === execution) {
+                    resolve({ execution });
+                }
+            }),
+            token.onCancellationRequested(() => execution?.terminate())
+        ));
+        try {
+            execution = await vscode.tasks.executeTask(task);
+            this.ownExecutions.add(execution);
+            return await ended;
+        } finally {
+            listeners.forEach(listener => listener.dispose());
+        }
+    }
+
+    /**
+     * 选中项目对应的 Maven 命令：选中整个模块时运行全部测试，否则用 -Dtest（Surefire）与 -Dit.test（Failsafe）过滤
+     */
+    private getTestGoal(items: vscode.TestItem[]): string {
+        const unitTests = new Map<string, Set<string> | null>();
+        const integrationTests = new Map<string, Set<string> | null>();
+        let wholeModule = false;
+        let integration = false;
+
+        for (const item of items) {
+            const data = this.data.get(item)!;
+            if (data.kind === 'module') {
+                wholeModule = true;
+                integration = integration || [...this.getChildren(item.children)].some(child => {
+                    const childData = this.data.get(child);
+                    return childData?.kind === 'class' && childData.report === 'failsafe';
+                });
+                continue;
+            }
+            integration = integration || data.report === 'failsafe';
+            const filters = data.report === 'failsafe' ? integrationTests : unitTests;
+            // 嵌套类（Outer$Inner）与不是合法方法名的测试（如 @DisplayName）运行整个顶层类
+            const className = data.className.split('$')[0];
+            if (data.kind === 'class' || className !== data.className || !/^[\w$]+$/.test(data.methodName)) {
+                filters.set(className, null);
+            } else if (filters.get(className) !== null) {
+                filters.set(className, new Set([...filters.get(className) ?? [], data.methodName]));
+            }
+        }
+
+        const args = [integration ? 'verify' : 'test'];
+        if (!wholeModule) {
+            // -am 构建的上游模块中没有匹配的测试，不能因此失败
+            const toFilter = (filters: Map<string, Set<string> | null>) => [...filters]
+                .map(([className, methods]) => methods ? `${className}#${[...methods].join('+')}` : className)
+                .join(',');
+            if (unitTests.size > 0) {
+                args.push(`-Dtest=${toFilter(unitTests)}`, '-Dsurefire.failIfNoSpecifiedTests=false');
+            }
+            if (integrationTests.size > 0) {
+                args.push(`-Dit.test=${toFilter(integrationTests)}`, '-Dfailsafe.failIfNoSpecifiedTests=false');
+                if (unitTests.size === 0) {
+                    // 只运行选中的集成测试，不运行模块及其上游模块的单元测试
+                    args.push(`-Dtest=${NO_UNIT_TESTS}`, '-Dsurefire.failIfNoSpecifiedTests=false');
+                }
+            }
+        }
+        return args.join(' ');
+    }
+
+    /**
+     * 读取工作区中修改时间不早于 since 的测试报告，并更新测试项
+     * @param wholeClass 报告中的测试类是否整个运行过，是则删除报告中没有的方法
+     */
+    private async loadReports(
+        since: number,
+        wholeClass: (suite: TestSuiteReport, className: string) => boolean = () => false
+    ): Promise<TestSuiteReport[]> {
+        const files = await vscode.workspace.findFiles(REPORT_GLOB, '**/node_modules/**');
+        const suites: TestSuiteReport[] = [];
+        for (const file of files) {
+            try {
+                if (fs.statSync(file.fsPath).mtimeMs < since) {
+                    continue;
+                }
+                const suite = this.parseReport(file.fsPath);
+                if (suite) {
+                    this.updateItems(suite, className => wholeClass(suite, className));
+                    suites.push(suite);
+                }
+            } catch (error) {
+                console.warn(`读取测试报告失败: ${file.fsPath}`, error);
+            }
+        }
+        return suites;
+    }
+
+    /**
+     * 解析一个报告文件（TEST-<类名>.xml），报告位于 <模块>/target/surefire-reports 或 failsafe-reports 中
+     */
+    private parseReport(reportPath: string): TestSuiteReport | undefined {
+        const reportsDir = path.dirname(reportPath);
+        const moduleDir = path.dirname(path.dirname(reportsDir));
+        const pomPath = path.join(moduleDir, 'pom.xml');
+        if (!fs.existsSync(pomPath)) {
+            return undefined;
+        }
+
+        const document = PomDocument.parse(fs.readFileSync(reportPath, 'utf-8'));
+        const suite = document.roots.flatMap(root => root.name === 'testsuite' ? [root] : PomDocument.childElements(root, 'testsuite'))[0];
+        if (!suite) {
+            return undefined;
+        }
+
+        const cases = PomDocument.childElements(suite, 'testcase').map((element): TestCaseReport => {
+            const outcome = element.children.find(child => OUTCOME_ELEMENTS.includes(child.name));
+            return {
+                className: element.attributes.classname || suite.attributes.name || '',
+                name: element.attributes.name ?? '',
+                duration: parseDuration(element.attributes.time),
+                outcome: outcome?.name === 'failure' ? 'failed' : outcome?.name === 'error' ? 'errored' : outcome?.name === 'skipped' ? 'skipped' : 'passed',
+                message: outcome?.attributes.message,
+                type: outcome?.attributes.type,
+                stackTrace: outcome?.text
+            };
+        });
+        return {
+            pomPath,
+            report: path.basename(reportsDir) === 'failsafe-reports' ? 'failsafe' : 'surefire',
+            cases
+        };
+    }
+
+    /**
+     * 按报告创建或更新模块、测试类与测试方法
+     * 只运行部分方法（-Dtest=Cls#m）时报告中只有这些方法，因此只有整个测试类运行过时才删除报告中没有的方法
+     */
+    private updateItems(suite: TestSuiteReport, wholeClass: (className: string) => boolean): void {
+        const moduleItem = this.getOrCreateItem(this.controller.items, suite.pomPath, () => {
+            const label = PomHierarchy.loadPom(suite.pomPath).pom.artifactId ?? path.basename(path.dirname(suite.pomPath));
+            return { label, uri: vscode.Uri.file(suite.pomPath), data: { kind: 'module', pomPath: suite.pomPath } };
+        });
+
+        const classNames = [...new Set(suite.cases.map(testCase => testCase.className))];
+        for (const className of classNames) {
+            const source = this.findSource(path.dirname(suite.pomPath), className);
+            const classItem = this.getOrCreateItem(moduleItem.children, `${suite.pomPath}#${className}`, () => ({
+                label: className.substring(className.lastIndexOf('.') + 1),
+                uri: source?.uri,
+                data: { kind: 'class', pomPath: suite.pomPath, className, report: suite.report }
+            }));
+            classItem.description = className.includes('.') ? className.substring(0, className.lastIndexOf('.')) : undefined;
+            this.setLocation(classItem, source, findDeclaration(source?.lines, className));
+
+            const methods = new Map<string, vscode.TestItem>();
+            for (const testCase of suite.cases.filter(item => item.className === className)) {
+                const methodName = getMethodName(testCase.name);
+                if (methods.has(methodName)) {
+                    continue;
+                }
+                const id = `${classItem.id}#${methodName}`;
+                const methodItem = classItem.children.get(id) ?? this.createItem(id, methodName, {
+                    kind: 'method', pomPath: suite.pomPath, className, report: suite.report, methodName
+                }, source?.uri);
+                this.setLocation(methodItem, source, findMethod(source?.lines, methodName));
+                methods.set(methodName, methodItem);
+            }
+            if (wholeClass(className)) {
+                classItem.children.replace([...methods.values()]);
+            } else {
+                methods.forEach(methodItem => classItem.children.add(methodItem));
+            }
+        }
+    }
+
+    /**
+     * 报告一个测试套件的结果，同一方法的多次调用（参数化测试）合并为一个结果
+     * @returns 报告了结果的测试项
+     */
+    private reportSuite(run: vscode.TestRun, suite: TestSuiteReport): vscode.TestItem[] {
+        const results = new Map<vscode.TestItem, TestCaseReport[]>();
+        for (const testCase of suite.cases) {
+            const item = this.controller.items.get(suite.pomPath)
+                ?.children.get(`${suite.pomPath}#${testCase.className}`)
+                ?.children.get(`${suite.pomPath}#${testCase.className}#${getMethodName(testCase.name)}`);
+            if (item) {
+                results.set(item, [...results.get(item) ?? [], testCase]);
+            }
+        }
+
+        for (const [item, cases] of results) {
+            const duration = cases.reduce((total, testCase) => total + (testCase.duration ?? 0), 0);
+            const failures = cases.filter(testCase => testCase.outcome === 'failed' || testCase.outcome === 'errored');
+            if (failures.length > 0) {
+                const messages = failures.map(testCase => this.createMessage(item, testCase, cases.length > 1));
+                if (failures.some(testCase => testCase.outcome === 'failed')) {
+                    run.failed(item, messages, duration);
+                } else {
+                    run.errored(item, messages, duration);
+                }
+            } else if (cases.every(testCase => testCase.outcome === 'skipped')) {
+                run.skipped(item);
+            } else {
+                run.passed(item, duration);
+            }
+        }
+        return [...results.keys()];
+    }
+
+    /**
+     * 失败信息：内容为堆栈，位置为堆栈中该测试类的第一帧
+     */
+    private createMessage(item: vscode.TestItem, testCase: TestCaseReport, includeName: boolean): vscode.TestMessage {
+        const text = testCase.stackTrace || [testCase.type, testCase.message].filter(Boolean).join(': ');
+        const message = new vscode.TestMessage(includeName ? `${testCase.name}\n${text}` : text);
+
+        const frame = new RegExp(`^\\s*at\\s+(?:\\S*/)?${escapeRegExp(testCase.className)}\\.[^(]+\\([^:)]+:(\\d+)\\)`, 'm').exec(text);
+        if (item.uri && frame) {
+            message.location = new vscode.Location(item.uri, new vscode.Position(parseInt(frame[1], 10) - 1, 0));
+        } else if (item.uri && item.range) {
+            message.location = new vscode.Location(item.uri, item.range);
+        }
+        return message;
+    }
+
+    /**
+     * 在模块的 src/<源码集>/<语言> 目录中查找测试类的源文件，嵌套类使用顶层类的文件
+     */
+    private findSource(moduleDir: string, className: string): SourceFile | undefined {
+        const relativePath = className.split('$')[0].replace(/\./g, path.sep);
+        const srcDir = path.join(moduleDir, 'src');
+        const sourceSets = fs.existsSync(srcDir)
+            ? fs.readdirSync(srcDir, { withFileTypes: true }).filter(entry => entry.isDirectory()).map(entry => entry.name)
+            : [];
+        // 测试源码集优先
+        sourceSets.sort((a, b) => Number(b.startsWith('test')) - Number(a.startsWith('test')));
+
+        for (const sourceSet of sourceSets) {
+            for (const language of SOURCE_LANGUAGES) {
+                for (const extension of language.extensions) {
+                    const file = path.join(srcDir, sourceSet, language.directory, relativePath + extension);
+                    if (fs.existsSync(file)) {
+                        return { uri: vscode.Uri.file(file), lines: fs.readFileSync(file, 'utf-8').split(/\r?\n/) };
+                    }
+                }
+            }
+        }
+        return undefined;
+    }
+
+    private setLocation(item: vscode.TestItem, source: SourceFile | undefined, line: number | undefined): void {
+        // TestItem 的 uri 只能在创建时指定
+        if (!source || item.uri?.toString() !== source.uri.toString()) {
+            return;
+        }
+        item.range = line === undefined ? undefined : new vscode.Range(line, 0, line, source.lines[line].length);
+    }
+
+    private getOrCreateItem(
+        collection: vscode.TestItemCollection,
+        id: string,
+        create: () => { label: string; uri?: vscode.Uri; data: TestItemData }
+    ): vscode.TestItem {
+        let item = collection.get(id);
+        if (!item) {
+            const { label, uri, data } = create();
+            item = this.createItem(id, label, data, uri);
+            collection.add(item);
+        }
+        return item;
+    }
+
+    private createItem(id: string, label: string, data: TestItemData, uri?: vscode.Uri): vscode.TestItem {
+        const item = this.controller.createTestItem(id, label, uri);
+        this.data.set(item, data);
+        return item;
+    }
+
+    /**
+     * 选中的测试项，跳过排除的项目；选中的项目包含其中的全部测试
+     */
+    private collectSelected(item: vscode.TestItem, excluded: Set<vscode.TestItem>, selected: vscode.TestItem[]): void {
+        if (excluded.has(item)) {
+            return;
+        }
+        const children = [...this.getChildren(item.children)];
+        if (children.some(child => excluded.has(child))) {
+            children.forEach(child => this.collectSelected(child, excluded, selected));
+        } else {
+            selected.push(item);
+        }
+    }
+
+    private getLeaves(item: vscode.TestItem): vscode.TestItem[] {
+        const children = [...this.getChildren(item.children)];
+        return children.length === 0 ? [item] : children.flatMap(child => this.getLeaves(child));
+    }
+
+    private *getChildren(collection: vscode.TestItemCollection): Iterable<vscode.TestItem> {
+        for (const [, item] of collection) {
+            yield item;
+        }
+    }
+}
+
+type TestItemData =
+    | { kind: 'module'; pomPath: string }
+    | { kind: 'class'; pomPath: string; className: string; report: ReportKind }
+    | { kind: 'method'; pomPath: string; className: string; report: ReportKind; methodName: string };
+
+type ReportKind = 'surefire' | 'failsafe';
+
+interface TestSuiteReport {
+    pomPath: string;
+    report: ReportKind;
+    cases: TestCaseReport[];
+}
+
+interface TestCaseReport {
+    className: string;
+    /** 报告中的名称，参数化测试带有参数，如 adds(int)[1] */
+    name: string;
+    /** 毫秒 */
+    duration?: number;
+    outcome: 'passed' | 'failed' | 'errored' | 'skipped';
+    message?: string;
+    type?: string;
+    stackTrace?: string;
+}
+
+interface TaskResult {
+    execution?: vscode.TaskExecution;
+    /** 任务被终止或没有启动进程时为 undefined */
+    exitCode?: number;
+}
+
+interface SourceFile {
+    uri: vscode.Uri;
+    lines: string[];
+}
+
+/** 运行时指定了 Surefire / Failsafe 测试过滤 */
+const TEST_FILTER_PATTERN = /(^|\s)-D(it\.)?test=/;
+
+/** 不匹配任何测试类的 Surefire 过滤，只运行集成测试时使用 */
+const NO_UNIT_TESTS = 'none';
+
+const REPORT_GLOB = '**/target/{surefire,failsafe}-reports/TEST-*.xml';
+
+/** testcase 中表示结果的元素；flakyFailure、rerunFailure 等重试信息不改变结果 */
+const OUTCOME_ELEMENTS = ['failure', 'error', 'skipped'];
+
+const SOURCE_LANGUAGES = [
+    { directory: 'java', extensions: ['.java'] },
+    { directory: 'kotlin', extensions: ['.kt'] },
+    { directory: 'groovy', extensions: ['.groovy'] },
+    { directory: 'scala', extensions: ['.scala'] },
+    // Kotlin 与 Groovy 源文件也可以放在 java 目录中
+    { directory: 'java', extensions: ['.kt', '.groovy'] }
+];
+
+/**
+ * 报告中的名称去掉参数部分，得到方法名
+ */
+function getMethodName(name: string): string {
+    return name.replace(/[([].*$/, '').trim() || name;
+}
+
+/**
+ * 报告中的时间以秒为单位，旧版本 Surefire 使用千位分隔符
+ */
+function parseDuration(time: string | undefined): number | undefined {
+    const seconds = time ? parseFloat(time.replace(/,/g, '')) : NaN;
+    return isNaN(seconds) ? undefined : Math.round(seconds * 1000);
+}
+
+function findDeclaration(lines: string[] | undefined, className: string): number | undefined {
+    const simpleName = className.substring(Math.max(className.lastIndexOf('.'), className.lastIndexOf('$')) + 1);
+    const pattern = new RegExp(`\\b(class|interface|object|trait)\\s+${escapeRegExp(simpleName)}\\b`);
+    const index = lines?.findIndex(line => pattern.test(line)) ?? -1;
+    return index >= 0 ? index : undefined;
+}
+
+function findMethod(lines: string[] | undefined, methodName: string): number | undefined {
+    const pattern = new RegExp(`(^|[\\s.'"\`])${escapeRegExp(methodName)}['"\`]?\\s*\\(`);
+    const index = lines?.findIndex(line => pattern.test(line)) ?? -1;
+    return index >= 0 ? index : undefined;
+}
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
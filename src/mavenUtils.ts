@@ -2,66 +2,72 @@ import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
 import * as os from 'os';
-import { exec } from 'child_process';
+import { ChildProcess, exec, spawn } from 'child_process';
 import { promisify } from 'util';
 import { t } from './i18n';
+import { PomDocument } from './pomDocument';
 
 const execAsync = promisify(exec);
 
+/** cmd.exe 命令行中需要用 ^ 转义的字符 */
+const CMD_META_CHARS = /[()[\]%!^"`<>&|;, *?]/g;
+
 /**
  * Maven 命令执行工具类
  */
 export class MavenUtils {
+    private static readonly reactorCache = new Map<string, Map<string, string[]>>();
+    /** 工作区文件夹 → Maven 是否可用，配置改变后由 resetMavenAvailability 清除 */
+    private static readonly availabilityCache = new Map<string, Promise<boolean>>();
+
     /**
      * 获取 Effective POM
      * @param pomFilePath POM 文件路径
+     * @param options 激活的 profile、进度回调与取消令牌
      * @returns Effective POM 的 XML 内容
      */
-    static async getEffectivePom(pomFilePath: string): Promise<string> {
+    static async getEffectivePom(pomFilePath: string, options: MavenRunOptions = {}): Promise<string> {
+        const profiles = options.profiles ?? [];
         let effectivePomPath: string;
 
         try {
             const multiModuleInfo = this.getMultiModuleInfo(pomFilePath);
             const mvn = this.getMvnCommand(pomFilePath);
+            const configuredArgs = this.getConfiguredArgs(pomFilePath);
+            const env = this.getConfiguredEnv(pomFilePath);
 
             let workingDir: string;
-            let command: string;
+            let args: string[];
             let useMultiModule = false;
 
             if (multiModuleInfo) {
                 useMultiModule = true;
                 workingDir = multiModuleInfo.root;
                 effectivePomPath = path.join(os.tmpdir(), `effective-pom-${Date.now()}.xml`);
-                command = `"${mvn}" help:effective-pom -pl ":${multiModuleInfo.moduleName}" -am -Doutput="${effectivePomPath}"`;
-                console.log(`多模块模式执行 Maven 命令: ${command}`);
+                args = ['help:effective-pom', ...this.getModuleSelectorArgs(multiModuleInfo, profiles), ...configuredArgs, '-am', `-Doutput=${effectivePomPath}`];
+                console.log(`多模块模式执行 Maven 命令: ${this.formatCommand(mvn, args)}`);
                 console.log(`工作目录: ${workingDir}`);
             } else {
                 workingDir = path.dirname(pomFilePath);
                 const pomFileName = path.basename(pomFilePath);
                 effectivePomPath = path.join(workingDir, 'effective-pom.xml');
-                command = `"${mvn}" help:effective-pom -f "${pomFileName}" -Doutput=effective-pom.xml`;
-                console.log(`执行 Maven 命令: ${command}`);
+                args = ['help:effective-pom', '-f', pomFileName, ...this.getProfileArgs(profiles), ...configuredArgs, '-Doutput=effective-pom.xml'];
+                console.log(`执行 Maven 命令: ${this.formatCommand(mvn, args)}`);
                 console.log(`工作目录: ${workingDir}`);
             }
 
             // 执行命令，多模块失败时回退到单模块方式
             try {
-                await this.executeWithRetry(command, {
-                    cwd: workingDir,
-                    maxBuffer: 10 * 1024 * 1024 // 10MB buffer
-                });
+                await this.executeWithRetry(mvn, args, { ...options, cwd: workingDir, env });
             } catch (primaryError: any) {
-                if (useMultiModule) {
+                if (useMultiModule && !(primaryError instanceof vscode.CancellationError)) {
                     console.log('多模块方式执行失败，回退到单模块方式...');
                     const fallbackWorkingDir = path.dirname(pomFilePath);
                     const pomFileName = path.basename(pomFilePath);
                     effectivePomPath = path.join(fallbackWorkingDir, 'effective-pom.xml');
-                    const fallbackCommand = `"${mvn}" help:effective-pom -f "${pomFileName}" -Doutput=effective-pom.xml`;
+                    const fallbackArgs = ['help:effective-pom', '-f', pomFileName, ...this.getProfileArgs(profiles), ...configuredArgs, '-Doutput=effective-pom.xml'];
 
-                    await this.executeWithRetry(fallbackCommand, {
-                        cwd: fallbackWorkingDir,
-                        maxBuffer: 10 * 1024 * 1024
-                    });
+                    await this.executeWithRetry(mvn, fallbackArgs, { ...options, cwd: fallbackWorkingDir, env });
                 } else {
                     throw primaryError;
                 }
@@ -81,6 +87,10 @@ export class MavenUtils {
 
             return effectivePom;
         } catch (error: any) {
+            // 取消时不回退、不重新包装错误
+            if (error instanceof vscode.CancellationError) {
+                throw error;
+            }
             console.error('获取 Effective POM 失败:', error);
             throw new Error(this.analyzeError(error, t('progress.generateEffectivePom'), true));
         }
@@ -89,54 +99,57 @@ export class MavenUtils {
     /**
      * 获取依赖树
      * @param pomFilePath POM 文件路径
+     * @param singleModule 只解析该 POM 本身，不按多模块项目从根目录执行
+     * @param options 激活的 profile、进度回调与取消令牌
      * @returns 依赖树的文本内容
      */
-    static async getDependencyTree(pomFilePath: string): Promise<string> {
+    static async getDependencyTree(pomFilePath: string, singleModule: boolean = false, options: MavenRunOptions = {}): Promise<string> {
+        const profiles = options.profiles ?? [];
         try {
-            const multiModuleInfo = this.getMultiModuleInfo(pomFilePath);
-            const mvn = this.getMvnCommand(pomFilePath);
+            const multiModuleInfo = singleModule ? null : this.getMultiModuleInfo(pomFilePath);
+            const settingsFrom = options.settingsFrom ?? pomFilePath;
+            const mvn = this.getMvnCommand(settingsFrom);
+            const configuredArgs = this.getConfiguredArgs(settingsFrom);
+            const env = this.getConfiguredEnv(settingsFrom);
 
             let workingDir: string;
-            let command: string;
+            let args: string[];
             let useMultiModule = false;
 
             if (multiModuleInfo) {
                 useMultiModule = true;
                 workingDir = multiModuleInfo.root;
-                command = `"${mvn}" dependency:tree -Dverbose -pl ":${multiModuleInfo.moduleName}" -am`;
-                console.log(`多模块模式执行 Maven 命令: ${command}`);
+                args = ['dependency:tree', '-Dverbose', ...this.getModuleSelectorArgs(multiModuleInfo, profiles), ...configuredArgs, '-am'];
+                console.log(`多模块模式执行 Maven 命令: ${this.formatCommand(mvn, args)}`);
                 console.log(`工作目录: ${workingDir}`);
             } else {
                 workingDir = path.dirname(pomFilePath);
                 const pomFileName = path.basename(pomFilePath);
-                command = `"${mvn}" dependency:tree -Dverbose -f "${pomFileName}"`;
-                console.log(`执行 Maven 命令: ${command}`);
+                args = ['dependency:tree', '-Dverbose', '-f', pomFileName, ...this.getProfileArgs(profiles), ...configuredArgs];
+                console.log(`执行 Maven 命令: ${this.formatCommand(mvn, args)}`);
                 console.log(`工作目录: ${workingDir}`);
             }
 
             // 执行命令，多模块失败时回退到单模块方式
             try {
-                const { stdout } = await this.executeWithRetry(command, {
-                    cwd: workingDir,
-                    maxBuffer: 10 * 1024 * 1024 // 10MB buffer
-                });
+                const { stdout } = await this.executeWithRetry(mvn, args, { ...options, cwd: workingDir, env });
                 return stdout;
             } catch (primaryError: any) {
-                if (useMultiModule) {
+                if (useMultiModule && !(primaryError instanceof vscode.CancellationError)) {
                     console.log('多模块方式执行失败，回退到单模块方式...');
                     const fallbackWorkingDir = path.dirname(pomFilePath);
                     const pomFileName = path.basename(pomFilePath);
-                    const fallbackCommand = `"${mvn}" dependency:tree -Dverbose -f "${pomFileName}"`;
-                    const { stdout } = await this.executeWithRetry(fallbackCommand, {
-                        cwd: fallbackWorkingDir,
-                        maxBuffer: 10 * 1024 * 1024
-                    });
+                    const fallbackArgs = ['dependency:tree', '-Dverbose', '-f', pomFileName, ...this.getProfileArgs(profiles), ...configuredArgs];
+                    const { stdout } = await this.executeWithRetry(mvn, fallbackArgs, { ...options, cwd: fallbackWorkingDir, env });
                     return stdout;
                 } else {
                     throw primaryError;
                 }
             }
         } catch (error: any) {
+            if (error instanceof vscode.CancellationError) {
+                throw error;
+            }
             console.error('获取依赖树失败:', error);
             throw new Error(this.analyzeError(error, t('progress.generateDependencyTree'), true));
         }
@@ -145,61 +158,65 @@ export class MavenUtils {
     /**
      * 获取扁平化的已解析依赖列表
      * @param pomFilePath POM 文件路径
+     * @param options 激活的 profile、进度回调与取消令牌
      * @returns 依赖列表的文本内容
      */
-    static async getResolvedDependencies(pomFilePath: string): Promise<string> {
+    static async getResolvedDependencies(pomFilePath: string, options: MavenRunOptions = {}): Promise<string> {
+        const profiles = options.profiles ?? [];
         try {
             const multiModuleInfo = this.getMultiModuleInfo(pomFilePath);
             const mvn = this.getMvnCommand(pomFilePath);
+            const configuredArgs = this.getConfiguredArgs(pomFilePath);
+            const env = this.getConfiguredEnv(pomFilePath);
 
             let workingDir: string;
-            let command: string;
+            let args: string[];
             let useMultiModule = false;
 
             if (multiModuleInfo) {
                 useMultiModule = true;
                 workingDir = multiModuleInfo.root;
-                command = `"${mvn}" dependency:list -pl ":${multiModuleInfo.moduleName}" -am`;
-                console.log(`多模块模式执行 Maven 命令: ${command}`);
+                args = ['dependency:list', ...this.getModuleSelectorArgs(multiModuleInfo, profiles), ...configuredArgs, '-am'];
+                console.log(`多模块模式执行 Maven 命令: ${this.formatCommand(mvn, args)}`);
                 console.log(`工作目录: ${workingDir}`);
             } else {
                 workingDir = path.dirname(pomFilePath);
                 const pomFileName = path.basename(pomFilePath);
-                command = `"${mvn}" dependency:list -f "${pomFileName}"`;
-                console.log(`执行 Maven 命令: ${command}`);
+                args = ['dependency:list', '-f', pomFileName, ...this.getProfileArgs(profiles), ...configuredArgs];
+                console.log(`执行 Maven 命令: ${this.formatCommand(mvn, args)}`);
                 console.log(`工作目录: ${workingDir}`);
             }
 
             // 执行命令，多模块失败时回退到单模块方式
             try {
-                const { stdout } = await this.executeWithRetry(command, {
-                    cwd: workingDir,
-                    maxBuffer: 10 * 1024 * 1024 // 10MB buffer
-                });
+                const { stdout } = await this.executeWithRetry(mvn, args, { ...options, cwd: workingDir, env });
                 return stdout;
             } catch (primaryError: any) {
-                if (useMultiModule) {
+                if (useMultiModule && !(primaryError instanceof vscode.CancellationError)) {
                     console.log('多模块方式执行失败，回退到单模块方式...');
                     const fallbackWorkingDir = path.dirname(pomFilePath);
                     const pomFileName = path.basename(pomFilePath);
-                    const fallbackCommand = `"${mvn}" dependency:list -f "${pomFileName}"`;
-                    const { stdout } = await this.executeWithRetry(fallbackCommand, {
-                        cwd: fallbackWorkingDir,
-                        maxBuffer: 10 * 1024 * 1024
-                    });
+                    const fallbackArgs = ['dependency:list', '-f', pomFileName, ...this.getProfileArgs(profiles), ...configuredArgs];
+                    const { stdout } = await this.executeWithRetry(mvn, fallbackArgs, { ...options, cwd: fallbackWorkingDir, env });
                     return stdout;
                 } else {
                     throw primaryError;
                 }
             }
         } catch (error: any) {
+            if (error instanceof vscode.CancellationError) {
+                throw error;
+            }
             console.error('dependency:list 失败，尝试使用 dependency:tree 作为回退...');
             try {
-                const treeText = await this.getDependencyTree(pomFilePath);
+                const treeText = await this.getDependencyTree(pomFilePath, false, options);
                 const treeData = this.parseDependencyTree(treeText);
                 const flatDeps = this.flattenDependencyTree(treeData);
                 return this.formatDependencyListOutput(flatDeps);
             } catch (treeError: any) {
+                if (treeError instanceof vscode.CancellationError) {
+                    throw treeError;
+                }
                 console.error('获取已解析依赖列表失败:', error);
                 throw new Error(this.analyzeError(error, t('progress.generateDependencyList'), true));
             }
@@ -207,20 +224,119 @@ export class MavenUtils {
     }
 
     /**
-     * 检查 Maven 是否可用
+     * 运行 dependency:analyze 分析依赖的使用情况
+     * 该目标会先编译主代码与测试代码，耗时较长
+     * @param pomFilePath POM 文件路径
+     * @param options 激活的 profile、进度回调与取消令牌
+     * @returns Maven 输出文本
+     */
+    static async getDependencyAnalysis(pomFilePath: string, options: MavenRunOptions = {}): Promise<string> {
+        const profiles = options.profiles ?? [];
+        try {
+            const multiModuleInfo = this.getMultiModuleInfo(pomFilePath);
+            const mvn = this.getMvnCommand(pomFilePath);
+            const configuredArgs = this.getConfiguredArgs(pomFilePath);
+            const env = this.getConfiguredEnv(pomFilePath);
+
+            let workingDir: string;
+            let args: string[];
+            let useMultiModule = false;
+
+            if (multiModuleInfo) {
+                useMultiModule = true;
+                workingDir = multiModuleInfo.root;
+                args = ['dependency:analyze', ...this.getModuleSelectorArgs(multiModuleInfo, profiles), ...configuredArgs, '-am'];
+                console.log(`多模块模式执行 Maven 命令: ${this.formatCommand(mvn, args)}`);
+                console.log(`工作目录: ${workingDir}`);
+            } else {
+                workingDir = path.dirname(pomFilePath);
+                const pomFileName = path.basename(pomFilePath);
+                args = ['dependency:analyze', '-f', pomFileName, ...this.getProfileArgs(profiles), ...configuredArgs];
+                console.log(`执行 Maven 命令: ${this.formatCommand(mvn, args)}`);
+                console.log(`工作目录: ${workingDir}`);
+            }
+
+            // 执行命令，多模块失败时回退到单模块方式
+            try {
+                const { stdout } = await this.executeWithRetry(mvn, args, { ...options, cwd: workingDir, env });
+                return stdout;
+            } catch (primaryError: any) {
+                if (useMultiModule && !(primaryError instanceof vscode.CancellationError)) {
+                    console.log('多模块方式执行失败，回退到单模块方式...');
+                    const fallbackWorkingDir = path.dirname(pomFilePath);
+                    const pomFileName = path.basename(pomFilePath);
+                    const fallbackArgs = ['dependency:analyze', '-f', pomFileName, ...this.getProfileArgs(profiles), ...configuredArgs];
+                    const { stdout } = await this.executeWithRetry(mvn, fallbackArgs, { ...options, cwd: fallbackWorkingDir, env });
+                    return stdout;
+                } else {
+                    throw primaryError;
+                }
+            }
+        } catch (error: any) {
+            if (error instanceof vscode.CancellationError) {
+                throw error;
+            }
+            console.error('分析依赖使用情况失败:', error);
+            throw new Error(this.analyzeError(error, t('progress.analyzeDependencies'), true));
+        }
+    }
+
+    /**
+     * 检查 Maven 是否可用，结果按工作区文件夹缓存，避免每次读取缓存或诊断时都运行 mvn --version
      * @param pomFilePath POM 文件路径（用于查找 Maven Wrapper）
      * @returns 如果 Maven 可用返回 true，否则返回 false
      */
-    static async isMavenAvailable(pomFilePath: string): Promise<boolean> {
+    static isMavenAvailable(pomFilePath: string): Promise<boolean> {
+        const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(pomFilePath));
+        const key = folder?.uri.fsPath ?? path.dirname(pomFilePath);
+        let available = this.availabilityCache.get(key);
+        if (!available) {
+            available = this.checkMavenAvailable(pomFilePath);
+            this.availabilityCache.set(key, available);
+        }
+        return available;
+    }
+
+    private static async checkMavenAvailable(pomFilePath: string): Promise<boolean> {
         try {
             const mvn = this.getMvnCommand(pomFilePath);
-            await execAsync(`"${mvn}" --version`, { timeout: 5000 });
+            await execAsync(`"${mvn}" --version`, {
+                timeout: 5000,
+                env: { ...process.env, ...this.getConfiguredEnv(pomFilePath) }
+            });
             return true;
         } catch (error: any) {
             return false;
         }
     }
 
+    /**
+     * 清除 Maven 是否可用的缓存，Maven 路径或运行配置改变后调用
+     */
+    static resetMavenAvailability(): void {
+        this.availabilityCache.clear();
+    }
+
+    /**
+     * 判断是否使用离线解析器代替 Maven 解析依赖
+     * 由 mavenPomEditor.dependencyResolution 决定：auto 时仅在 Maven 不可用时离线解析
+     * @param pomFilePath POM 文件路径（用于查找 Maven Wrapper）
+     * @throws 配置为 maven 且 Maven 不可用时抛出错误
+     */
+    static async shouldResolveOffline(pomFilePath: string): Promise<boolean> {
+        const mode = vscode.workspace.getConfiguration('mavenPomEditor').get<string>('dependencyResolution', 'auto');
+        if (mode === 'offline') {
+            return true;
+        }
+        if (await this.isMavenAvailable(pomFilePath)) {
+            return false;
+        }
+        if (mode === 'maven') {
+            throw new Error(t('error.mavenNotFoundWithWrapper'));
+        }
+        return true;
+    }
+
     /**
      * 获取 Maven 命令（支持 Wrapper、配置项、系统 PATH、常见路径）
      * @param pomFilePath POM 文件路径
@@ -228,7 +344,7 @@ export class MavenUtils {
      */
     static getMvnCommand(pomFilePath: string): string { // source code generated by GenAI of Kiro
         // 1. 用户配置优先
-        const config = vscode.workspace.getConfiguration('mavenPomEditor');
+        const config = vscode.workspace.getConfiguration('mavenPomEditor', vscode.Uri.file(pomFilePath));
         const configPath = config.get<string>('mavenPath')?.trim();
         if (configPath) {
             console.log(t('msg.usingConfigPath', configPath));
@@ -320,39 +436,175 @@ export class MavenUtils {
     }
 
     /**
-     * 查找多模块项目的根目录
-     * 从 POM 文件所在目录向上遍历，查找声明当前目录为子模块的最顶层父 POM
+     * 查找多模块项目的根目录（根 POM 所在目录）
      * @param pomFilePath POM 文件路径
      * @returns 项目根目录路径，如果不是多模块项目则返回 null
      */
     static findProjectRoot(pomFilePath: string): string | null {
-        let currentDir = path.dirname(pomFilePath);
-        const root = path.parse(currentDir).root;
-        let projectRoot: string | null = null;
+        const rootPom = this.findProjectRootPom(pomFilePath);
+        return rootPom ? path.dirname(rootPom) : null;
+    }
 
-        while (currentDir !== root) {
-            const parentDir = path.dirname(currentDir);
-            if (parentDir === currentDir) { break; }
+    /**
+     * 查找多模块项目的根 POM
+     * 候选的聚合 POM 包括各上级目录中的 pom.xml 以及沿 <relativePath> 找到的父 POM（和它们的上级目录），
+     * 在递归展开 <modules>（包括 profile 中的模块）后包含该 POM 的候选中，取模块最多的一个；
+     * 因此模块可以位于根目录之外（如 ../shared/core）、以 POM 文件声明，聚合 POM 也不必是父 POM
+     * @param pomFilePath POM 文件路径
+     * @returns 根 POM 路径，如果不是多模块项目则返回 null
+     */
+    static findProjectRootPom(pomFilePath: string): string | null {
+        const target = path.resolve(pomFilePath);
+        let rootPom: string | null = null;
+        let rootSize = 0;
+        for (const candidate of this.findAggregatorCandidates(target)) {
+            const modules = this.collectReactorModules(candidate);
+            if (modules.has(target) && modules.size > rootSize) {
+                rootPom = candidate;
+                rootSize = modules.size;
+            }
+        }
+        return rootPom;
+    }
 
-            const parentPomPath = path.join(parentDir, 'pom.xml');
-            if (fs.existsSync(parentPomPath)) {
-                try {
-                    const parentPomContent = fs.readFileSync(parentPomPath, 'utf-8');
-                    const moduleName = path.basename(currentDir);
-                    const moduleRegex = new RegExp(`<module>\\s*${this.escapeRegexForModule(moduleName)}\\s*</module>`);
-                    if (moduleRegex.test(parentPomContent)) {
-                        projectRoot = parentDir;
-                        currentDir = parentDir;
-                        continue;
-                    }
-                } catch (error) {
-                    console.warn(`读取父 POM 失败: ${parentPomPath}`, error);
+    /**
+     * 可能聚合了该 POM 的 POM 文件
+     * 工作区文件夹内的上级目录还会检查其子目录中的 pom.xml（如与模块目录并列的 build/pom.xml）
+     */
+    private static findAggregatorCandidates(pomFilePath: string): string[] {
+        const candidates = new Set<string>();
+        const workspaceFolder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(pomFilePath))?.uri.fsPath;
+        const addAncestors = (filePath: string) => {
+            for (let dir = filePath; path.dirname(dir) !== dir;) {
+                dir = path.dirname(dir);
+                const candidate = path.join(dir, 'pom.xml');
+                if (fs.existsSync(candidate)) {
+                    candidates.add(candidate);
+                }
+                if (workspaceFolder && !path.relative(workspaceFolder, dir).startsWith('..')) {
+                    this.findChildPoms(dir).forEach(childPom => candidates.add(childPom));
                 }
             }
-            break;
+        };
+
+        // 沿 <relativePath> 向上，父 POM 可能位于兄弟目录中
+        const visited = new Set<string>();
+        let current: string | undefined = pomFilePath;
+        while (current && !visited.has(current)) {
+            visited.add(current);
+            addAncestors(current);
+            current = this.findRelativeParentPom(current);
+            if (current) {
+                candidates.add(current);
+            }
+        }
+
+        candidates.delete(pomFilePath);
+        return [...candidates];
+    }
+
+    /**
+     * 目录的直接子目录中的 pom.xml
+     */
+    private static findChildPoms(dir: string): string[] {
+        try {
+            return fs.readdirSync(dir, { withFileTypes: true })
+                .filter(entry => entry.isDirectory() && !entry.name.startsWith('.') && entry.name !== 'target' && entry.name !== 'node_modules')
+                .map(entry => path.join(dir, entry.name, 'pom.xml'))
+                .filter(candidate => fs.existsSync(candidate));
+        } catch {
+            return [];
         }
+    }
 
-        return projectRoot;
+    /**
+     * 按 <relativePath>（默认 ../pom.xml）查找父 POM 文件，不检查坐标是否匹配
+     */
+    private static findRelativeParentPom(pomFilePath: string): string | undefined {
+        try {
+            const parent = PomDocument.load(pomFilePath).parent;
+            // <relativePath/> 为空时 Maven 不按相对路径查找父 POM
+            const relativePath = parent?.relativePath ?? '../pom.xml';
+            if (!parent || !relativePath) {
+                return undefined;
+            }
+            const parentPath = this.resolveModulePath(pomFilePath, relativePath);
+            return fs.existsSync(parentPath) ? parentPath : undefined;
+        } catch (error) {
+            console.warn(`读取 POM 失败: ${pomFilePath}`, error);
+            return undefined;
+        }
+    }
+
+    /**
+     * 递归展开根 POM 的 <modules>，结果按根 POM 缓存，POM 文件保存、新增或删除后需调用 resetReactorCache
+     * @param rootPom 根 POM 路径
+     * @returns 模块 POM 路径（包括根 POM 本身）→ 包含该模块需要激活的 profile（默认包含时为空）
+     */
+    static collectReactorModules(rootPom: string): Map<string, string[]> {
+        const cached = this.reactorCache.get(rootPom);
+        if (cached) {
+            return cached;
+        }
+
+        const modules = new Map<string, string[]>([[rootPom, []]]);
+        const queue = [rootPom];
+        while (queue.length > 0) {
+            const current = queue.shift()!;
+            let pom: PomDocument;
+            try {
+                pom = PomDocument.load(current);
+            } catch (error) {
+                console.warn(`读取 POM 失败: ${current}`, error);
+                continue;
+            }
+
+            const defaultProfiles = new Set(pom.profiles
+                .filter(profile => PomDocument.childText(PomDocument.child(profile.element, 'activation'), 'activeByDefault') === 'true')
+                .map(profile => profile.id));
+            for (const module of pom.getModuleDeclarations()) {
+                const modulePath = this.resolveModulePath(current, module.name);
+                if (!fs.existsSync(modulePath)) {
+                    continue;
+                }
+                const profiles = module.profileId && !defaultProfiles.has(module.profileId)
+                    ? [...modules.get(current)!, module.profileId]
+                    : modules.get(current)!;
+                // 同一个模块可以从多处声明，保留需要激活的 profile 最少的路径
+                const existing = modules.get(modulePath);
+                if (!existing || existing.length > profiles.length) {
+                    modules.set(modulePath, [...new Set(profiles)]);
+                    queue.push(modulePath);
+                }
+            }
+        }
+
+        this.reactorCache.set(rootPom, modules);
+        return modules;
+    }
+
+    /**
+     * 清除多模块项目的模块缓存
+     */
+    static resetReactorCache(): void {
+        this.reactorCache.clear();
+    }
+
+    /**
+     * <module> 或 <relativePath> 指向的 POM 文件：指向已存在的文件时使用该文件，否则为目录中的 pom.xml
+     * @param pomFilePath 声明它的 POM 文件路径
+     * @param modulePath 相对于该 POM 所在目录的路径
+     */
+    static resolveModulePath(pomFilePath: string, modulePath: string): string {
+        const resolved = path.resolve(path.dirname(pomFilePath), modulePath.trim());
+        try {
+            if (fs.statSync(resolved).isFile()) {
+                return resolved;
+            }
+        } catch {
+            // 路径不存在，按目录处理
+        }
+        return path.join(resolved, 'pom.xml');
     }
 
     /**
@@ -362,11 +614,7 @@ export class MavenUtils {
      */
     static getModuleName(pomFilePath: string): string | null {
         try {
-            const pomContent = fs.readFileSync(pomFilePath, 'utf-8');
-            // 先移除 <parent> 段，避免匹配到父项目的 artifactId
-            const withoutParent = pomContent.replace(/<parent>[\s\S]*?<\/parent>/, '');
-            const match = withoutParent.match(/<artifactId>([^<]+)<\/artifactId>/);
-            return match ? match[1].trim() : null;
+            return PomDocument.load(pomFilePath).artifactId || null;
         } catch (error) {
             console.warn(`读取 POM 失败: ${pomFilePath}`, error);
             return null;
@@ -376,48 +624,152 @@ export class MavenUtils {
     /**
      * 获取多模块项目信息
      * @param pomFilePath POM 文件路径
-     * @returns 包含 root 和 moduleName 的对象，如果不是多模块项目返回 null
+     * @returns 多模块项目信息，如果不是多模块项目返回 null
      */
-    static getMultiModuleInfo(pomFilePath: string): { root: string; moduleName: string } | null {
-        const root = this.findProjectRoot(pomFilePath);
-        if (!root) {
+    static getMultiModuleInfo(pomFilePath: string): MultiModuleInfo | null {
+        const rootPom = this.findProjectRootPom(pomFilePath);
+        if (!rootPom) {
             return null;
         }
-        const moduleName = this.getModuleName(pomFilePath);
-        if (!moduleName) {
-            return null;
+
+        const root = path.dirname(rootPom);
+        const modulePath = path.resolve(pomFilePath);
+        // 以相对路径选择模块，不依赖 artifactId（可能包含属性）；POM 文件不是 pom.xml 时指向文件本身
+        const selected = path.basename(modulePath) === 'pom.xml' ? path.dirname(modulePath) : modulePath;
+        const selector = (path.relative(root, selected) || '.').split(path.sep).join('/');
+        return {
+            root,
+            rootPom,
+            selector,
+            profiles: this.collectReactorModules(rootPom).get(modulePath) ?? []
+        };
+    }
+
+    /**
+     * 在多模块项目根目录中只构建该模块所需的参数：-pl 选择器、包含该模块的 profile，根 POM 不是 pom.xml 时加上 -f
+     * 不包含 -am，由调用方决定是否同时构建依赖的模块
+     * @param profiles 另外激活的 profile
+     */
+    static getModuleSelectorArgs(info: MultiModuleInfo, profiles: string[] = []): string[] {
+        const args: string[] = [];
+        if (path.basename(info.rootPom) !== 'pom.xml') {
+            args.push('-f', path.basename(info.rootPom));
         }
-        return { root, moduleName };
+        args.push('-pl', info.selector);
+        args.push(...this.getProfileArgs([...new Set([...info.profiles, ...profiles])]));
+        return args;
     }
 
-    private static escapeRegexForModule(str: string): string {
-        return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    /**
+     * 激活 profile 的参数，没有 profile 时为空
+     */
+    static getProfileArgs(profiles: string[]): string[] {
+        return profiles.length > 0 ? ['-P', profiles.join(',')] : [];
     }
 
     /**
-     * 执行带重试的 Maven 命令
-     * @param command Maven 命令
+     * 将命令与参数拼接为便于阅读的字符串，仅用于日志与错误信息，不用于执行
+     */
+    static formatCommand(command: string, args: string[]): string {
+        return [command, ...args].map(arg => /[\s"'$`%&|<>;()^!*?]/.test(arg) || arg.length === 0 ? JSON.stringify(arg) : arg).join(' ');
+    }
+
+    /**
+     * 拼接由 cmd.exe 执行的命令行：参数先按 CommandLineToArgvW 的规则加引号，
+     * 命令与参数中 cmd 的元字符再用 ^ 转义，使 %、&、|、" 等字符原样传给 Maven
+     */
+    static toWindowsCommandLine(command: string, args: string[]): string {
+        const quoted = args.map(arg => `"${arg.replace(/(\\*)"/g, '$1$1\\"').replace(/(\\*)$/, '$1$1')}"`);
+        return [command, ...quoted].map(arg => arg.replace(CMD_META_CHARS, '^$&')).join(' ');
+    }
+
+    /**
+     * 配置的 Maven 参数：settings.xml（-s）、全局 settings.xml（-gs）、离线（-o）、强制更新（-U）、-D 属性与额外参数
+     * 按 POM 所在的工作区文件夹读取 mavenPomEditor.maven.* 配置
+     */
+    static getConfiguredArgs(pomFilePath: string): string[] {
+        const config = vscode.workspace.getConfiguration('mavenPomEditor.maven', vscode.Uri.file(pomFilePath));
+        const args: string[] = [];
+
+        const settingsFile = this.resolveConfiguredPath(pomFilePath, config.get<string>('settingsFile'));
+        if (settingsFile) {
+            args.push('-s', settingsFile);
+        }
+        const globalSettingsFile = this.resolveConfiguredPath(pomFilePath, config.get<string>('globalSettingsFile'));
+        if (globalSettingsFile) {
+            args.push('-gs', globalSettingsFile);
+        }
+        if (config.get<boolean>('offline', false)) {
+            args.push('-o');
+        }
+        if (config.get<boolean>('updateSnapshots', false)) {
+            args.push('-U');
+        }
+        for (const [name, value] of Object.entries(config.get<Record<string, string>>('properties', {}))) {
+            args.push(`-D${name}=${value}`);
+        }
+        args.push(...config.get<string[]>('extraArgs', []).filter(arg => arg.trim().length > 0));
+        return args;
+    }
+
+    /**
+     * 配置的 Maven 环境变量：JAVA_HOME 与 MAVEN_OPTS，未配置时沿用 VS Code 的环境变量
+     */
+    static getConfiguredEnv(pomFilePath: string): Record<string, string> {
+        const config = vscode.workspace.getConfiguration('mavenPomEditor.maven', vscode.Uri.file(pomFilePath));
+        const env: Record<string, string> = {};
+
+        const javaHome = this.resolveConfiguredPath(pomFilePath, config.get<string>('javaHome'));
+        if (javaHome) {
+            env.JAVA_HOME = javaHome;
+        }
+        const mavenOpts = config.get<string>('mavenOpts')?.trim();
+        if (mavenOpts) {
+            env.MAVEN_OPTS = mavenOpts;
+        }
+        return env;
+    }
+
+    /**
+     * 解析配置中的路径：支持 ~ 与 ${workspaceFolder}，相对路径相对于 POM 所在的工作区文件夹
+     */
+    private static resolveConfiguredPath(pomFilePath: string, value: string | undefined): string | undefined {
+        if (!value?.trim()) {
+            return undefined;
+        }
+        const workspaceFolder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(pomFilePath));
+        const baseDir = workspaceFolder?.uri.fsPath ?? path.dirname(pomFilePath);
+        const expanded = value.trim()
+            .replace(/\$\{workspaceFolder\}/g, baseDir)
+            .replace(/^~(?=$|[\\/])/, os.homedir());
+        return path.resolve(baseDir, expanded);
+    }
+
+    /**
+     * 执行带重试的 Maven 命令，取消后不再重试
+     * @param command Maven 可执行文件
+     * @param args 命令行参数，逐个传递，不经过 shell 解析
      * @param options 执行选项
      * @param maxRetries 最大重试次数
      * @returns 命令执行结果
      */
     static async executeWithRetry(
         command: string,
-        options: any,
+        args: string[],
+        options: MavenExecuteOptions,
         maxRetries: number = 3
     ): Promise<{ stdout: string; stderr: string }> {
         let lastError: any;
 
         for (let attempt = 1; attempt <= maxRetries; attempt++) {
             try {
-                console.log(`执行 Maven 命令 (尝试 ${attempt}/${maxRetries}): ${command}`);
-                const result = await execAsync(command, options);
-                return {
-                    stdout: result.stdout.toString(),
-                    stderr: result.stderr.toString()
-                };
+                console.log(`执行 Maven 命令 (尝试 ${attempt}/${maxRetries}): ${this.formatCommand(command, args)}`);
+                return await this.execute(command, args, options);
             } catch (error: any) {
                 lastError = error;
+                if (error instanceof vscode.CancellationError) {
+                    throw error;
+                }
                 const errorMessage = error.message || error.toString();
 
                 // 检查是否是网络相关错误，如果是则重试
@@ -443,6 +795,129 @@ export class MavenUtils {
         throw lastError;
     }
 
+    /**
+     * 以子进程执行命令，逐行读取输出并报告进度；输出大小不受限制
+     * 失败时的错误与 exec 相同：message 包含 stderr，并带有 code、stdout、stderr
+     * @throws vscode.CancellationError 取消时结束整个进程树后抛出
+     */
+    static execute(command: string, args: string[], options: MavenExecuteOptions): Promise<{ stdout: string; stderr: string }> {
+        return new Promise((resolve, reject) => {
+            if (options.token?.isCancellationRequested) {
+                reject(new vscode.CancellationError());
+                return;
+            }
+
+            // Windows 上的 mvn.cmd / mvnw.cmd 只能由 cmd.exe 启动，参数逐个转义后拼接；
+            // 其他平台不经过 shell 直接启动，并让 Maven 成为进程组组长，取消时可以结束它启动的所有进程
+            const env = { ...process.env, ...options.env };
+            const child = process.platform === 'win32'
+                ? spawn(this.toWindowsCommandLine(command, args), { cwd: options.cwd, env, shell: true })
+                : spawn(command, args, { cwd: options.cwd, env, detached: true });
+            const stdout: string[] = [];
+            const stderr: string[] = [];
+            const progress: MavenProgress = { downloaded: 0 };
+            let partialLine = '';
+            let cancelled = false;
+
+            child.stdout.setEncoding('utf-8');
+            child.stderr.setEncoding('utf-8');
+            child.stdout.on('data', (chunk: string) => {
+                stdout.push(chunk);
+                if (!options.onProgress) {
+                    return;
+                }
+                // 传输进度以 \r 覆盖同一行
+                const lines = (partialLine + chunk).split(/\r\n|\r|\n/);
+                partialLine = lines.pop() ?? '';
+                let changed = false;
+                for (const line of lines) {
+                    changed = this.updateProgress(progress, line) || changed;
+                }
+                if (changed) {
+                    options.onProgress({ ...progress });
+                }
+            });
+            child.stderr.on('data', (chunk: string) => stderr.push(chunk));
+
+            const cancellation = options.token?.onCancellationRequested(() => {
+                cancelled = true;
+                this.killProcessTree(child);
+            });
+            child.on('error', (error: NodeJS.ErrnoException) => {
+                cancellation?.dispose();
+                // 不经过 shell 启动时，找不到 Maven 可执行文件的错误是 spawn mvn ENOENT
+                reject(error.code === 'ENOENT'
+                    ? Object.assign(new Error(t('error.mavenNotFoundWithWrapper')), { code: error.code })
+                    : error);
+            });
+            child.on('close', code => {
+                cancellation?.dispose();
+                const result = { stdout: stdout.join(''), stderr: stderr.join('') };
+                if (cancelled) {
+                    reject(new vscode.CancellationError());
+                } else if (code === 0) {
+                    resolve(result);
+                } else {
+                    reject(Object.assign(new Error(`Command failed: ${this.formatCommand(command, args)}\n${result.stderr}`), { code, ...result }));
+                }
+            });
+        });
+    }
+
+    /**
+     * 根据一行 Maven 输出更新进度
+     * @returns 进度是否改变
+     */
+    static updateProgress(progress: MavenProgress, line: string): boolean {
+        // [INFO] Building core 1.0-SNAPSHOT                                [2/5]
+        // 打包时的 "Building jar: /path/to/core.jar" 含有冒号，不是模块
+        const building = line.match(/^\[INFO\] Building ([^:]+?)(?:\s+\[(\d+)\/(\d+)\])?\s*$/);
+        if (building) {
+            progress.module = building[1];
+            progress.moduleIndex = building[2] ? Number(building[2]) : undefined;
+            progress.moduleCount = building[3] ? Number(building[3]) : undefined;
+            return true;
+        }
+
+        // Maven 3.5 起为 "Downloading from central: <url>"，之前为 "Downloading: <url>"
+        const transfer = line.match(/^(?:\[INFO\] )?(Downloading|Downloaded)(?: from [^:]+)?: (\S+)/);
+        if (transfer) {
+            if (transfer[1] === 'Downloaded') {
+                progress.downloaded++;
+                progress.downloading = undefined;
+            } else {
+                progress.downloading = transfer[2].substring(transfer[2].lastIndexOf('/') + 1);
+            }
+            return true;
+        }
+        return false;
+    }
+
+    /**
+     * 结束子进程及其启动的所有进程（Maven 的启动脚本会再启动 Java 进程）
+     */
+    private static killProcessTree(child: ChildProcess): void {
+        if (child.pid === undefined || child.exitCode !== null) {
+            return;
+        }
+        const pid = child.pid;
+        if (process.platform === 'win32') {
+            spawn('taskkill', ['/pid', String(pid), '/T', '/F']);
+            return;
+        }
+
+        const killGroup = (signal: NodeJS.Signals) => {
+            try {
+                process.kill(-pid, signal);
+            } catch {
+                // 进程组已经结束
+            }
+        };
+        killGroup('SIGTERM');
+        // JVM 在关闭钩子中停留过久时强制结束
+        setTimeout(() => killGroup('SIGKILL'), 3000).unref();
+    }
+
     /**
      * 分析错误类型并提供相应的错误信息
      * @param error 错误对象
@@ -454,7 +929,8 @@ export class MavenUtils {
         const errorMessage = error.message || error.toString();
 
         // 检查是否是 Maven 未安装的错误
-        if (errorMessage.includes('mvn: command not found') ||
+        if (error.code === 'ENOENT' ||
+            errorMessage.includes('mvn: command not found') ||
             errorMessage.includes('mvn: not found') ||
             errorMessage.includes('mvn: 未找到命令') ||
             errorMessage.includes('mvn: 不是内部或外部命令') ||
@@ -524,8 +1000,8 @@ export class MavenUtils {
                 continue;
             }
 
-            // 移除 [INFO] 前缀
-            let content = line.substring(line.indexOf('[INFO]') + 6).trimStart();
+            // 移除 [INFO] 前缀及其后的一个空格，保留树形字符前的缩进
+            let content = line.substring(line.indexOf('[INFO]') + 6).replace(/^ /, '');
 
             // 跳过 Maven 插件信息行
             if (content.includes('---') || content.includes('maven-dependency-plugin') ||
@@ -627,7 +1103,57 @@ export class MavenUtils {
     }
 
     /**
-     * 将依赖树扁平化为唯一依赖列表
+     * 解析 dependency:analyze 的输出
+     * 多模块方式运行时输出包含上游模块的分析结果，只保留目标模块的部分
+     * @param output Maven 输出文本
+     * @param artifactId 目标模块的 artifactId，未提供时保留所有模块的结果
+     * @returns 使用但未声明、声明但未使用的依赖
+     */
+    static parseDependencyAnalysis(output: string, artifactId?: string): DependencyAnalysis {
+        const analysis: DependencyAnalysis = { usedUndeclared: [], unusedDeclared: [] };
+        let module: string | undefined;
+        let section: keyof DependencyAnalysis | undefined;
+
+        for (const line of output.split('\n')) {
+            // 插件执行行：[INFO] --- maven-dependency-plugin:3.6.0:analyze (default-cli) @ module ---
+            const executionMatch = line.match(/--- .* @ (\S+) ---/);
+            if (executionMatch) {
+                module = executionMatch[1];
+                section = undefined;
+                continue;
+            }
+
+            const content = line.replace(/^\[\w+\]/, '').trimEnd();
+            const header = content.trim();
+            if (header.startsWith('Used undeclared dependencies found')) {
+                section = 'usedUndeclared';
+                continue;
+            }
+            if (header.startsWith('Unused declared dependencies found')) {
+                section = 'unusedDeclared';
+                continue;
+            }
+
+            // 依赖行缩进在区段标题之下，其他内容结束当前区段
+            if (!section || !/^\s{2,}\S/.test(content)) {
+                section = undefined;
+                continue;
+            }
+            if (artifactId && module && module !== artifactId) {
+                continue;
+            }
+
+            const dependency = this.parseResolvedDependencyNode(header.split(/\s+/)[0]);
+            if (dependency) {
+                analysis[section].push(dependency);
+            }
+        }
+
+        return analysis;
+    }
+
+    /**
+     * 将依赖树扁平化为唯一依赖列表，被省略（冲突、重复、循环）的节点不计入
      * @param nodes 依赖树节点数组
      * @returns 扁平化的唯一依赖数组
      */
@@ -636,6 +1162,9 @@ export class MavenUtils {
         const seen = new Set<string>();
 
         const traverse = (node: DependencyNode) => {
+            if (node.omittedReason && node.omittedReason !== 'managed') {
+                return;
+            }
             const key = `${node.groupId}:${node.artifactId}`;
             if (!seen.has(key)) {
                 seen.add(key);
@@ -662,6 +1191,65 @@ export class MavenUtils {
         return dependencies;
     }
 
+    /**
+     * 从依赖树中收集版本冲突
+     * 同一 groupId:artifactId 出现了被省略的冲突节点，或被请求了多个不同版本时视为冲突
+     * @param nodes 依赖树节点数组（根节点为当前项目）
+     * @returns 冲突列表，按 groupId:artifactId 排序
+     */
+    static findConflicts(nodes: DependencyNode[]): DependencyConflict[] {
+        const requestsByKey = new Map<string, { node: DependencyNode; path: DependencyCoordinate[] }[]>();
+
+        const traverse = (node: DependencyNode, path: DependencyCoordinate[]) => {
+            const currentPath = [...path, { groupId: node.groupId, artifactId: node.artifactId, version: node.version }];
+            const key = `${node.groupId}:${node.artifactId}`;
+            if (!requestsByKey.has(key)) {
+                requestsByKey.set(key, []);
+            }
+            requestsByKey.get(key)!.push({ node, path: currentPath });
+
+            for (const child of node.children ?? []) {
+                traverse(child, currentPath);
+            }
+        };
+
+        // 根节点是项目本身，路径从直接依赖开始
+        for (const root of nodes) {
+            for (const child of root.children ?? []) {
+                traverse(child, []);
+            }
+        }
+
+        const conflicts: DependencyConflict[] = [];
+        for (const requests of requestsByKey.values()) {
+            const versions = new Set(requests.map(r => r.node.version));
+            const hasConflict = requests.some(r => r.node.omittedReason === 'conflict');
+            if (!hasConflict && versions.size < 2) {
+                continue;
+            }
+
+            const winner = requests.find(r => !r.node.omittedReason);
+            const resolvedVersion = winner?.node.version ??
+                requests.find(r => r.node.conflictVersion)?.node.conflictVersion ??
+                requests[0].node.version;
+
+            conflicts.push({
+                groupId: requests[0].node.groupId,
+                artifactId: requests[0].node.artifactId,
+                resolvedVersion,
+                requests: requests.map(r => ({
+                    version: r.node.version,
+                    path: r.path,
+                    omitted: r.node.omittedReason === 'conflict'
+                }))
+            });
+        }
+
+        return conflicts.sort((a, b) =>
+            `${a.groupId}:${a.artifactId}`.localeCompare(`${b.groupId}:${b.artifactId}`)
+        );
+    }
+
     /**
      * 将依赖数组格式化为 dependency:list 输出格式
      * @param dependencies 依赖数组
@@ -704,11 +1292,9 @@ export class MavenUtils {
         let indent = 0;
         for (let i = 0; i < line.length; i++) {
             const char = line[i];
-            if (char === ' ') {
+            // 空格与树形字符都计入前缀宽度，如 "+- " 为一级、"|  \- " 为两级
+            if (char === ' ' || char === '|' || char === '+' || char === '\\' || char === '-') {
                 indent++;
-            } else if (char === '|' || char === '+' || char === '\\' || char === '-') {
-                // 树形字符
-                continue;
             } else {
                 break;
             }
@@ -726,13 +1312,14 @@ export class MavenUtils {
     static parseDependencyNode(content: string): DependencyNode | null {
         // 检查是否包含省略信息（如 "- omitted for conflict with 1.2"）
         let omittedReason: string | undefined;
+        let conflictVersion: string | undefined;
         let cleanContent = content;
 
         // Maven verbose 模式下，被省略的依赖会被括号包裹，格式如：
         // (groupId:artifactId:type:version:scope - omitted for duplicate)
         // (groupId:artifactId:type:version:scope - omitted for conflict with X.X)
         // 先检查是否整体被括号包裹
-        const wrappedMatch = content.match(/^\\((.+)\\)$/);
+        const wrappedMatch = content.match(/^\((.+)\)$/);
         if (wrappedMatch) {
             content = wrappedMatch[1]; // 移除外层括号
         }
@@ -749,6 +1336,9 @@ export class MavenUtils {
             const match = content.match(pattern);
             if (match) {
                 omittedReason = reason;
+                if (reason === 'conflict') {
+                    conflictVersion = match[1].trim();
+                }
                 // 移除省略信息，保留依赖坐标
                 cleanContent = content.replace(pattern, '').trim();
                 break;
@@ -793,7 +1383,8 @@ export class MavenUtils {
             scope: scope?.trim(),
             classifier: classifier?.trim(),
             children: [],
-            omittedReason
+            omittedReason,
+            conflictVersion
         };
     }
 
@@ -851,6 +1442,40 @@ export interface DependencyNode {
     classifier?: string;
     children: DependencyNode[];
     omittedReason?: string;
+    /** 因冲突被省略时，Maven 实际选用的版本 */
+    conflictVersion?: string;
+    /** 由离线解析器生成（未运行 Maven），只标记在根节点上 */
+    resolvedWithoutMaven?: boolean;
+}
+
+/**
+ * 依赖坐标
+ */
+export interface DependencyCoordinate {
+    groupId: string;
+    artifactId: string;
+    version: string;
+}
+
+/**
+ * 依赖版本冲突
+ */
+export interface DependencyConflict {
+    groupId: string;
+    artifactId: string;
+    /** Maven 最终选用的版本 */
+    resolvedVersion: string;
+    /** 每条请求该依赖的路径（从直接依赖开始，到冲突依赖本身结束） */
+    requests: ConflictRequest[];
+}
+
+/**
+ * 冲突依赖的一次版本请求
+ */
+export interface ConflictRequest {
+    version: string;
+    path: DependencyCoordinate[];
+    omitted: boolean;
 }
 
 /**
@@ -863,4 +1488,65 @@ export interface ResolvedDependency {
     version: string;
     scope?: string;
     classifier?: string;
+    /** 由离线解析器生成（未运行 Maven） */
+    resolvedWithoutMaven?: boolean;
+}
+
+/**
+ * dependency:analyze 的分析结果
+ */
+export interface DependencyAnalysis {
+    /** 代码中直接使用、但只通过传递依赖引入的依赖 */
+    usedUndeclared: ResolvedDependency[];
+    /** 已声明、但代码中没有使用的依赖 */
+    unusedDeclared: ResolvedDependency[];
+}
+
+/**
+ * 多模块项目信息
+ */
+export interface MultiModuleInfo {
+    /** 根 POM 所在目录，Maven 命令在此目录中执行 */
+    root: string;
+    /** 根 POM 文件路径 */
+    rootPom: string;
+    /** -pl 的模块选择器：相对于根目录的模块目录（或 POM 文件）路径，使用 / 分隔 */
+    selector: string;
+    /** 包含该模块需要激活的 profile（模块只在这些 profile 的 <modules> 中声明） */
+    profiles: string[];
+}
+
+/**
+ * 运行 Maven 的选项
+ */
+export interface MavenRunOptions {
+    /** 以 -P 激活的 profile */
+    profiles?: string[];
+    /** Maven 输出中的进度改变时调用 */
+    onProgress?: (progress: MavenProgress) => void;
+    /** 取消时结束 Maven 进程树 */
+    token?: vscode.CancellationToken;
+    /** 读取 mavenPomEditor.maven 等配置所用的 POM，默认为要运行的 POM（如解析导出到临时目录的历史 POM 时使用工作区中的 POM） */
+    settingsFrom?: string;
+}
+
+interface MavenExecuteOptions extends MavenRunOptions {
+    cwd: string;
+    /** 在 VS Code 的环境变量之外另外设置的环境变量 */
+    env?: Record<string, string>;
+}
+
+/**
+ * 从 Maven 输出中读取的进度
+ */
+export interface MavenProgress {
+    /** 正在构建的模块名称 */
+    module?: string;
+    /** 模块在本次构建中的序号与模块总数，Maven 3.6 之前的输出中没有 */
+    moduleIndex?: number;
+    moduleCount?: number;
+    /** 已下载的文件数 */
+    downloaded: number;
+    /** 正在下载的文件名 */
+    downloading?: string;
 }
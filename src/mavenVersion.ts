@@ -0,0 +1,130 @@
+/**
+ * Maven 版本比较工具
+ * 按照 Maven ComparableVersion 的规则（简化版）比较版本号：
+ * 数字部分按数值比较，限定符按 alpha < beta < milestone < rc < snapshot < release < sp 排序
+ */
+export class MavenVersion {
+    private static readonly QUALIFIERS = ['alpha', 'beta', 'milestone', 'rc', 'snapshot', '', 'sp'];
+    private static readonly ALIASES: Record<string, string> = {
+        a: 'alpha',
+        b: 'beta',
+        m: 'milestone',
+        cr: 'rc',
+        ga: '',
+        final: '',
+        release: ''
+    };
+
+    /**
+     * 比较两个版本号
+     * @returns 负数表示 a < b，0 表示相等，正数表示 a > b
+     */
+    static compare(a: string, b: string): number {
+        const itemsA = this.tokenize(a);
+        const itemsB = this.tokenize(b);
+        const length = Math.max(itemsA.length, itemsB.length);
+
+        for (let i = 0; i < length; i++) {
+            const result = this.compareItems(itemsA[i], itemsB[i]);
+            if (result !== 0) {
+                return result;
+            }
+        }
+        return 0;
+    }
+
+    /**
+     * 按从新到旧排序
+     */
+    static sortDescending(versions: string[]): string[] {
+        return [...versions].sort((a, b) => this.compare(b, a));
+    }
+
+    /**
+     * 是否为快照版本
+     */
+    static isSnapshot(version: string): boolean {
+        return version.toUpperCase().endsWith('-SNAPSHOT');
+    }
+
+    /**
+     * 是否为预发布版本（alpha、beta、milestone、rc、snapshot）
+     */
+    static isPreRelease(version: string): boolean {
+        return this.tokenize(version).some(item =>
+            typeof item === 'string' && this.qualifierIndex(item) < this.QUALIFIERS.indexOf('')
+        );
+    }
+
+    /**
+     * 查找比当前版本新的最新版本
+     * 当前版本是正式版本时不考虑预发布版本
+     * @returns 没有更新的版本时返回 undefined
+     */
+    static findNewer(current: string, versions: string[]): string | undefined {
+        const includePreRelease = this.isPreRelease(current);
+        return this.sortDescending(versions).find(version =>
+            (includePreRelease || !this.isPreRelease(version)) && this.compare(version, current) > 0
+        );
+    }
+
+    /**
+     * 将版本号拆分为数字与限定符
+     */
+    private static tokenize(version: string): Array<number | string> {
+        const items: Array<number | string> = [];
+        const parts = version.trim().toLowerCase().match(/\d+|[a-z]+/g) ?? [];
+
+        for (const part of parts) {
+            if (/^\d+$/.test(part)) {
+                items.push(parseInt(part, 10));
+            } else {
+                items.push(this.ALIASES[part] ?? part);
+            }
+        }
+
+        // 去掉末尾的 0 与 release 标记，使 1.0 == 1 == 1.0.0-ga
+        while (items.length > 0 && (items[items.length - 1] === 0 || items[items.length - 1] === '')) {
+            items.pop();
+        }
+        return items;
+    }
+
+    private static compareItems(a: number | string | undefined, b: number | string | undefined): number {
+        if (a === undefined && b === undefined) {
+            return 0;
+        }
+        // 缺失部分视为 0（数字）或 release（限定符）
+        if (a === undefined) {
+            return -this.compareItems(b, undefined);
+        }
+        if (b === undefined) {
+            return typeof a === 'number' ? (a > 0 ? 1 : 0) : this.compareQualifiers(a, '');
+        }
+        if (typeof a === 'number' && typeof b === 'number') {
+            return a - b;
+        }
+        // 数字总是比限定符新：1.0.1 > 1.0-rc
+        if (typeof a === 'number') {
+            return 1;
+        }
+        if (typeof b === 'number') {
+            return -1;
+        }
+        return this.compareQualifiers(a, b);
+    }
+
+    private static compareQualifiers(a: string, b: string): number {
+        const indexA = this.qualifierIndex(a);
+        const indexB = this.qualifierIndex(b);
+        if (indexA !== indexB) {
+            return indexA - indexB;
+        }
+        return a < b ? -1 : a > b ? 1 : 0;
+    }
+
+    private static qualifierIndex(qualifier: string): number {
+        const index = this.QUALIFIERS.indexOf(qualifier);
+        return index === -1 ? this.QUALIFIERS.length : index;
+    }
+}
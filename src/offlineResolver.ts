@@ -0,0 +1,348 @@
+import { DependencyNode, ResolvedDependency } from './mavenUtils';
+import { PomDocument, XmlElement } from './pomDocument';
+import { PomHierarchy, PomFile } from './pomHierarchy';
+
+/**
+ * 离线依赖解析器
+ * 不运行 Maven，直接读取工作区与本地仓库中的 POM 计算依赖树：
+ * 支持父 POM、属性、dependencyManagement、BOM import、scope 传递与 exclusions，
+ * 冲突按 Maven 的"最近优先、先声明优先"规则处理。profile 不会被激活
+ */
+export class OfflineResolver {
+    /** 已构建的模型，键为 groupId:artifactId:version，null 表示本地仓库中没有该 POM */
+    private readonly models = new Map<string, Promise<EffectiveModel | null>>();
+
+    private constructor() { }
+
+    /**
+     * 解析依赖树，返回与 MavenUtils.parseDependencyTree 相同结构的数据
+     * @param pomFilePath POM 文件路径
+     */
+    static async resolveDependencyTree(pomFilePath: string): Promise<DependencyNode[]> {
+        const resolver = new OfflineResolver();
+        const file = PomHierarchy.loadPom(pomFilePath);
+        const model = await resolver.buildModel(file, new Set());
+        return [await resolver.resolveTree(model)];
+    }
+
+    /**
+     * 从离线解析的依赖树中收集最终生效的依赖（跳过被省略的节点与项目本身）
+     */
+    static toResolvedDependencies(treeData: DependencyNode[]): ResolvedDependency[] {
+        const dependencies: ResolvedDependency[] = [];
+        const seen = new Set<string>();
+
+        const traverse = (node: DependencyNode) => {
+            if (node.omittedReason) {
+                return;
+            }
+            const key = `${node.groupId}:${node.artifactId}`;
+            if (!seen.has(key)) {
+                seen.add(key);
+                dependencies.push({
+                    groupId: node.groupId,
+                    artifactId: node.artifactId,
+                    type: node.type,
+                    version: node.version,
+                    scope: node.scope,
+                    classifier: node.classifier,
+                    resolvedWithoutMaven: true
+                });
+            }
+            node.children.forEach(traverse);
+        };
+
+        for (const root of treeData) {
+            root.children.forEach(traverse);
+        }
+        return dependencies;
+    }
+
+    /**
+     * 广度优先展开依赖，先到达的 groupId:artifactId 生效，之后的同名节点标记为省略
+     */
+    private async resolveTree(rootModel: EffectiveModel): Promise<DependencyNode> {
+        const root: DependencyNode = {
+            groupId: rootModel.groupId,
+            artifactId: rootModel.artifactId,
+            type: rootModel.packaging,
+            version: rootModel.version,
+            children: [],
+            resolvedWithoutMaven: true
+        };
+
+        const resolvedVersions = new Map<string, string>();
+        let queue: QueueItem[] = rootModel.dependencies.map(dependency => ({
+            parent: root,
+            dependency,
+            scope: dependency.scope ?? 'compile',
+            exclusions: dependency.exclusions,
+            ancestors: new Set<string>()
+        }));
+
+        while (queue.length > 0) {
+            const nextLevel: QueueItem[] = [];
+
+            for (const item of queue) {
+                const { dependency } = item;
+                const key = `${dependency.groupId}:${dependency.artifactId}`;
+                const node: DependencyNode = {
+                    groupId: dependency.groupId,
+                    artifactId: dependency.artifactId,
+                    type: dependency.type,
+                    version: dependency.version ?? '',
+                    scope: item.scope,
+                    classifier: dependency.classifier,
+                    children: []
+                };
+                item.parent.children.push(node);
+
+                const resolvedVersion = resolvedVersions.get(key);
+                if (item.ancestors.has(key)) {
+                    node.omittedReason = 'cycle';
+                    continue;
+                }
+                if (resolvedVersion !== undefined) {
+                    if (resolvedVersion === node.version) {
+                        node.omittedReason = 'duplicate';
+                    } else {
+                        node.omittedReason = 'conflict';
+                        node.conflictVersion = resolvedVersion;
+                    }
+                    continue;
+                }
+                resolvedVersions.set(key, node.version);
+
+                const model = dependency.version
+                    ? await this.getModel(dependency.groupId, dependency.artifactId, dependency.version)
+                    : null;
+                if (!model) {
+                    continue;
+                }
+
+                const ancestors = new Set(item.ancestors).add(key);
+                for (const child of model.dependencies) {
+                    const childScope = child.scope ?? 'compile';
+                    // 只有 compile 与 runtime 依赖会传递，optional 依赖不传递
+                    if (child.optional || (childScope !== 'compile' && childScope !== 'runtime')) {
+                        continue;
+                    }
+                    if (this.isExcluded(child, item.exclusions)) {
+                        continue;
+                    }
+
+                    // 根项目的 dependencyManagement 同样作用于传递依赖
+                    const managed = rootModel.managed.get(this.getManagementKey(child));
+                    nextLevel.push({
+                        parent: node,
+                        dependency: { ...child, version: managed?.version ?? child.version },
+                        scope: this.mediateScope(item.scope, managed?.scope ?? childScope),
+                        exclusions: [...item.exclusions, ...child.exclusions],
+                        ancestors
+                    });
+                }
+            }
+
+            queue = nextLevel;
+        }
+
+        return root;
+    }
+
+    private getModel(groupId: string, artifactId: string, version: string): Promise<EffectiveModel | null> {
+        const key = `${groupId}:${artifactId}:${version}`;
+        let model = this.models.get(key);
+        if (!model) {
+            model = this.loadModel(groupId, artifactId, version);
+            this.models.set(key, model);
+        }
+        return model;
+    }
+
+    private async loadModel(groupId: string, artifactId: string, version: string): Promise<EffectiveModel | null> {
+        // 工作区中版本一致的模块优先（相当于 reactor 中的模块），其次是本地仓库
+        const file = await PomHierarchy.findPom(groupId, artifactId, version);
+        if (!file) {
+            console.warn(`[OfflineResolver] 本地仓库中没有 ${groupId}:${artifactId}:${version} 的 POM`);
+            return null;
+        }
+
+        try {
+            return await this.buildModel(file, new Set());
+        } catch (error) {
+            console.warn(`[OfflineResolver] 解析 POM 失败: ${file.path}`, error);
+            return null;
+        }
+    }
+
+    /**
+     * 构建有效模型：合并继承链上的属性、依赖与 dependencyManagement，展开 BOM import，
+     * 再用 dependencyManagement 补全依赖的版本与 scope
+     * @param importing 正在展开的 BOM，用于避免循环 import
+     */
+    private async buildModel(file: PomFile, importing: Set<string>): Promise<EffectiveModel> {
+        const chain = await PomHierarchy.resolveChain(file.path, file.pom);
+        // 从最顶层的父 POM 开始合并，子 POM 覆盖父 POM
+        const topDown = [...chain].reverse();
+
+        const properties = new Map<string, string>();
+        for (const { pom } of topDown) {
+            pom.properties.forEach((value, name) => properties.set(name, value));
+        }
+        const interpolate = (value: string | undefined): string | undefined => {
+            let result = value;
+            // 属性值可以引用其他属性，最多展开 10 层
+            for (let i = 0; i < 10 && result?.includes('${'); i++) {
+                result = result.replace(/\$\{([^}]+)\}/g, (placeholder, name: string) =>
+                    PomHierarchy.getBuiltinProperty(file.pom, name) ?? properties.get(name) ?? placeholder
+                );
+            }
+            return result;
+        };
+
+        const dependencies = new Map<string, ModelDependency>();
+        const managed = new Map<string, ModelDependency>();
+        const imports: ModelDependency[] = [];
+        for (const { pom } of topDown) {
+            for (const element of PomDocument.childElements(PomDocument.child(pom.project, 'dependencies'), 'dependency')) {
+                const dependency = this.readDependency(element, interpolate);
+                dependencies.set(this.getManagementKey(dependency), dependency);
+            }
+            const managedElements = PomDocument.childElements(
+                PomDocument.child(pom.project, 'dependencyManagement', 'dependencies'),
+                'dependency'
+            );
+            for (const element of managedElements) {
+                const dependency = this.readDependency(element, interpolate);
+                if (dependency.scope === 'import' && dependency.type === 'pom') {
+                    imports.push(dependency);
+                } else {
+                    managed.set(this.getManagementKey(dependency), dependency);
+                }
+            }
+        }
+
+        // BOM 中的条目不会覆盖已有的托管版本，先 import 的 BOM 优先
+        for (const bom of imports) {
+            const bomKey = `${bom.groupId}:${bom.artifactId}:${bom.version}`;
+            if (!bom.version || importing.has(bomKey)) {
+                continue;
+            }
+            const bomFile = await PomHierarchy.findPom(bom.groupId, bom.artifactId, bom.version);
+            if (!bomFile) {
+                console.warn(`[OfflineResolver] 找不到 BOM: ${bomKey}`);
+                continue;
+            }
+            const bomModel = await this.buildModel(bomFile, new Set(importing).add(bomKey));
+            bomModel.managed.forEach((dependency, key) => {
+                if (!managed.has(key)) {
+                    managed.set(key, dependency);
+                }
+            });
+        }
+
+        const effectiveDependencies = [...dependencies.values()].map(dependency => {
+            const management = managed.get(this.getManagementKey(dependency));
+            return {
+                ...dependency,
+                version: dependency.version ?? management?.version,
+                scope: dependency.scope ?? management?.scope,
+                exclusions: dependency.exclusions.length > 0 ? dependency.exclusions : management?.exclusions ?? []
+            };
+        });
+
+        return {
+            groupId: file.pom.groupId ?? '',
+            artifactId: file.pom.artifactId ?? '',
+            version: interpolate(file.pom.version) ?? '',
+            packaging: file.pom.packaging,
+            dependencies: effectiveDependencies,
+            managed
+        };
+    }
+
+    private readDependency(element: XmlElement, interpolate: (value: string | undefined) => string | undefined): ModelDependency {
+        const text = (name: string) => interpolate(PomDocument.childText(element, name)) || undefined;
+        const exclusions = PomDocument.childElements(PomDocument.child(element, 'exclusions'), 'exclusion').map(exclusion =>
+            `${interpolate(PomDocument.childText(exclusion, 'groupId')) ?? '*'}:${interpolate(PomDocument.childText(exclusion, 'artifactId')) ?? '*'}`
+        );
+        return {
+            groupId: text('groupId') ?? '',
+            artifactId: text('artifactId') ?? '',
+            version: text('version'),
+            scope: text('scope'),
+            type: text('type') ?? 'jar',
+            classifier: text('classifier'),
+            optional: text('optional') === 'true',
+            exclusions
+        };
+    }
+
+    /**
+     * dependencyManagement 按 groupId:artifactId:type:classifier 匹配
+     */
+    private getManagementKey(dependency: ModelDependency): string {
+        return `${dependency.groupId}:${dependency.artifactId}:${dependency.type}:${dependency.classifier ?? ''}`;
+    }
+
+    private isExcluded(dependency: ModelDependency, exclusions: string[]): boolean {
+        return exclusions.some(exclusion => {
+            const [groupId, artifactId] = exclusion.split(':');
+            return (groupId === '*' || groupId === dependency.groupId) &&
+                (artifactId === '*' || artifactId === dependency.artifactId);
+        });
+    }
+
+    /**
+     * 传递依赖的 scope：compile 依赖保持子依赖的 scope，runtime 依赖将 compile 降为 runtime，
+     * provided 与 test 依赖的子依赖沿用父依赖的 scope
+     */
+    private mediateScope(parentScope: string, childScope: string): string {
+        switch (parentScope) {
+            case 'compile':
+                return childScope;
+            case 'runtime':
+                return 'runtime';
+            default:
+                return parentScope;
+        }
+    }
+}
+
+/**
+ * 合并继承链后的 POM 模型
+ */
+interface EffectiveModel {
+    groupId: string;
+    artifactId: string;
+    version: string;
+    packaging: string;
+    dependencies: ModelDependency[];
+    managed: Map<string, ModelDependency>;
+}
+
+/**
+ * 模型中的依赖（属性已展开）
+ */
+interface ModelDependency {
+    groupId: string;
+    artifactId: string;
+    version?: string;
+    scope?: string;
+    type: string;
+    classifier?: string;
+    optional: boolean;
+    /** groupId:artifactId 形式，支持 * 通配 */
+    exclusions: string[];
+}
+
+/**
+ * 待展开的依赖
+ */
+interface QueueItem {
+    parent: DependencyNode;
+    dependency: ModelDependency;
+    scope: string;
+    exclusions: string[];
+    ancestors: Set<string>;
+}
@@ -0,0 +1,205 @@
+import * as vscode from 'vscode';
+import { MavenUtils } from './mavenUtils';
+import { PomDocument, PomDependency } from './pomDocument';
+import { PomEditUtils } from './pomEdits';
+import { PomHierarchy, PomFile } from './pomHierarchy';
+import { t } from './i18n';
+
+/**
+ * pom.xml 重构操作
+ * 光标位于 <dependency> 中时提供：将版本提取为属性、将版本移到父 POM 的 <dependencyManagement>、
+ * 用同一个属性统一同一 groupId 下所有依赖的版本；编辑在选中操作后才生成，应用前可预览
+ */
+export class PomCodeActionProvider implements vscode.CodeActionProvider<PomRefactorAction> {
+    static readonly providedCodeActionKinds = [
+        vscode.CodeActionKind.RefactorExtract,
+        vscode.CodeActionKind.RefactorMove,
+        vscode.CodeActionKind.RefactorRewrite
+    ];
+
+    async provideCodeActions(document: vscode.TextDocument, range: vscode.Range): Promise<PomRefactorAction[]> {
+        const pom = PomDocument.parse(document.getText());
+        const declaration = pom.findDependencyAt(document.offsetAt(range.start));
+        // 插件的依赖不参与版本托管
+        if (!declaration || declaration.location === 'plugin' || !PomDocument.child(declaration.element, 'version')) {
+            return [];
+        }
+
+        const chain = await PomHierarchy.resolveChain(document.uri.fsPath, pom);
+        const version = PomHierarchy.resolveValue(declaration.version, chain);
+        if (!version || version.includes('${')) {
+            return [];
+        }
+
+        return [
+            this.createExtractAction(document, pom, declaration),
+            this.createMoveAction(document, declaration, version, chain),
+            this.createAlignAction(document, pom, declaration, version)
+        ].filter((action): action is PomRefactorAction => action !== undefined);
+    }
+
+    async resolveCodeAction(action: PomRefactorAction): Promise<PomRefactorAction> {
+        try {
+            action.edit = await action.createEdit();
+        } catch (error: any) {
+            console.error('生成重构编辑失败:', error);
+            vscode.window.showErrorMessage(t('error.refactorFailed', error.message));
+        }
+        return action;
+    }
+
+    /**
+     * 将字面量版本提取为 <artifactId.version> 属性
+     */
+    private createExtractAction(
+        document: vscode.TextDocument,
+        pom: PomDocument,
+        declaration: PomDependency
+    ): PomRefactorAction | undefined {
+        const version = declaration.version!;
+        if (version.includes('${')) {
+            return undefined;
+        }
+
+        // 同名属性已存在且值不同时改用带 groupId 的名称
+        const properties = pom.properties;
+        const name = [`${declaration.artifactId}.version`, `${declaration.groupId}.${declaration.artifactId}.version`]
+            .find(candidate => !properties.has(candidate) || properties.get(candidate) === version);
+        if (!name) {
+            return undefined;
+        }
+
+        return new PomRefactorAction(
+            t('action.extractVersion', name),
+            vscode.CodeActionKind.RefactorExtract,
+            async () => {
+                const edit = new vscode.WorkspaceEdit();
+                this.useProperty(edit, document, declaration, name);
+                if (!properties.has(name)) {
+                    PomEditUtils.createAddPropertyEdit(document, name, version, edit);
+                }
+                return edit;
+            }
+        );
+    }
+
+    /**
+     * 将版本移到 findProjectRootPom 找到的根 POM 的 <dependencyManagement> 中，并删除模块中的 <version>
+     * 根 POM 必须是当前 POM 的祖先，否则其中的托管版本不会生效
+     */
+    private createMoveAction(
+        document: vscode.TextDocument,
+        declaration: PomDependency,
+        version: string,
+        chain: PomFile[]
+    ): PomRefactorAction | undefined {
+        if (declaration.location !== 'dependencies') {
+            return undefined;
+        }
+        const rootPom = MavenUtils.findProjectRootPom(document.uri.fsPath);
+        const rootFile = rootPom ? chain.slice(1).find(file => file.path === rootPom) : undefined;
+        if (!rootFile) {
+            return undefined;
+        }
+
+        // 根 POM 中已托管了其他版本时，移动会改变生效的版本
+        const managed = rootFile.pom.findDependency(declaration.groupId, declaration.artifactId, 'dependencyManagement');
+        const rootChain = chain.slice(chain.indexOf(rootFile));
+        if (managed && PomHierarchy.resolveValue(managed.version, rootChain) !== version) {
+            return undefined;
+        }
+
+        return new PomRefactorAction(
+            t('action.moveVersionToParent', vscode.workspace.asRelativePath(rootFile.path)),
+            vscode.CodeActionKind.RefactorMove,
+            async () => {
+                const edit = new vscode.WorkspaceEdit();
+                if (!managed) {
+                    const rootDocument = await vscode.workspace.openTextDocument(vscode.Uri.file(rootFile.path));
+                    PomEditUtils.createAddDependencyEdit(rootDocument, {
+                        groupId: declaration.groupId,
+                        artifactId: declaration.artifactId,
+                        version,
+                        type: declaration.type,
+                        classifier: declaration.classifier
+                    }, 'dependencyManagement', edit);
+                }
+                PomEditUtils.createRemoveVersionEdit(document, declaration, edit);
+                return edit;
+            }
+        );
+    }
+
+    /**
+     * 用同一个属性统一同一 groupId 下所有依赖的版本，取值为当前依赖的版本
+     * 优先复用这些依赖已经引用的、在本 POM 中声明的属性
+     */
+    private createAlignAction(
+        document: vscode.TextDocument,
+        pom: PomDocument,
+        declaration: PomDependency,
+        version: string
+    ): PomRefactorAction | undefined {
+        const group = pom.getDependencies().filter(dependency =>
+            dependency.location !== 'plugin' &&
+            dependency.groupId === declaration.groupId &&
+            PomDocument.child(dependency.element, 'version')
+        );
+        if (new Set(group.map(dependency => dependency.artifactId)).size < 2) {
+            return undefined;
+        }
+
+        const properties = pom.properties;
+        const referenced = group
+            .map(dependency => dependency.version?.match(/^\$\{([^}]+)\}$/)?.[1])
+            .find(name => name !== undefined && properties.has(name));
+        const name = referenced ?? `${declaration.groupId}.version`;
+        const aligned = group.every(dependency => dependency.version === `\${${name}}`) && properties.get(name) === version;
+        if (aligned) {
+            return undefined;
+        }
+
+        return new PomRefactorAction(
+            t('action.alignGroupVersions', declaration.groupId, name, version),
+            vscode.CodeActionKind.RefactorRewrite,
+            async () => {
+                const edit = new vscode.WorkspaceEdit();
+                for (const dependency of group) {
+                    if (dependency.version !== `\${${name}}`) {
+                        this.useProperty(edit, document, dependency, name);
+                    }
+                }
+                const property = pom.getPropertyDeclarations().find(item => item.name === name && !item.profileId);
+                if (!property) {
+                    PomEditUtils.createAddPropertyEdit(document, name, version, edit);
+                } else if (property.value !== version) {
+                    PomEditUtils.createPropertyValueEdit(document, property, version, edit);
+                }
+                return edit;
+            }
+        );
+    }
+
+    /**
+     * 将依赖的 <version> 改为引用属性
+     */
+    private useProperty(edit: vscode.WorkspaceEdit, document: vscode.TextDocument, dependency: PomDependency, name: string): void {
+        PomEditUtils.replaceContent(edit, document, PomDocument.child(dependency.element, 'version')!, `\${${name}}`, {
+            needsConfirmation: true,
+            label: t('edit.useVersionProperty', dependency.groupId, dependency.artifactId, name)
+        });
+    }
+}
+
+/**
+ * 重构操作，选中后才调用 createEdit 生成编辑
+ */
+class PomRefactorAction extends vscode.CodeAction {
+    constructor(
+        title: string,
+        kind: vscode.CodeActionKind,
+        readonly createEdit: () => Promise<vscode.WorkspaceEdit>
+    ) {
+        super(title, kind);
+    }
+}
@@ -0,0 +1,154 @@
+import * as vscode from 'vscode';
+import { CacheManager } from './cacheManager';
+import { CachedDependencyData, DependencyInsight, DependencyInsights } from './dependencyInsights';
+import { MavenRepository } from './mavenRepository';
+import { MavenVersion } from './mavenVersion';
+import { PomDocument, XmlElement } from './pomDocument';
+import { PomHierarchy } from './pomHierarchy';
+import { t } from './i18n';
+
+/**
+ * pom.xml CodeLens
+ * 在每个 <dependency> 与 <plugin> 上方显示传递依赖数量、版本冲突与可用的新版本；
+ * 数据只来自缓存的依赖树、本次会话查询过的版本与本地仓库，打开文件不会运行 Maven 或访问网络
+ */
+export class PomCodeLensProvider implements vscode.CodeLensProvider, vscode.Disposable {
+    private readonly changeEmitter = new vscode.EventEmitter<void>();
+    private readonly disposables: vscode.Disposable[] = [];
+
+    readonly onDidChangeCodeLenses = this.changeEmitter.event;
+
+    constructor(private readonly cacheManager: CacheManager) {
+        this.disposables.push(
+            this.changeEmitter,
+            // 依赖数据写入缓存后更新传递依赖与冲突数量
+            this.cacheManager.onDidChange(() => this.refresh()),
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('mavenPomEditor.codeLens')) {
+                    this.refresh();
+                }
+            })
+        );
+    }
+
+    dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+
+    /**
+     * 重新计算所有 CodeLens，如查询过新版本之后
+     */
+    refresh(): void {
+        this.changeEmitter.fire();
+    }
+
+    async provideCodeLenses(document: vscode.TextDocument, token: vscode.CancellationToken): Promise<vscode.CodeLens[]> {
+        if (!vscode.workspace.getConfiguration('mavenPomEditor').get<boolean>('codeLens.enabled', true)) {
+            return [];
+        }
+        const pom = PomDocument.parse(document.getText());
+        if (!pom.project) {
+            return [];
+        }
+
+        const chain = await PomHierarchy.resolveChain(document.uri.fsPath, pom);
+        const data = await DependencyInsights.getCachedData(this.cacheManager, document.uri.fsPath);
+        const lenses: vscode.CodeLens[] = [];
+
+        for (const dependency of pom.getDependencies()) {
+            if (token.isCancellationRequested) {
+                return [];
+            }
+            // 插件的依赖不参与项目的依赖解析
+            if (dependency.location === 'plugin') {
+                continue;
+            }
+            const { groupId, artifactId } = dependency;
+            const insight = dependency.location === 'dependencies' && data
+                ? DependencyInsights.describe(data, groupId, artifactId, dependency.classifier)
+                : undefined;
+            const range = this.getRange(document, dependency.element);
+
+            if (dependency.location === 'dependencies' && data) {
+                lenses.push(new vscode.CodeLens(range, {
+                    title: this.getSummary(data, insight),
+                    command: 'mavenPomEditor.showInDependencyHierarchy',
+                    arguments: [document.uri, groupId, artifactId]
+                }));
+            }
+
+            const currentVersion = insight?.version ?? PomHierarchy.resolveValue(dependency.version, chain);
+            lenses.push(await this.createVersionLens(document.uri, range, groupId, artifactId, currentVersion));
+        }
+
+        for (const plugin of pom.getPlugins()) {
+            if (token.isCancellationRequested) {
+                return [];
+            }
+            const currentVersion = PomHierarchy.resolveValue(plugin.version, chain);
+            lenses.push(await this.createVersionLens(
+                document.uri,
+                this.getRange(document, plugin.element),
+                plugin.groupId,
+                plugin.artifactId,
+                currentVersion
+            ));
+        }
+
+        return lenses;
+    }
+
+    /**
+     * 依赖树中的概况，如 "12 transitive · 1 conflict"
+     */
+    private getSummary(data: CachedDependencyData, insight: DependencyInsight | undefined): string {
+        if (!insight) {
+            return t('lens.notInTree');
+        }
+
+        const parts: string[] = [];
+        // 只有已解析依赖列表时无法统计传递依赖
+        if (data.treeData) {
+            parts.push(t('lens.transitive', insight.transitiveCount));
+        }
+        if (insight.conflicts.length === 1) {
+            parts.push(t('lens.conflict'));
+        } else if (insight.conflicts.length > 1) {
+            parts.push(t('lens.conflicts', insight.conflicts.length));
+        }
+        return parts.length > 0 ? parts.join(' · ') : t('hover.showInHierarchy');
+    }
+
+    /**
+     * 版本 CodeLens：有更新的已知版本时显示该版本，点击打开版本选择
+     */
+    private async createVersionLens(
+        uri: vscode.Uri,
+        range: vscode.Range,
+        groupId: string,
+        artifactId: string,
+        currentVersion: string | undefined
+    ): Promise<vscode.CodeLens> {
+        let title = t('lens.checkVersions');
+        if (groupId && artifactId && currentVersion && !currentVersion.includes('${')) {
+            const known = await MavenRepository.getKnownVersions(groupId, artifactId);
+            const newer = MavenVersion.findNewer(currentVersion, known.versions);
+            if (newer) {
+                title = t('lens.newer', newer);
+            } else if (known.remote) {
+                title = t('lens.latest');
+            }
+        }
+
+        return new vscode.CodeLens(range, {
+            title,
+            command: 'mavenPomEditor.checkVersions',
+            arguments: [uri, groupId, artifactId]
+        });
+    }
+
+    private getRange(document: vscode.TextDocument, element: XmlElement): vscode.Range {
+        const position = document.positionAt(element.start);
+        return new vscode.Range(position, position);
+    }
+}
@@ -0,0 +1,188 @@
+import * as vscode from 'vscode';
+import { CacheManager } from './cacheManager';
+import { MavenRepository } from './mavenRepository';
+import { MavenUtils, DependencyNode } from './mavenUtils';
+import { MavenVersion } from './mavenVersion';
+import { PomDocument, XmlElement } from './pomDocument';
+import { PomHierarchy } from './pomHierarchy';
+
+/**
+ * pom.xml 自动补全
+ * groupId、artifactId 来自本地仓库与工作区中缓存的依赖树，版本来自远程与本地仓库（按从新到旧排序），
+ * 以及 <scope>、<type>、<packaging> 的可选值
+ */
+export class PomCompletionProvider implements vscode.CompletionItemProvider {
+    static readonly triggerCharacters = ['>', '.'];
+
+    constructor(private readonly cacheManager: CacheManager) { }
+
+    async provideCompletionItems(
+        document: vscode.TextDocument,
+        position: vscode.Position
+    ): Promise<vscode.CompletionItem[] | undefined> {
+        const pom = PomDocument.parse(document.getText());
+        const offset = document.offsetAt(position);
+        const elementPath = pom.getElementPath(offset);
+        const element = elementPath[elementPath.length - 1];
+        const container = elementPath[elementPath.length - 2];
+        // 只在没有子元素的元素内容中补全
+        if (!element || !container || element.children.length > 0 || offset < element.contentStart ||
+            (element.closed && offset > element.contentEnd)) {
+            return undefined;
+        }
+
+        const range = this.getReplaceRange(document, element, offset);
+        const coordinate = COORDINATE_CONTAINERS.includes(container.name);
+        switch (element.name) {
+            case 'groupId':
+                return coordinate ? this.completeGroupIds(range) : undefined;
+            case 'artifactId':
+                return coordinate ? this.completeArtifactIds(range, PomDocument.childText(container, 'groupId')) : undefined;
+            case 'version':
+                return coordinate && container.name !== 'exclusion'
+                    ? this.completeVersions(document, pom, range, container)
+                    : undefined;
+            case 'scope': {
+                if (container.name !== 'dependency') {
+                    return undefined;
+                }
+                // import 只能用于 <dependencyManagement>
+                const managed = elementPath.some(item => item.name === 'dependencyManagement');
+                return this.completeValues(range, SCOPES.filter(scope => managed || scope !== 'import'));
+            }
+            case 'type':
+                return container.name === 'dependency' ? this.completeValues(range, TYPES) : undefined;
+            case 'packaging':
+                return container === pom.project ? this.completeValues(range, PACKAGINGS) : undefined;
+            default:
+                return undefined;
+        }
+    }
+
+    private async completeGroupIds(range: vscode.Range): Promise<vscode.CompletionItem[]> {
+        const groupIds = new Set((await this.getKnownArtifacts()).map(artifact => artifact.groupId));
+        return [...groupIds].map(groupId => {
+            const item = new vscode.CompletionItem(groupId, vscode.CompletionItemKind.Module);
+            item.range = range;
+            return item;
+        });
+    }
+
+    /**
+     * @param groupId 同一元素中已填写的 groupId，填写了时只补全该 groupId 下的构件
+     */
+    private async completeArtifactIds(range: vscode.Range, groupId: string | undefined): Promise<vscode.CompletionItem[]> {
+        const artifacts = (await this.getKnownArtifacts())
+            .filter(artifact => !groupId || artifact.groupId === groupId);
+        return artifacts.map(artifact => {
+            const item = new vscode.CompletionItem(
+                { label: artifact.artifactId, description: artifact.groupId },
+                vscode.CompletionItemKind.Module
+            );
+            item.detail = artifact.latestVersion ? `${artifact.groupId}:${artifact.artifactId}:${artifact.latestVersion}` : undefined;
+            item.range = range;
+            return item;
+        });
+    }
+
+    private async completeVersions(
+        document: vscode.TextDocument,
+        pom: PomDocument,
+        range: vscode.Range,
+        container: XmlElement
+    ): Promise<vscode.CompletionItem[] | undefined> {
+        const chain = await PomHierarchy.resolveChain(document.uri.fsPath, pom);
+        const artifactId = PomHierarchy.resolveValue(PomDocument.childText(container, 'artifactId'), chain);
+        let groupId = PomHierarchy.resolveValue(PomDocument.childText(container, 'groupId'), chain);
+        if (!groupId && container.name === 'plugin') {
+            groupId = 'org.apache.maven.plugins';
+        }
+        if (!groupId || !artifactId || groupId.includes('${') || artifactId.includes('${')) {
+            return undefined;
+        }
+
+        const versions = await MavenRepository.getRepositoryVersions(groupId, artifactId);
+        const details = new Map(versions.map(version => [version.version, version]));
+        return MavenVersion.sortDescending([...details.keys()]).map((version, index) => {
+            const info = details.get(version)!;
+            const item = new vscode.CompletionItem(
+                { label: version, description: info.source },
+                vscode.CompletionItemKind.Constant
+            );
+            item.detail = info.timestamp;
+            // 保持从新到旧的顺序，不按字母排序
+            item.sortText = String(index).padStart(5, '0');
+            item.preselect = index === 0;
+            item.range = range;
+            return item;
+        });
+    }
+
+    private completeValues(range: vscode.Range, values: string[]): vscode.CompletionItem[] {
+        return values.map((value, index) => {
+            const item = new vscode.CompletionItem(value, vscode.CompletionItemKind.EnumMember);
+            item.sortText = String(index).padStart(2, '0');
+            item.range = range;
+            return item;
+        });
+    }
+
+    /**
+     * 本地仓库中的构件，加上工作区各 POM 缓存的依赖树中出现过的构件
+     */
+    private async getKnownArtifacts(): Promise<KnownArtifact[]> {
+        const artifacts = new Map<string, KnownArtifact>();
+        for (const artifact of await MavenRepository.getLocalArtifactIndex()) {
+            artifacts.set(`${artifact.groupId}:${artifact.artifactId}`, artifact);
+        }
+
+        const workspaceIndex = await PomHierarchy.getWorkspaceIndex();
+        for (const pomPath of [...workspaceIndex.values()].flat()) {
+            const treeData: DependencyNode[] | null = await this.cacheManager.get(pomPath, 'dependencyTree');
+            if (!treeData) {
+                continue;
+            }
+            for (const dependency of MavenUtils.flattenDependencyTree(treeData.flatMap(root => root.children))) {
+                const key = `${dependency.groupId}:${dependency.artifactId}`;
+                if (!artifacts.has(key)) {
+                    artifacts.set(key, {
+                        groupId: dependency.groupId,
+                        artifactId: dependency.artifactId,
+                        latestVersion: dependency.version
+                    });
+                }
+            }
+        }
+        return [...artifacts.values()];
+    }
+
+    /**
+     * 替换范围：元素内容中光标所在行的部分（补全范围不能跨行）
+     */
+    private getReplaceRange(document: vscode.TextDocument, element: XmlElement, offset: number): vscode.Range {
+        const prefix = document.getText().substring(element.contentStart, offset);
+        const start = offset - prefix.substring(prefix.lastIndexOf('\n') + 1).trimStart().length;
+
+        let end = offset;
+        if (element.closed) {
+            const suffix = document.getText().substring(offset, element.contentEnd);
+            end = offset + suffix.split('\n')[0].trimEnd().length;
+        }
+        return new vscode.Range(document.positionAt(start), document.positionAt(end));
+    }
+}
+
+interface KnownArtifact {
+    groupId: string;
+    artifactId: string;
+    latestVersion?: string;
+}
+
+/** 包含 groupId/artifactId/version 坐标的元素 */
+const COORDINATE_CONTAINERS = ['dependency', 'plugin', 'parent', 'extension', 'exclusion'];
+
+const SCOPES = ['compile', 'provided', 'runtime', 'test', 'system', 'import'];
+
+const TYPES = ['jar', 'pom', 'war', 'ear', 'ejb', 'ejb-client', 'rar', 'test-jar', 'maven-plugin', 'java-source', 'javadoc'];
+
+const PACKAGINGS = ['jar', 'pom', 'war', 'ear', 'ejb', 'rar', 'maven-plugin', 'maven-archetype'];
@@ -0,0 +1,88 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import { MavenUtils } from './mavenUtils';
+import { PomDocument, XmlElement } from './pomDocument';
+import { PomHierarchy, PomFile } from './pomHierarchy';
+
+/**
+ * pom.xml 跳转到定义
+ * ${property} 跳转到声明它的 <properties> 条目（包括父 POM 中的声明），
+ * <parent> 跳转到父 POM（工作区中按 relativePath 或坐标查找，其次是本地仓库），<module> 跳转到模块的 pom.xml
+ */
+export class PomDefinitionProvider implements vscode.DefinitionProvider {
+    async provideDefinition(document: vscode.TextDocument, position: vscode.Position): Promise<vscode.LocationLink[] | undefined> {
+        const pom = PomDocument.parse(document.getText());
+        const offset = document.offsetAt(position);
+        const toRange = (start: number, end: number) => new vscode.Range(document.positionAt(start), document.positionAt(end));
+
+        const reference = pom.findPropertyReferences().find(item => offset >= item.start && offset < item.end);
+        if (reference) {
+            const chain = await PomHierarchy.resolveChain(document.uri.fsPath, pom);
+            return this.findPropertyDeclarations(reference.name, chain)
+                .map(({ file, element }) => this.toLink(toRange(reference.start, reference.end), file, element));
+        }
+
+        const elementPath = pom.getElementPath(offset);
+        if (elementPath[0] === pom.project && elementPath[1]?.name === 'parent') {
+            const parentElement = elementPath[1];
+            const parentFile = await PomHierarchy.findParentPom({ path: document.uri.fsPath, pom });
+            return parentFile
+                ? [this.toLink(toRange(parentElement.start, parentElement.end), parentFile, this.getProjectTarget(parentFile))]
+                : undefined;
+        }
+
+        const module = elementPath[elementPath.length - 1];
+        if (module?.name === 'module' && elementPath[elementPath.length - 2]?.name === 'modules' && module.text) {
+            const modulePomPath = MavenUtils.resolveModulePath(document.uri.fsPath, module.text);
+            if (!fs.existsSync(modulePomPath)) {
+                return undefined;
+            }
+            const moduleFile = PomHierarchy.loadPom(modulePomPath);
+            return [this.toLink(toRange(module.contentStart, module.contentEnd), moduleFile, this.getProjectTarget(moduleFile))];
+        }
+
+        return undefined;
+    }
+
+    /**
+     * 查找属性声明：返回继承链中最近的项目级声明；只在 profile 中声明时返回所有 profile 中的声明
+     */
+    private findPropertyDeclarations(name: string, chain: PomFile[]): Array<{ file: PomFile; element: XmlElement }> {
+        const declarations = chain.flatMap(file => file.pom.getPropertyDeclarations()
+            .filter(property => property.name === name)
+            .map(property => ({ file, element: property.element, profileId: property.profileId })));
+        const effective = declarations.find(declaration => !declaration.profileId);
+        return effective ? [effective] : declarations;
+    }
+
+    /**
+     * 跳转到 POM 时定位到项目的 <artifactId>
+     */
+    private getProjectTarget(file: PomFile): XmlElement | undefined {
+        return PomDocument.child(file.pom.project, 'artifactId') ?? file.pom.project;
+    }
+
+    /**
+     * @param target 目标元素，为 undefined 时跳转到文件开头
+     */
+    private toLink(originSelectionRange: vscode.Range, file: PomFile, target: XmlElement | undefined): vscode.LocationLink {
+        const targetRange = target
+            ? new vscode.Range(toPosition(file.pom.text, target.start), toPosition(file.pom.text, target.end))
+            : new vscode.Range(0, 0, 0, 0);
+        return {
+            originSelectionRange,
+            targetUri: vscode.Uri.file(file.path),
+            targetRange,
+            targetSelectionRange: new vscode.Range(targetRange.start, targetRange.start)
+        };
+    }
+}
+
+/**
+ * 将文本偏移量转换为行列位置（目标文件不一定已在编辑器中打开）
+ */
+function toPosition(text: string, offset: number): vscode.Position {
+    const before = text.substring(0, offset);
+    const line = before.split('\n').length - 1;
+    return new vscode.Position(line, offset - (before.lastIndexOf('\n') + 1));
+}
@@ -0,0 +1,328 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import { CacheManager } from './cacheManager';
+import { MavenUtils, DependencyNode } from './mavenUtils';
+import { PomDocument, XmlElement } from './pomDocument';
+import { PomHierarchy, PomFile } from './pomHierarchy';
+import { t } from './i18n';
+
+/**
+ * POM 诊断提供者
+ * 在打开和保存 pom.xml 时检查常见问题，并在"问题"面板中标注到对应的 XML 位置
+ */
+export class PomDiagnosticProvider implements vscode.Disposable {
+    static readonly source = 'Maven POM';
+
+    private readonly diagnostics = vscode.languages.createDiagnosticCollection('mavenPom');
+    private readonly disposables: vscode.Disposable[] = [];
+
+    constructor(private readonly cacheManager: CacheManager) {
+        this.disposables.push(
+            this.diagnostics,
+            vscode.workspace.onDidOpenTextDocument(document => this.update(document)),
+            vscode.workspace.onDidSaveTextDocument(document => this.update(document)),
+            vscode.workspace.onDidCloseTextDocument(document => this.diagnostics.delete(document.uri)),
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('mavenPomEditor.diagnostics')) {
+                    this.updateAll();
+                }
+            }),
+            // 依赖树缓存更新后重新检查版本冲突
+            this.cacheManager.onDidChange(event => {
+                if (event.cacheKey !== 'dependencyTree') {
+                    return;
+                }
+                const document = vscode.workspace.textDocuments.find(item => item.uri.fsPath === event.pomPath);
+                if (document) {
+                    this.update(document);
+                }
+            })
+        );
+        this.updateAll();
+    }
+
+    dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+
+    /**
+     * 检查所有已打开的 pom.xml
+     */
+    updateAll(): void {
+        vscode.workspace.textDocuments.forEach(document => this.update(document));
+    }
+
+    /**
+     * 检查 pom.xml 并更新其诊断信息，其他文件忽略
+     */
+    async update(document: vscode.TextDocument): Promise<void> {
+        if (document.uri.scheme !== 'file' || !document.fileName.endsWith('pom.xml')) {
+            return;
+        }
+
+        try {
+            const diagnostics = await this.check(document);
+            // 检查期间文档可能已关闭
+            if (vscode.workspace.textDocuments.includes(document)) {
+                this.diagnostics.set(document.uri, diagnostics);
+            }
+        } catch (error) {
+            console.warn(`检查 POM 失败: ${document.fileName}`, error);
+        }
+    }
+
+    private async check(document: vscode.TextDocument): Promise<vscode.Diagnostic[]> {
+        const pomPath = document.uri.fsPath;
+        const pom = PomDocument.parse(document.getText());
+        if (!pom.project) {
+            return [];
+        }
+
+        const chain = await PomHierarchy.resolveChain(pomPath, pom);
+        // 找不到某个父 POM 时，其中可能声明了属性或托管版本，相关检查不可靠
+        const chainComplete = !chain[chain.length - 1].pom.parent;
+        const results: CheckResult[] = [
+            ...this.checkDuplicateDependencies(pom),
+            ...this.checkModules(pomPath, pom),
+            ...this.checkSnapshotVersions(pom, chain)
+        ];
+        if (chainComplete) {
+            results.push(...this.checkUndefinedProperties(pom, chain));
+            if ((await PomHierarchy.findMissingBoms(chain)).length === 0) {
+                results.push(...await this.checkMissingVersions(pom, chain));
+            }
+        }
+        results.push(...await this.checkVersionConflicts(pomPath, pom));
+
+        const diagnostics: vscode.Diagnostic[] = [];
+        for (const result of results) {
+            const severity = this.getSeverity(result.check);
+            if (severity === undefined) {
+                continue;
+            }
+            const diagnostic = new vscode.Diagnostic(
+                new vscode.Range(document.positionAt(result.start), document.positionAt(result.end)),
+                result.message,
+                severity
+            );
+            diagnostic.source = PomDiagnosticProvider.source;
+            diagnostic.code = result.check;
+            diagnostics.push(diagnostic);
+        }
+        return diagnostics;
+    }
+
+    /**
+     * 同一区段（项目或同一 profile 的 <dependencies>、<dependencyManagement>）中重复声明的依赖
+     */
+    private checkDuplicateDependencies(pom: PomDocument): CheckResult[] {
+        const results: CheckResult[] = [];
+        const seen = new Map<string, XmlElement>();
+        for (const dependency of pom.getDependencies()) {
+            if (dependency.location === 'plugin') {
+                continue;
+            }
+            const coordinate = [dependency.groupId, dependency.artifactId, dependency.type ?? 'jar', dependency.classifier ?? '']
+                .join(':');
+            const key = `${dependency.location}:${dependency.profileId ?? ''}:${coordinate}`;
+            const first = seen.get(key);
+            if (!first) {
+                seen.set(key, dependency.element);
+                continue;
+            }
+            results.push({
+                check: 'duplicateDependency',
+                ...this.getRange(PomDocument.child(dependency.element, 'artifactId') ?? dependency.element),
+                message: t('diag.duplicateDependency', `${dependency.groupId}:${dependency.artifactId}`, this.getLine(pom, first.start))
+            });
+        }
+        return results;
+    }
+
+    /**
+     * 没有写版本、继承链与 BOM 中也没有托管版本的依赖
+     */
+    private async checkMissingVersions(pom: PomDocument, chain: PomFile[]): Promise<CheckResult[]> {
+        const results: CheckResult[] = [];
+        for (const dependency of pom.getDependencies()) {
+            if (dependency.location !== 'dependencies' || dependency.version) {
+                continue;
+            }
+            if (await PomHierarchy.findManagedDependency(chain, dependency.groupId, dependency.artifactId)) {
+                continue;
+            }
+            results.push({
+                check: 'missingVersion',
+                ...this.getRange(PomDocument.child(dependency.element, 'artifactId') ?? dependency.element),
+                message: t('diag.missingVersion', `${dependency.groupId}:${dependency.artifactId}`)
+            });
+        }
+        return results;
+    }
+
+    /**
+     * 继承链中没有定义、也不是 Maven 内置属性的 ${...} 引用
+     */
+    private checkUndefinedProperties(pom: PomDocument, chain: PomFile[]): CheckResult[] {
+        const defined = new Set(chain.flatMap(file => file.pom.getPropertyDeclarations().map(property => property.name)));
+        return pom.findPropertyReferences()
+            .filter(reference => !defined.has(reference.name) && !isBuiltinProperty(reference.name))
+            .map((reference): CheckResult => ({
+                check: 'undefinedProperty',
+                start: reference.start,
+                end: reference.end,
+                message: t('diag.undefinedProperty', reference.name)
+            }));
+    }
+
+    /**
+     * 正式版本的项目引用了 SNAPSHOT 版本的父 POM 或依赖
+     */
+    private checkSnapshotVersions(pom: PomDocument, chain: PomFile[]): CheckResult[] {
+        const projectVersion = PomHierarchy.resolveValue(pom.version, chain);
+        if (!projectVersion || projectVersion.includes('${') || isSnapshot(projectVersion)) {
+            return [];
+        }
+
+        const versionElements: Array<[string, XmlElement | undefined]> = [];
+        const parent = pom.parent;
+        if (parent) {
+            versionElements.push([`${parent.groupId}:${parent.artifactId}`, PomDocument.child(parent.element, 'version')]);
+        }
+        for (const dependency of pom.getDependencies()) {
+            versionElements.push([`${dependency.groupId}:${dependency.artifactId}`, PomDocument.child(dependency.element, 'version')]);
+        }
+
+        const results: CheckResult[] = [];
+        for (const [coordinate, element] of versionElements) {
+            const version = element && PomHierarchy.resolveValue(element.text, chain);
+            if (version && isSnapshot(version)) {
+                results.push({
+                    check: 'snapshotDependency',
+                    ...this.getRange(element),
+                    message: t('diag.snapshotDependency', coordinate, version, projectVersion)
+                });
+            }
+        }
+        return results;
+    }
+
+    /**
+     * 指向不存在的目录（或目录中没有 pom.xml）的 <module>
+     */
+    private checkModules(pomPath: string, pom: PomDocument): CheckResult[] {
+        const results: CheckResult[] = [];
+        for (const module of pom.getModuleDeclarations()) {
+            if (!fs.existsSync(MavenUtils.resolveModulePath(pomPath, module.name))) {
+                results.push({
+                    check: 'missingModule',
+                    ...this.getRange(module.element),
+                    message: t('diag.missingModule', module.name)
+                });
+            }
+        }
+        return results;
+    }
+
+    /**
+     * 缓存的依赖树中的版本冲突，标注在引入落选版本的直接依赖上；没有缓存时不检查，避免在打开文件时运行 Maven
+     */
+    private async checkVersionConflicts(pomPath: string, pom: PomDocument): Promise<CheckResult[]> {
+        const treeData: DependencyNode[] | null = await this.cacheManager.get(pomPath, 'dependencyTree');
+        if (!treeData) {
+            return [];
+        }
+
+        const results: CheckResult[] = [];
+        for (const conflict of MavenUtils.findConflicts(treeData)) {
+            const coordinate = `${conflict.groupId}:${conflict.artifactId}`;
+            const reported = new Set<string>();
+            for (const request of conflict.requests) {
+                const direct = request.path[0];
+                const key = `${direct.groupId}:${direct.artifactId}:${request.version}`;
+                if (!request.omitted || reported.has(key)) {
+                    continue;
+                }
+                reported.add(key);
+
+                const declaration = pom.findDependency(direct.groupId, direct.artifactId);
+                if (!declaration) {
+                    continue;
+                }
+                results.push({
+                    check: 'versionConflict',
+                    ...this.getRange(PomDocument.child(declaration.element, 'artifactId') ?? declaration.element),
+                    message: request.path.length > 1
+                        ? t('diag.transitiveVersionConflict', coordinate, request.version, conflict.resolvedVersion)
+                        : t('diag.versionConflict', coordinate, request.version, conflict.resolvedVersion)
+                });
+            }
+        }
+        return results;
+    }
+
+    /**
+     * 读取检查的严重级别，设置为 off 时返回 undefined
+     */
+    private getSeverity(check: DiagnosticCheck): vscode.DiagnosticSeverity | undefined {
+        const config = vscode.workspace.getConfiguration('mavenPomEditor.diagnostics');
+        switch (config.get<string>(check, DEFAULT_SEVERITIES[check])) {
+            case 'error':
+                return vscode.DiagnosticSeverity.Error;
+            case 'warning':
+                return vscode.DiagnosticSeverity.Warning;
+            case 'information':
+                return vscode.DiagnosticSeverity.Information;
+            case 'hint':
+                return vscode.DiagnosticSeverity.Hint;
+            default:
+                return undefined;
+        }
+    }
+
+    private getRange(element: XmlElement): { start: number; end: number } {
+        return { start: element.start, end: element.end };
+    }
+
+    private getLine(pom: PomDocument, offset: number): number {
+        return pom.text.substring(0, offset).split('\n').length;
+    }
+}
+
+/**
+ * 诊断检查项，同时作为诊断的 code 与严重级别设置的名称
+ */
+export type DiagnosticCheck =
+    | 'duplicateDependency'
+    | 'missingVersion'
+    | 'undefinedProperty'
+    | 'snapshotDependency'
+    | 'missingModule'
+    | 'versionConflict';
+
+interface CheckResult {
+    check: DiagnosticCheck;
+    start: number;
+    end: number;
+    message: string;
+}
+
+const DEFAULT_SEVERITIES: Record<DiagnosticCheck, string> = {
+    duplicateDependency: 'warning',
+    missingVersion: 'error',
+    undefinedProperty: 'warning',
+    snapshotDependency: 'warning',
+    missingModule: 'error',
+    versionConflict: 'information'
+};
+
+/** Maven 内置或由运行环境提供的属性前缀 */
+const BUILTIN_PROPERTY_PREFIXES = ['project.', 'pom.', 'settings.', 'env.', 'maven.', 'java.', 'os.', 'user.', 'file.', 'line.', 'path.'];
+
+function isBuiltinProperty(name: string): boolean {
+    return name === 'basedir' || BUILTIN_PROPERTY_PREFIXES.some(prefix => name.startsWith(prefix));
+}
+
+function isSnapshot(version: string): boolean {
+    return version.endsWith('SNAPSHOT');
+}
@@ -0,0 +1,592 @@
+import * as fs from 'fs';
+
+/**
+ * POM 文档模型
+ * 一次性解析 pom.xml，保留每个元素在源文本中的位置；
+ * 注释中的内容不会被当作元素，定位、模块识别与编辑功能都基于此模型
+ */
+export class PomDocument {
+    /** 根元素 <project>，文件为空或不是 POM 时为 undefined */
+    readonly project: XmlElement | undefined;
+
+    private constructor(readonly text: string, readonly roots: XmlElement[]) {
+        this.project = roots.find(element => element.name === 'project');
+    }
+
+    /**
+     * 解析 POM 文本
+     * 解析是容错的：未闭合的元素在父元素结束处（或文件末尾）截断，多余的结束标签会被忽略
+     */
+    static parse(text: string): PomDocument {
+        return new PomDocument(text, parseXml(text));
+    }
+
+    /**
+     * 读取并解析 POM 文件
+     */
+    static load(pomFilePath: string): PomDocument {
+        return this.parse(fs.readFileSync(pomFilePath, 'utf-8'));
+    }
+
+    /**
+     * 按路径查找第一个匹配的子孙元素
+     * @param element 起始元素
+     * @param names 逐级的元素名称
+     */
+    static child(element: XmlElement | undefined, ...names: string[]): XmlElement | undefined {
+        let current = element;
+        for (const name of names) {
+            current = current?.children.find(child => child.name === name);
+        }
+        return current;
+    }
+
+    /**
+     * 返回指定名称的直接子元素
+     */
+    static childElements(element: XmlElement | undefined, name: string): XmlElement[] {
+        return element ? element.children.filter(child => child.name === name) : [];
+    }
+
+    /**
+     * 读取直接子元素的文本内容
+     */
+    static childText(element: XmlElement | undefined, name: string): string | undefined {
+        return this.child(element, name)?.text;
+    }
+
+    /**
+     * <parent> 段的坐标
+     */
+    get parent(): PomParent | undefined {
+        const element = PomDocument.child(this.project, 'parent');
+        if (!element) {
+            return undefined;
+        }
+        return {
+            groupId: PomDocument.childText(element, 'groupId'),
+            artifactId: PomDocument.childText(element, 'artifactId'),
+            version: PomDocument.childText(element, 'version'),
+            relativePath: PomDocument.childText(element, 'relativePath'),
+            element
+        };
+    }
+
+    /** groupId，未声明时继承 <parent> 的 groupId */
+    get groupId(): string | undefined {
+        return PomDocument.childText(this.project, 'groupId') ?? this.parent?.groupId;
+    }
+
+    /** 项目自身的 artifactId（不会取到 <parent> 中的 artifactId） */
+    get artifactId(): string | undefined {
+        return PomDocument.childText(this.project, 'artifactId');
+    }
+
+    /** version，未声明时继承 <parent> 的 version */
+    get version(): string | undefined {
+        return PomDocument.childText(this.project, 'version') ?? this.parent?.version;
+    }
+
+    get packaging(): string {
+        return PomDocument.childText(this.project, 'packaging') ?? 'jar';
+    }
+
+    /**
+     * 声明的子模块路径，包含各 profile 中声明的模块
+     */
+    get modules(): string[] {
+        return [...new Set(this.getModuleDeclarations().map(module => module.name))];
+    }
+
+    /**
+     * <profiles> 中声明的 profile
+     */
+    get profiles(): PomProfile[] {
+        return PomDocument.childElements(PomDocument.child(this.project, 'profiles'), 'profile').map(element => ({
+            id: PomDocument.childText(element, 'id') ?? '',
+            element
+        }));
+    }
+
+    /**
+     * 项目级 <properties> 中定义的属性
+     */
+    get properties(): Map<string, string> {
+        const properties = new Map<string, string>();
+        for (const property of PomDocument.child(this.project, 'properties')?.children ?? []) {
+            properties.set(property.name, property.text);
+        }
+        return properties;
+    }
+
+    /**
+     * 查找项目级 <properties> 中的属性元素
+     */
+    findProperty(name: string): XmlElement | undefined {
+        return PomDocument.child(this.project, 'properties', name);
+    }
+
+    /**
+     * 收集 POM 中所有的 <dependency>，包括 dependencyManagement、profile 与插件中的依赖
+     */
+    getDependencies(): PomDependency[] {
+        const dependencies: PomDependency[] = [];
+        const collect = (container: XmlElement | undefined, location: DependencyLocation, profileId?: string) => {
+            for (const element of PomDocument.childElements(PomDocument.child(container, 'dependencies'), 'dependency')) {
+                dependencies.push({
+                    groupId: PomDocument.childText(element, 'groupId') ?? '',
+                    artifactId: PomDocument.childText(element, 'artifactId') ?? '',
+                    version: PomDocument.childText(element, 'version'),
+                    scope: PomDocument.childText(element, 'scope'),
+                    type: PomDocument.childText(element, 'type'),
+                    classifier: PomDocument.childText(element, 'classifier'),
+                    element,
+                    location,
+                    profileId
+                });
+            }
+        };
+        const collectBuild = (build: XmlElement | undefined, profileId?: string) => {
+            const plugins = [
+                ...PomDocument.childElements(PomDocument.child(build, 'plugins'), 'plugin'),
+                ...PomDocument.childElements(PomDocument.child(build, 'pluginManagement', 'plugins'), 'plugin')
+            ];
+            for (const plugin of plugins) {
+                collect(plugin, 'plugin', profileId);
+            }
+        };
+
+        collect(this.project, 'dependencies');
+        collect(PomDocument.child(this.project, 'dependencyManagement'), 'dependencyManagement');
+        collectBuild(PomDocument.child(this.project, 'build'));
+        for (const profile of this.profiles) {
+            collect(profile.element, 'dependencies', profile.id);
+            collect(PomDocument.child(profile.element, 'dependencyManagement'), 'dependencyManagement', profile.id);
+            collectBuild(PomDocument.child(profile.element, 'build'), profile.id);
+        }
+
+        return dependencies;
+    }
+
+    /**
+     * 查找依赖声明，优先返回项目级声明，其次是 profile 中的声明
+     * @param groupId 依赖的 groupId
+     * @param artifactId 依赖的 artifactId
+     * @param location 依赖所在区段，默认为项目 <dependencies>
+     */
+    findDependency(
+        groupId: string,
+        artifactId: string,
+        location: DependencyLocation = 'dependencies'
+    ): PomDependency | undefined {
+        const matches = this.getDependencies().filter(dependency =>
+            dependency.location === location &&
+            dependency.groupId === groupId &&
+            dependency.artifactId === artifactId
+        );
+        return matches.find(dependency => dependency.profileId === undefined) ?? matches[0];
+    }
+
+    /**
+     * 收集 <build> 中的 <plugin>，包括 pluginManagement 与 profile 中的插件
+     */
+    getPlugins(): PomPlugin[] {
+        const plugins: PomPlugin[] = [];
+        const collect = (build: XmlElement | undefined, profileId?: string) => {
+            const sections: Array<[XmlElement | undefined, PomPlugin['location']]> = [
+                [PomDocument.child(build, 'plugins'), 'plugins'],
+                [PomDocument.child(build, 'pluginManagement', 'plugins'), 'pluginManagement']
+            ];
+            for (const [container, location] of sections) {
+                for (const element of PomDocument.childElements(container, 'plugin')) {
+                    plugins.push({
+                        // 省略 groupId 时 Maven 使用 org.apache.maven.plugins
+                        groupId: PomDocument.childText(element, 'groupId') ?? 'org.apache.maven.plugins',
+                        artifactId: PomDocument.childText(element, 'artifactId') ?? '',
+                        version: PomDocument.childText(element, 'version'),
+                        element,
+                        location,
+                        profileId
+                    });
+                }
+            }
+        };
+
+        collect(PomDocument.child(this.project, 'build'));
+        for (const profile of this.profiles) {
+            collect(PomDocument.child(profile.element, 'build'), profile.id);
+        }
+        return plugins;
+    }
+
+    /**
+     * 收集 <modules> 中声明的模块，包括各 profile 中声明的模块（空的 <module> 不计入）
+     */
+    getModuleDeclarations(): PomModule[] {
+        const declarations: PomModule[] = [];
+        const collect = (container: XmlElement | undefined, profileId?: string) => {
+            for (const element of PomDocument.childElements(PomDocument.child(container, 'modules'), 'module')) {
+                if (element.text) {
+                    declarations.push({ name: element.text, element, profileId });
+                }
+            }
+        };
+
+        collect(this.project);
+        for (const profile of this.profiles) {
+            collect(profile.element, profile.id);
+        }
+        return declarations;
+    }
+
+    /**
+     * 收集 <properties> 中声明的属性，包括各 profile 中声明的属性
+     */
+    getPropertyDeclarations(): PomProperty[] {
+        const declarations: PomProperty[] = [];
+        const collect = (container: XmlElement | undefined, profileId?: string) => {
+            for (const element of PomDocument.child(container, 'properties')?.children ?? []) {
+                declarations.push({ name: element.name, value: element.text, element, profileId });
+            }
+        };
+
+        collect(this.project);
+        for (const profile of this.profiles) {
+            collect(profile.element, profile.id);
+        }
+        return declarations;
+    }
+
+    /**
+     * 查找文档中所有的 ${...} 属性引用，注释中的引用不计入
+     */
+    findPropertyReferences(): PropertyReference[] {
+        const references: PropertyReference[] = [];
+        const scan = (from: number, to: number) => {
+            // 注释替换为等长的空白，保持偏移量不变
+            const segment = this.text.substring(from, to).replace(/<!--[\s\S]*?-->/g, comment => ' '.repeat(comment.length));
+            const referenceRegex = /\$\{([^}$]+)\}/g;
+            let match: RegExpExecArray | null;
+            while ((match = referenceRegex.exec(segment)) !== null) {
+                references.push({
+                    name: match[1].trim(),
+                    start: from + match.index,
+                    end: from + match.index + match[0].length
+                });
+            }
+        };
+        const visit = (element: XmlElement) => {
+            // 开始标签中的属性值，以及元素自身的文本；子元素递归处理
+            scan(element.start, element.contentStart);
+            let offset = element.contentStart;
+            for (const child of element.children) {
+                scan(offset, child.start);
+                visit(child);
+                offset = child.end;
+            }
+            scan(offset, element.contentEnd);
+        };
+
+        if (this.project) {
+            visit(this.project);
+        }
+        return references;
+    }
+
+    /**
+     * 查找包含指定偏移量的元素
+     * @returns 从根元素到最内层元素的路径，偏移量不在任何元素中时为空数组
+     */
+    getElementPath(offset: number): XmlElement[] {
+        const elementPath: XmlElement[] = [];
+        let candidates = this.roots;
+        for (;;) {
+            const element = candidates.find(candidate => offset >= candidate.start && offset < candidate.end);
+            if (!element) {
+                return elementPath;
+            }
+            elementPath.push(element);
+            candidates = element.children;
+        }
+    }
+
+    /**
+     * 查找偏移量所在的依赖声明，位于 <exclusions> 中时不算
+     */
+    findDependencyAt(offset: number): PomDependency | undefined {
+        const elementPath = this.getElementPath(offset);
+        const index = elementPath.map(element => element.name).lastIndexOf('dependency');
+        if (index < 0 || elementPath[index + 1]?.name === 'exclusions') {
+            return undefined;
+        }
+        return this.getDependencies().find(dependency => dependency.element === elementPath[index]);
+    }
+}
+
+/**
+ * 解析后的 XML 元素及其源码位置
+ * start/end 为整个元素（含标签）的偏移量，contentStart/contentEnd 为标签之间内容的偏移量
+ */
+export interface XmlElement {
+    name: string;
+    attributes: Record<string, string>;
+    children: XmlElement[];
+    /** 元素直接包含的文本（已去除首尾空白并解码实体） */
+    text: string;
+    start: number;
+    end: number;
+    contentStart: number;
+    contentEnd: number;
+    /** 是否有对应的结束标签（自闭合元素视为已闭合） */
+    closed: boolean;
+}
+
+/**
+ * POM 中声明的依赖
+ */
+export interface PomDependency {
+    groupId: string;
+    artifactId: string;
+    version?: string;
+    scope?: string;
+    type?: string;
+    classifier?: string;
+    element: XmlElement;
+    location: DependencyLocation;
+    /** 声明在 profile 中时为 profile 的 id */
+    profileId?: string;
+}
+
+/**
+ * <build> 中声明的插件
+ */
+export interface PomPlugin {
+    groupId: string;
+    artifactId: string;
+    version?: string;
+    element: XmlElement;
+    location: 'plugins' | 'pluginManagement';
+    /** 声明在 profile 中时为 profile 的 id */
+    profileId?: string;
+}
+
+/**
+ * <modules> 中声明的模块
+ */
+export interface PomModule {
+    /** 模块路径，相对于声明它的 POM 所在目录，可以指向目录或 POM 文件 */
+    name: string;
+    element: XmlElement;
+    /** 声明在 profile 中时为 profile 的 id */
+    profileId?: string;
+}
+
+/**
+ * <properties> 中声明的属性
+ */
+export interface PomProperty {
+    name: string;
+    value: string;
+    element: XmlElement;
+    /** 声明在 profile 中时为 profile 的 id */
+    profileId?: string;
+}
+
+/**
+ * ${...} 属性引用，start/end 为整个占位符的偏移量
+ */
+export interface PropertyReference {
+    name: string;
+    start: number;
+    end: number;
+}
+
+/**
+ * 依赖声明所在的位置
+ */
+export type DependencyLocation = 'dependencies' | 'dependencyManagement' | 'plugin';
+
+/**
+ * <parent> 段
+ */
+export interface PomParent {
+    groupId?: string;
+    artifactId?: string;
+    version?: string;
+    relativePath?: string;
+    element: XmlElement;
+}
+
+/**
+ * <profile> 段
+ */
+export interface PomProfile {
+    id: string;
+    element: XmlElement;
+}
+
+const XML_ENTITIES: Record<string, string> = {
+    lt: '<',
+    gt: '>',
+    amp: '&',
+    quot: '"',
+    apos: '\''
+};
+
+/**
+ * 容错的 XML 解析，返回顶层元素
+ */
+function parseXml(text: string): XmlElement[] {
+    const roots: XmlElement[] = [];
+    const stack: Array<{ element: XmlElement; text: string }> = [];
+    let index = 0;
+
+    const appendText = (value: string) => {
+        if (stack.length > 0) {
+            stack[stack.length - 1].text += value;
+        }
+    };
+    const close = (entry: { element: XmlElement; text: string }, contentEnd: number, end: number, closed: boolean) => {
+        entry.element.contentEnd = contentEnd;
+        entry.element.end = end;
+        entry.element.closed = closed;
+        entry.element.text = decodeEntities(entry.text).trim();
+    };
+
+    while (index < text.length) {
+        const lt = text.indexOf('<', index);
+        if (lt === -1) {
+            appendText(text.substring(index));
+            break;
+        }
+        appendText(text.substring(index, lt));
+
+        if (text.startsWith('<!--', lt)) {
+            index = skipPast(text, lt + 4, '-->');
+        } else if (text.startsWith('<![CDATA[', lt)) {
+            const end = text.indexOf(']]>', lt + 9);
+            // CDATA 内容按原样计入文本，不解码实体
+            appendText(text.substring(lt + 9, end === -1 ? text.length : end).replace(/&/g, '&amp;'));
+            index = end === -1 ? text.length : end + 3;
+        } else if (text.startsWith('<?', lt)) {
+            index = skipPast(text, lt + 2, '?>');
+        } else if (text.startsWith('<!', lt)) {
+            index = skipPast(text, lt + 2, '>');
+        } else if (text.startsWith('</', lt)) {
+            const match = /^<\/\s*([^\s>]+)\s*>/.exec(text.substring(lt, lt + 256));
+            if (!match) {
+                appendText('<');
+                index = lt + 1;
+                continue;
+            }
+            const end = lt + match[0].length;
+            const openIndex = findOpenElement(stack, match[1]);
+            if (openIndex !== -1) {
+                // 未闭合的内层元素在此处截断
+                while (stack.length - 1 > openIndex) {
+                    close(stack.pop()!, lt, lt, false);
+                }
+                close(stack.pop()!, lt, end, true);
+            }
+            index = end;
+        } else {
+            const nameMatch = /^<([A-Za-z_][\w.:-]*)/.exec(text.substring(lt, lt + 256));
+            if (!nameMatch) {
+                appendText('<');
+                index = lt + 1;
+                continue;
+            }
+            const tagEnd = findTagEnd(text, lt + nameMatch[0].length);
+            const tagBody = text.substring(lt + nameMatch[0].length, tagEnd);
+            const selfClosing = tagBody.endsWith('/');
+            const contentStart = Math.min(tagEnd + 1, text.length);
+            const element: XmlElement = {
+                name: nameMatch[1],
+                attributes: parseAttributes(tagBody),
+                children: [],
+                text: '',
+                start: lt,
+                end: contentStart,
+                contentStart,
+                contentEnd: contentStart,
+                closed: selfClosing
+            };
+
+            if (stack.length > 0) {
+                stack[stack.length - 1].element.children.push(element);
+            } else {
+                roots.push(element);
+            }
+            if (!selfClosing) {
+                stack.push({ element, text: '' });
+            }
+            index = contentStart;
+        }
+    }
+
+    // 文件结束时仍未闭合的元素延伸到文件末尾
+    while (stack.length > 0) {
+        close(stack.pop()!, text.length, text.length, false);
+    }
+
+    return roots;
+}
+
+function skipPast(text: string, from: number, terminator: string): number {
+    const end = text.indexOf(terminator, from);
+    return end === -1 ? text.length : end + terminator.length;
+}
+
+/**
+ * 查找开始标签的结束位置，忽略属性值中的 '>'
+ */
+function findTagEnd(text: string, from: number): number {
+    let quote: string | null = null;
+    for (let i = from; i < text.length; i++) {
+        const char = text[i];
+        if (quote) {
+            if (char === quote) {
+                quote = null;
+            }
+        } else if (char === '"' || char === '\'') {
+            quote = char;
+        } else if (char === '>') {
+            return i;
+        } else if (char === '<') {
+            // 标签没有闭合就遇到了下一个标签
+            return i - 1;
+        }
+    }
+    return text.length;
+}
+
+function findOpenElement(stack: Array<{ element: XmlElement }>, name: string): number {
+    for (let i = stack.length - 1; i >= 0; i--) {
+        if (stack[i].element.name === name) {
+            return i;
+        }
+    }
+    return -1;
+}
+
+function parseAttributes(tagBody: string): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    const attributeRegex = /([^\s=/]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+    let match: RegExpExecArray | null;
+    while ((match = attributeRegex.exec(tagBody)) !== null) {
+        attributes[match[1]] = decodeEntities(match[3] ?? match[4] ?? '');
+    }
+    return attributes;
+}
+
+function decodeEntities(value: string): string {
+    return value.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (entity, body: string) => {
+        if (body.startsWith('#')) {
+            const codePoint = body.startsWith('#x') ? parseInt(body.substring(2), 16) : parseInt(body.substring(1), 10);
+            // 超出 Unicode 范围或代理项的字符引用不合法，保留原文
+            const valid = codePoint <= 0x10ffff && (codePoint < 0xd800 || codePoint > 0xdfff);
+            return valid ? String.fromCodePoint(codePoint) : entity;
+        }
+        return XML_ENTITIES[body] ?? entity;
+    });
+}
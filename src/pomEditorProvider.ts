@@ -1,20 +1,47 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
-import { MavenUtils } from './mavenUtils';
+import {
+    MavenUtils,
+    DependencyConflict,
+    DependencyNode,
+    DependencyAnalysis,
+    ResolvedDependency,
+    MavenProgress,
+    MavenRunOptions
+} from './mavenUtils';
 import { CacheManager } from './cacheManager';
+import { PomEditUtils, DependencySection, VersionUpdateResult } from './pomEdits';
+import { PomDocument } from './pomDocument';
+import { PomHierarchy, DependencyTarget } from './pomHierarchy';
+import { OfflineResolver } from './offlineResolver';
+import { DependencyDiff, DependencyChange, DependencyChangeKind } from './dependencyDiff';
+import { GitUtils } from './gitUtils';
+import { PomProperties } from './pomProperties';
+import { MavenRepository, ArtifactInfo } from './mavenRepository';
+import { MavenVersion } from './mavenVersion';
+import { MavenTaskProvider } from './mavenTaskProvider';
+import { ReactorModules } from './reactorModules';
 import { t, getLocale } from './i18n';
 
 export class PomViewProvider {
 
     private panels: Map<string, vscode.WebviewPanel> = new Map();
+    /** 正在进行的 Maven 运行，键为 POM 路径与视图 */
+    private readonly mavenRuns = new Map<string, Set<vscode.CancellationTokenSource>>();
 
     constructor(
         private readonly context: vscode.ExtensionContext,
-        private readonly cacheManager: CacheManager
+        private readonly cacheManager: CacheManager,
+        private readonly taskProvider: MavenTaskProvider
     ) { }
 
-    public openPomView(uri: vscode.Uri): void {
+    /**
+     * 打开 POM 视图
+     * @param focusDependency 在 Dependency Hierarchy 中过滤显示的依赖
+     */
+    public openPomView(uri: vscode.Uri, focusDependency?: { groupId: string; artifactId: string }): void {
         const pomPath = uri.fsPath;
         const panelKey = pomPath;
 
@@ -22,6 +49,9 @@ export class PomViewProvider {
         const existingPanel = this.panels.get(panelKey);
         if (existingPanel) {
             existingPanel.reveal(vscode.ViewColumn.Beside);
+            if (focusDependency) {
+                existingPanel.webview.postMessage({ type: 'showDependency', ...focusDependency });
+            }
             return;
         }
 
@@ -53,16 +83,22 @@ export class PomViewProvider {
         // 面板关闭时清理
         panel.onDidDispose(() => {
             this.panels.delete(panelKey);
+            this.cancelMavenRuns(pomPath);
         });
 
         // 设置 Webview HTML
-        panel.webview.html = this.getHtmlForWebview(panel.webview, pomContent);
+        panel.webview.html = this.getHtmlForWebview(panel.webview, pomContent, this.cacheManager.getActiveProfiles(pomPath), focusDependency);
 
         // 监听消息
         this.setupWebviewMessageListener(panel, uri);
     }
 
-    private getHtmlForWebview(webview: vscode.Webview, pomContent: string): string {
+    private getHtmlForWebview(
+        webview: vscode.Webview,
+        pomContent: string,
+        activeProfiles: string[],
+        focusDependency?: { groupId: string; artifactId: string }
+    ): string {
         // Get the CSS and JS URIs
         const styleUri = webview.asWebviewUri(
             vscode.Uri.joinPath(this.context.extensionUri, 'media', 'style.css')
@@ -96,6 +132,11 @@ export class PomViewProvider {
         <div class="tab-bar">
             <button class="tab-button active" data-tab="effective-pom">Effective POM</button>
             <button class="tab-button" data-tab="dependency-hierarchy">Dependency Hierarchy</button>
+            <button class="tab-button" data-tab="dependency-analysis">${t('ui.dependencyAnalysis')}</button>
+            <button class="tab-button" data-tab="dependency-conflicts">${t('ui.conflicts')}</button>
+            <button class="tab-button" data-tab="pom-properties">${t('ui.properties')}</button>
+            <button class="tab-button" data-tab="reactor-modules">${t('ui.modules')}</button>
+            <button class="profiles-button" id="select-profiles"></button>
         </div>
 
         <div class="tab-content-container">
@@ -104,16 +145,31 @@ export class PomViewProvider {
 
             <div id="dependency-hierarchy" class="tab-content">
             </div>
+
+            <div id="dependency-analysis" class="tab-content">
+            </div>
+
+            <div id="dependency-conflicts" class="tab-content">
+            </div>
+
+            <div id="pom-properties" class="tab-content">
+            </div>
+
+            <div id="reactor-modules" class="tab-content">
+            </div>
         </div>
     </div>
 
     <div id="context-menu" class="context-menu">
         <div class="context-menu-item" id="context-menu-locate">${t('ui.locateInEditor')}</div>
+        <div class="context-menu-item" id="context-menu-exclude">${t('ui.excludeDependency')}</div>
     </div>
 
     <script nonce="${nonce}">
         const vscodeApi = acquireVsCodeApi();
         const initialContent = ${JSON.stringify(pomContent)};
+        const initialDependency = ${JSON.stringify(focusDependency ?? null)};
+        const initialProfiles = ${JSON.stringify(activeProfiles)};
         const locale = '${getLocale()}';
     </script>
     <script nonce="${nonce}" src="${monacoLoaderUri}"></script>
@@ -141,17 +197,78 @@ export class PomViewProvider {
                     case 'getResolvedDependencies':
                         await this.handleGetResolvedDependencies(panel, uri, message.forceRefresh);
                         break;
+                    case 'getConflicts':
+                        await this.handleGetConflicts(panel, uri, message.forceRefresh);
+                        break;
+                    case 'getDependencyAnalysis':
+                        await this.handleGetDependencyAnalysis(panel, uri, message.forceRefresh);
+                        break;
+                    case 'removeUnusedDependency':
+                        await this.handleRemoveUnusedDependency(uri, message.groupId, message.artifactId);
+                        break;
+                    case 'declareUsedDependency':
+                        await this.handleDeclareUsedDependency(uri, message.dependency);
+                        break;
+                    case 'ignoreAnalysisEntry':
+                        await this.handleIgnoreAnalysisEntry(panel, uri, message.key, message.ignored);
+                        break;
+                    case 'getProperties':
+                        await this.handleGetProperties(panel, uri, message.forceRefresh);
+                        break;
+                    case 'editProperty':
+                        await this.handleEditProperty(uri, message.name);
+                        break;
+                    case 'renameProperty':
+                        await this.handleRenameProperty(uri, message.name);
+                        break;
+                    case 'getModules':
+                        await this.handleGetModules(panel, uri);
+                        break;
+                    case 'openModulePomView':
+                        this.openPomView(vscode.Uri.file(message.path));
+                        break;
+                    case 'runModuleGoal':
+                        await this.taskProvider.runGoal(message.path, message.name);
+                        break;
+                    case 'openLocation':
+                        await this.handleOpenLocation(message.path, message.line, message.character);
+                        break;
+                    case 'resolveConflict':
+                        await this.handleResolveConflict(uri, message.action, message.conflict);
+                        break;
                     case 'locateInEditor':
-                        await this.handleLocateInEditor(uri, message.groupId, message.artifactId);
+                        await this.handleLocateInEditor(uri, message.groupId, message.artifactId, message.path);
+                        break;
+                    case 'excludeDependency':
+                        await this.handleExcludeDependency(
+                            uri,
+                            message.groupId,
+                            message.artifactId,
+                            message.directGroupId,
+                            message.directArtifactId
+                        );
                         break;
                     // source code generated by GenAI of Kiro starts
                     case 'openMvnRepository':
                         await this.handleOpenMvnRepository(
+                            uri,
                             message.groupId,
                             message.artifactId
                         );
                         break;
                     // source code generated by GenAI of Kiro ends
+                    case 'addDependency':
+                        await this.addDependency(uri);
+                        break;
+                    case 'compareDependencies':
+                        await this.compareDependencies(uri);
+                        break;
+                    case 'selectProfiles':
+                        await this.selectProfiles(uri);
+                        break;
+                    case 'cancelMaven':
+                        this.cancelMavenRuns(uri.fsPath, message.progressKey);
+                        break;
                 }
             }
         );
@@ -168,17 +285,15 @@ export class PomViewProvider {
             'effectivePom',
             forceRefresh,
             async (pomPath: string) => {
-                await this.reportProgress(panel, 'effectivePom', 1, t('progress.checkMaven'));
+                this.reportProgress(panel, 'effectivePom', t('progress.checkMaven'));
                 const mavenAvailable = await MavenUtils.isMavenAvailable(pomPath);
                 if (!mavenAvailable) {
                     throw new Error(t('error.mavenNotFoundWithWrapper'));
                 }
+                this.reportProgress(panel, 'effectivePom', t('progress.generateEffectivePom'));
+                const effectivePom = await this.runMaven(panel, pomPath, 'effectivePom', options => MavenUtils.getEffectivePom(pomPath, options));
 
-                await this.reportProgress(panel, 'effectivePom', 2, t('progress.resolveDependencies'));
-                await this.reportProgress(panel, 'effectivePom', 3, t('progress.generateEffectivePom'));
-                const effectivePom = await MavenUtils.getEffectivePom(pomPath);
-
-                await this.reportProgress(panel, 'effectivePom', 4, t('progress.processResult'));
+                this.reportProgress(panel, 'effectivePom', t('progress.processResult'));
 
                 return effectivePom;
             }
@@ -195,23 +310,426 @@ export class PomViewProvider {
             uri,
             'dependencyTree',
             forceRefresh,
-            async (pomPath: string) => {
-                await this.reportProgress(panel, 'dependencyTree', 1, t('progress.checkMaven'));
-                const mavenAvailable = await MavenUtils.isMavenAvailable(pomPath);
-                if (!mavenAvailable) {
-                    throw new Error(t('error.mavenNotFoundWithWrapper'));
+            (pomPath: string) => this.generateDependencyTree(panel, pomPath, 'dependencyTree')
+        );
+    }
+
+    /**
+     * 运行 dependency:tree 并解析结果，不使用 Maven 时改为离线解析
+     * @param progressKey 进度消息所属的视图
+     */
+    private async generateDependencyTree(
+        panel: vscode.WebviewPanel,
+        pomPath: string,
+        progressKey: string
+    ): Promise<DependencyNode[]> {
+        this.reportProgress(panel, progressKey, t('progress.checkMaven'));
+        if (await MavenUtils.shouldResolveOffline(pomPath)) {
+            this.reportProgress(panel, progressKey, t('progress.resolveOffline'));
+            return OfflineResolver.resolveDependencyTree(pomPath);
+        }
+        this.reportProgress(panel, progressKey, t('progress.generateDependencyTree'));
+        const treeText = await this.runMaven(panel, pomPath, progressKey, options => MavenUtils.getDependencyTree(pomPath, false, options));
+
+        this.reportProgress(panel, progressKey, t('progress.processResult'));
+        const treeData = MavenUtils.parseDependencyTree(treeText);
+
+        return treeData;
+    }
+
+    /**
+     * 获取依赖冲突列表，复用缓存的依赖树
+     */
+    private async handleGetConflicts(
+        panel: vscode.WebviewPanel,
+        uri: vscode.Uri,
+        forceRefresh: boolean = false
+    ): Promise<void> {
+        try {
+            this.showLoadingState(panel, 'conflicts', true);
+
+            const pomPath = uri.fsPath;
+            let treeData: DependencyNode[] = await this.cacheManager.get(pomPath, 'dependencyTree', forceRefresh);
+            if (!treeData) {
+                treeData = await this.generateDependencyTree(panel, pomPath, 'conflicts');
+                await this.cacheManager.set(pomPath, 'dependencyTree', treeData);
+            }
+
+            panel.webview.postMessage({
+                type: 'conflictsResult',
+                data: MavenUtils.findConflicts(treeData),
+                resolvedWithoutMaven: treeData.some(root => root.resolvedWithoutMaven),
+                loading: false
+            });
+        } catch (error: any) {
+            console.error('获取依赖冲突失败:', error);
+            this.showError(panel, 'conflicts', this.getErrorMessage(error, 'conflicts'));
+        }
+    }
+
+    /**
+     * 获取依赖使用分析结果，同时返回用户已忽略的条目
+     */
+    private async handleGetDependencyAnalysis(
+        panel: vscode.WebviewPanel,
+        uri: vscode.Uri,
+        forceRefresh: boolean = false
+    ): Promise<void> {
+        try {
+            this.showLoadingState(panel, 'dependencyAnalysis', true);
+
+            const pomPath = uri.fsPath;
+            let analysis: DependencyAnalysis | null = await this.cacheManager.get(pomPath, 'dependencyAnalysis', forceRefresh);
+            if (!analysis) {
+                analysis = await this.generateDependencyAnalysis(panel, pomPath);
+                await this.cacheManager.set(pomPath, 'dependencyAnalysis', analysis);
+            }
+
+            panel.webview.postMessage({
+                type: 'dependencyAnalysisResult',
+                data: analysis,
+                ignored: this.getIgnoredAnalysisEntries(pomPath),
+                loading: false
+            });
+        } catch (error: any) {
+            console.error('分析依赖使用情况失败:', error);
+            this.showError(panel, 'dependencyAnalysis', this.getErrorMessage(error, 'dependencyAnalysis'));
+        }
+    }
+
+    /**
+     * 运行 dependency:analyze 并解析当前模块的结果，该目标依赖编译，不支持离线解析
+     */
+    private async generateDependencyAnalysis(panel: vscode.WebviewPanel, pomPath: string): Promise<DependencyAnalysis> {
+        this.reportProgress(panel, 'dependencyAnalysis', t('progress.checkMaven'));
+        if (await MavenUtils.shouldResolveOffline(pomPath)) {
+            throw new Error(t('error.analysisRequiresMaven'));
+        }
+
+        this.reportProgress(panel, 'dependencyAnalysis', t('progress.analyzeDependencies'));
+        const output = await this.runMaven(panel, pomPath, 'dependencyAnalysis', options => MavenUtils.getDependencyAnalysis(pomPath, options));
+
+        this.reportProgress(panel, 'dependencyAnalysis', t('progress.processResult'));
+        return MavenUtils.parseDependencyAnalysis(output, MavenUtils.getModuleName(pomPath) ?? undefined);
+    }
+
+    /**
+     * 删除声明但未使用的依赖
+     */
+    private async handleRemoveUnusedDependency(uri: vscode.Uri, groupId: string, artifactId: string): Promise<void> {
+        try {
+            const document = await vscode.workspace.openTextDocument(uri);
+            const declaration = PomDocument.parse(document.getText()).findDependency(groupId, artifactId);
+            if (!declaration) {
+                // 依赖可能继承自父 POM
+                vscode.window.showWarningMessage(t('error.notFoundInPom', groupId, artifactId));
+                return;
+            }
+
+            await this.applyPomEdit(document, PomEditUtils.createRemoveDependencyEdit(document, declaration));
+        } catch (error: any) {
+            console.error('删除依赖失败:', error);
+            vscode.window.showErrorMessage(t('error.removeDependencyFailed', error.message));
+        }
+    }
+
+    /**
+     * 将使用但未声明的依赖声明为直接依赖，版本取当前解析出的版本
+     */
+    private async handleDeclareUsedDependency(uri: vscode.Uri, dependency: ResolvedDependency): Promise<void> {
+        try {
+            const document = await vscode.workspace.openTextDocument(uri);
+            const edit = PomEditUtils.createAddDependencyEdit(document, {
+                groupId: dependency.groupId,
+                artifactId: dependency.artifactId,
+                version: dependency.version,
+                scope: dependency.scope,
+                type: dependency.type,
+                classifier: dependency.classifier
+            }, 'dependencies');
+            await this.applyPomEdit(document, edit);
+        } catch (error: any) {
+            console.error('添加依赖失败:', error);
+            vscode.window.showErrorMessage(t('error.addDependencyFailed', error.message));
+        }
+    }
+
+    /**
+     * 忽略或恢复分析结果中的条目，忽略列表按 POM 保存在 workspaceState 中
+     * @param key 条目标识：区段:groupId:artifactId
+     */
+    private async handleIgnoreAnalysisEntry(
+        panel: vscode.WebviewPanel,
+        uri: vscode.Uri,
+        key: string,
+        ignored: boolean
+    ): Promise<void> {
+        const pomPath = uri.fsPath;
+        const state = { ...this.context.workspaceState.get<Record<string, string[]>>(IGNORED_ANALYSIS_STATE_KEY) };
+        const entries = new Set(state[pomPath] ?? []);
+        if (ignored) {
+            entries.add(key);
+        } else {
+            entries.delete(key);
+        }
+
+        if (entries.size > 0) {
+            state[pomPath] = [...entries];
+        } else {
+            delete state[pomPath];
+        }
+        await this.context.workspaceState.update(IGNORED_ANALYSIS_STATE_KEY, state);
+
+        panel.webview.postMessage({
+            type: 'dependencyAnalysisIgnored',
+            ignored: [...entries]
+        });
+    }
+
+    private getIgnoredAnalysisEntries(pomPath: string): string[] {
+        return this.context.workspaceState.get<Record<string, string[]>>(IGNORED_ANALYSIS_STATE_KEY)?.[pomPath] ?? [];
+    }
+
+    /**
+     * 获取属性列表；生效值取自 Effective POM，没有可用的 Effective POM 时按继承链计算
+     */
+    private async handleGetProperties(
+        panel: vscode.WebviewPanel,
+        uri: vscode.Uri,
+        forceRefresh: boolean = false
+    ): Promise<void> {
+        try {
+            this.showLoadingState(panel, 'properties', true);
+
+            const pomPath = uri.fsPath;
+            const effectivePom = await this.getEffectivePomIfAvailable(panel, pomPath, forceRefresh);
+            const properties = await PomProperties.collect(pomPath, effectivePom);
+
+            panel.webview.postMessage({
+                type: 'propertiesResult',
+                data: properties,
+                fromEffectivePom: effectivePom !== undefined,
+                loading: false
+            });
+        } catch (error: any) {
+            console.error('获取属性失败:', error);
+            this.showError(panel, 'properties', this.getErrorMessage(error, 'properties'));
+        }
+    }
+
+    /**
+     * 获取 Effective POM（优先使用缓存），离线模式、Maven 执行失败或被取消时返回 undefined
+     */
+    private async getEffectivePomIfAvailable(
+        panel: vscode.WebviewPanel,
+        pomPath: string,
+        forceRefresh: boolean
+    ): Promise<string | undefined> {
+        const cached: string | null = await this.cacheManager.get(pomPath, 'effectivePom', forceRefresh);
+        if (cached) {
+            return cached;
+        }
+
+        try {
+            if (await MavenUtils.shouldResolveOffline(pomPath)) {
+                return undefined;
+            }
+            this.reportProgress(panel, 'properties', t('progress.generateEffectivePom'));
+            const effectivePom = await this.runMaven(panel, pomPath, 'properties', options => MavenUtils.getEffectivePom(pomPath, options));
+            await this.cacheManager.set(pomPath, 'effectivePom', effectivePom);
+            return effectivePom;
+        } catch (error: any) {
+            console.warn('获取 Effective POM 失败，按继承链计算属性值:', error.message);
+            return undefined;
+        }
+    }
+
+    /**
+     * 修改属性值：声明位于多个 POM（或 profile）时让用户选择要修改的声明
+     */
+    private async handleEditProperty(uri: vscode.Uri, name: string): Promise<void> {
+        try {
+            const chain = await PomHierarchy.resolveChain(uri.fsPath);
+            const candidates = chain
+                .filter(file => PomProperties.isInWorkspace(file.path))
+                .flatMap(file => file.pom.getPropertyDeclarations()
+                    .filter(property => property.name === name)
+                    .map(property => ({ file, property })));
+            if (candidates.length === 0) {
+                vscode.window.showWarningMessage(t('msg.propertyNotEditable', name));
+                return;
+            }
+
+            let target = candidates[0];
+            if (candidates.length > 1) {
+                const selected = await vscode.window.showQuickPick(
+                    candidates.map(candidate => ({
+                        label: vscode.workspace.asRelativePath(candidate.file.path),
+                        description: candidate.property.profileId
+                            ? `${candidate.property.value} (profile: ${candidate.property.profileId})`
+                            : candidate.property.value,
+                        candidate
+                    })),
+                    { placeHolder: t('ui.selectPropertyDeclaration', name) }
+                );
+                if (!selected) {
+                    return;
                 }
+                target = selected.candidate;
+            }
+
+            const value = await vscode.window.showInputBox({
+                prompt: t('ui.enterPropertyValue', name),
+                value: target.property.value
+            });
+            if (value === undefined || value === target.property.value) {
+                return;
+            }
+
+            const document = await vscode.workspace.openTextDocument(vscode.Uri.file(target.file.path));
+            // 以编辑器中的最新内容重新定位声明
+            const property = PomDocument.parse(document.getText()).getPropertyDeclarations().find(declaration =>
+                declaration.name === name && declaration.profileId === target.property.profileId
+            );
+            if (!property) {
+                throw new Error(t('error.propertyNotDefined', name));
+            }
+            const edit = PomEditUtils.createPropertyValueEdit(document, property, value);
+            await this.applyPomEdit(document, edit);
+            if (document.uri.fsPath !== uri.fsPath) {
+                await this.refreshDependencies(uri);
+            }
+        } catch (error: any) {
+            console.error('修改属性失败:', error);
+            vscode.window.showErrorMessage(t('error.editPropertyFailed', error.message));
+        }
+    }
 
-                await this.reportProgress(panel, 'dependencyTree', 2, t('progress.resolveDependencies'));
-                await this.reportProgress(panel, 'dependencyTree', 3, t('progress.generateDependencyTree'));
-                const treeText = await MavenUtils.getDependencyTree(pomPath);
+    /**
+     * 重命名属性：修改继承链与多模块项目中所有工作区 POM 里的声明和 ${...} 引用
+     */
+    private async handleRenameProperty(uri: vscode.Uri, name: string): Promise<void> {
+        try {
+            const newName = await vscode.window.showInputBox({
+                prompt: t('ui.enterPropertyName', name),
+                value: name,
+                validateInput: value => /^[A-Za-z_][\w.-]*$/.test(value) ? undefined : t('ui.invalidPropertyName')
+            });
+            if (!newName || newName === name) {
+                return;
+            }
 
-                await this.reportProgress(panel, 'dependencyTree', 4, t('progress.processResult'));
-                const treeData = MavenUtils.parseDependencyTree(treeText);
+            const chain = await PomHierarchy.resolveChain(uri.fsPath);
+            const files = new Set([...chain, ...PomProperties.getReactorPoms(uri.fsPath)]
+                .map(file => file.path)
+                .filter(filePath => PomProperties.isInWorkspace(filePath)));
+
+            const edit = new vscode.WorkspaceEdit();
+            const documents: vscode.TextDocument[] = [];
+            let count = 0;
+            for (const filePath of files) {
+                const document = await vscode.workspace.openTextDocument(vscode.Uri.file(filePath));
+                const changed = PomEditUtils.addPropertyRenameEdits(edit, document, name, newName);
+                if (changed > 0) {
+                    documents.push(document);
+                    count += changed;
+                }
+            }
+            if (count === 0) {
+                vscode.window.showInformationMessage(t('msg.propertyNotFound', name));
+                return;
+            }
 
-                return treeData;
+            if (!await vscode.workspace.applyEdit(edit)) {
+                return;
             }
-        );
+            // Maven 读取的是磁盘上的文件，必须先保存再刷新
+            for (const document of documents) {
+                if (document.isDirty) {
+                    await document.save();
+                }
+            }
+            vscode.window.showInformationMessage(t('msg.propertyRenamed', name, newName, count, documents.length));
+            await this.refreshDependencies(uri);
+        } catch (error: any) {
+            console.error('重命名属性失败:', error);
+            vscode.window.showErrorMessage(t('error.renamePropertyFailed', error.message));
+        }
+    }
+
+    /**
+     * 获取多模块项目的模块、依赖关系与构建顺序，只读取 POM 文件，不运行 Maven
+     */
+    private async handleGetModules(panel: vscode.WebviewPanel, uri: vscode.Uri): Promise<void> {
+        try {
+            this.showLoadingState(panel, 'modules', true);
+            panel.webview.postMessage({
+                type: 'modulesResult',
+                data: await ReactorModules.analyze(uri.fsPath),
+                loading: false
+            });
+        } catch (error: any) {
+            console.error('分析模块失败:', error);
+            this.showError(panel, 'modules', error.message || t('error.generic', 'modules'));
+        }
+    }
+
+    /**
+     * 选择运行 Maven 时激活的 profile：列出该 POM 及其父 POM 中声明的 profile，并标出默认激活的 profile
+     * 选择按 POM 保存在工作区中，面板中的各视图与 Maven 任务都会使用
+     */
+    private async selectProfiles(uri: vscode.Uri): Promise<void> {
+        const pomPath = uri.fsPath;
+        const active = this.cacheManager.getActiveProfiles(pomPath);
+        const items: Array<vscode.QuickPickItem & { profileId: string }> = [];
+        try {
+            for (const file of await PomHierarchy.resolveChain(pomPath)) {
+                for (const profile of file.pom.profiles) {
+                    if (!profile.id || items.some(item => item.profileId === profile.id)) {
+                        continue;
+                    }
+                    const activation = PomDocument.child(profile.element, 'activation');
+                    items.push({
+                        label: profile.id,
+                        profileId: profile.id,
+                        description: PomDocument.childText(activation, 'activeByDefault') === 'true' ? t('ui.profileActiveByDefault') : undefined,
+                        detail: file.path === pomPath ? undefined : t('ui.profileDeclaredIn', file.pom.artifactId ?? vscode.workspace.asRelativePath(file.path)),
+                        picked: active.includes(profile.id)
+                    });
+                }
+            }
+        } catch (error) {
+            console.warn(`读取 POM 失败: ${pomPath}`, error);
+        }
+        // 之前选择的 profile 可能来自 settings.xml 或已被删除，仍然列出以便取消
+        for (const profileId of active.filter(id => !items.some(item => item.profileId === id))) {
+            items.push({ label: profileId, profileId, description: t('ui.profileNotDeclared'), picked: true });
+        }
+        if (items.length === 0) {
+            vscode.window.showInformationMessage(t('msg.noProfiles'));
+            return;
+        }
+
+        const selected = await vscode.window.showQuickPick(items, { canPickMany: true, placeHolder: t('ui.selectProfiles') });
+        if (!selected) {
+            return;
+        }
+        await this.cacheManager.setActiveProfiles(pomPath, selected.map(item => item.profileId));
+        this.panels.get(pomPath)?.webview.postMessage({
+            type: 'profilesChanged',
+            profiles: this.cacheManager.getActiveProfiles(pomPath)
+        });
+    }
+
+    /**
+     * 在编辑器中打开 POM 文件的指定位置
+     */
+    private async handleOpenLocation(filePath: string, line: number, character: number): Promise<void> {
+        const document = await vscode.workspace.openTextDocument(vscode.Uri.file(filePath));
+        const editor = await vscode.window.showTextDocument(document, vscode.ViewColumn.One);
+        const position = new vscode.Position(line, character);
+        editor.selection = new vscode.Selection(position, position);
+        editor.revealRange(new vscode.Range(position, position), vscode.TextEditorRevealType.InCenter);
     }
 
     private async handleGetResolvedDependencies(
@@ -225,17 +743,22 @@ export class PomViewProvider {
             'resolvedDependencies',
             forceRefresh,
             async (pomPath: string) => {
-                await this.reportProgress(panel, 'resolvedDependencies', 1, t('progress.checkMaven'));
-                const mavenAvailable = await MavenUtils.isMavenAvailable(pomPath);
-                if (!mavenAvailable) {
-                    throw new Error(t('error.mavenNotFoundWithWrapper'));
+                this.reportProgress(panel, 'resolvedDependencies', t('progress.checkMaven'));
+                if (await MavenUtils.shouldResolveOffline(pomPath)) {
+                    // 离线时依赖列表由依赖树得出，优先复用缓存的依赖树
+                    let treeData: DependencyNode[] | undefined = forceRefresh
+                        ? undefined
+                        : await this.cacheManager.get(pomPath, 'dependencyTree');
+                    if (!treeData?.[0]?.resolvedWithoutMaven) {
+                        this.reportProgress(panel, 'resolvedDependencies', t('progress.resolveOffline'));
+                        treeData = await OfflineResolver.resolveDependencyTree(pomPath);
+                    }
+                    return OfflineResolver.toResolvedDependencies(treeData);
                 }
+                this.reportProgress(panel, 'resolvedDependencies', t('progress.generateDependencyList'));
+                const listText = await this.runMaven(panel, pomPath, 'resolvedDependencies', options => MavenUtils.getResolvedDependencies(pomPath, options));
 
-                await this.reportProgress(panel, 'resolvedDependencies', 2, t('progress.resolveDependencies'));
-                await this.reportProgress(panel, 'resolvedDependencies', 3, t('progress.generateDependencyList'));
-                const listText = await MavenUtils.getResolvedDependencies(pomPath);
-
-                await this.reportProgress(panel, 'resolvedDependencies', 4, t('progress.processResult'));
+                this.reportProgress(panel, 'resolvedDependencies', t('progress.processResult'));
                 const dependencies = MavenUtils.parseResolvedDependencies(listText);
 
                 return dependencies;
@@ -278,7 +801,7 @@ export class PomViewProvider {
             });
         } catch (error: any) {
             console.error(`获取 ${cacheKey} 失败:`, error);
-            const errorMessage = error.message || t('error.generic', cacheKey);
+            const errorMessage = this.getErrorMessage(error, cacheKey);
             this.showError(panel, cacheKey, errorMessage);
 
             // 如果是 Maven 未找到的错误，提供配置指引
@@ -315,6 +838,16 @@ export class PomViewProvider {
         });
     }
 
+    /**
+     * 视图中显示的错误信息，用户取消的 Maven 运行显示为已取消
+     */
+    private getErrorMessage(error: any, cacheKey: string): string {
+        if (error instanceof vscode.CancellationError) {
+            return t('error.mavenCancelled');
+        }
+        return error.message || t('error.generic', cacheKey);
+    }
+
     private showError(panel: vscode.WebviewPanel, cacheKey: string, error: string): void {
         const messageType = this.getMessageType(cacheKey);
         panel.webview.postMessage({
@@ -324,21 +857,69 @@ export class PomViewProvider {
         });
     }
 
-    private async reportProgress(
+    /**
+     * 报告当前阶段，显示在视图的加载提示中
+     * @param progressKey 进度消息所属的视图
+     */
+    private reportProgress(panel: vscode.WebviewPanel, progressKey: string, status: string): void {
+        panel.webview.postMessage({ type: 'mavenProgress', progressKey, status });
+    }
+
+    /**
+     * 运行 Maven：输出中的进度（当前模块、已下载的文件数）节流后发送到视图的加载提示，视图中点击取消时结束 Maven 进程树
+     * @param progressKey 进度消息所属的视图
+     * @param run 以激活的 profile、进度回调与取消令牌运行 Maven
+     */
+    private async runMaven<T>(
         panel: vscode.WebviewPanel,
-        cacheKey: string,
-        step: number,
-        message: string
-    ): Promise<void> {
-        const messageType = this.getMessageType(cacheKey);
-        panel.webview.postMessage({
-            type: `${messageType}Progress`,
-            step,
-            message,
-            progress: step * 25
-        });
+        pomPath: string,
+        progressKey: string,
+        run: (options: MavenRunOptions) => Promise<T>
+    ): Promise<T> {
+        const runKey = `${pomPath}:${progressKey}`;
+        const source = new vscode.CancellationTokenSource();
+        const sources = this.mavenRuns.get(runKey) ?? new Set();
+        sources.add(source);
+        this.mavenRuns.set(runKey, sources);
+
+        let latest: MavenProgress = { downloaded: 0 };
+        let timer: NodeJS.Timeout | undefined;
+        const postProgress = () => {
+            timer = undefined;
+            panel.webview.postMessage({ type: 'mavenProgress', progressKey, progress: latest });
+        };
+        // 视图收到进度后显示取消按钮
+        postProgress();
 
-        await new Promise(resolve => setTimeout(resolve, 100));
+        try {
+            return await run({
+                profiles: this.cacheManager.getActiveProfiles(pomPath),
+                token: source.token,
+                onProgress: progress => {
+                    latest = progress;
+                    timer ??= setTimeout(postProgress, PROGRESS_INTERVAL_MS);
+                }
+            });
+        } finally {
+            clearTimeout(timer);
+            sources.delete(source);
+            if (sources.size === 0) {
+                this.mavenRuns.delete(runKey);
+            }
+            source.dispose();
+        }
+    }
+
+    /**
+     * 取消 POM 正在进行的 Maven 运行
+     * @param progressKey 只取消该视图的运行，未指定时取消所有运行
+     */
+    private cancelMavenRuns(pomPath: string, progressKey?: string): void {
+        for (const [runKey, sources] of this.mavenRuns) {
+            if (progressKey ? runKey === `${pomPath}:${progressKey}` : runKey.startsWith(`${pomPath}:`)) {
+                sources.forEach(source => source.cancel());
+            }
+        }
     }
 
     private getMessageType(cacheKey: string): string {
@@ -366,68 +947,685 @@ export class PomViewProvider {
         }
     }
 
+    /**
+     * 在编辑器中定位依赖
+     * 传递依赖定位到引入它的直接依赖；声明或托管版本位于父 POM、BOM 时打开对应文件
+     * @param dependencyPath 从直接依赖到该依赖的路径（不含项目本身）
+     */
     private async handleLocateInEditor(
         uri: vscode.Uri,
         groupId: string,
-        artifactId: string
+        artifactId: string,
+        dependencyPath?: Array<{ groupId: string; artifactId: string }>
     ): Promise<void> {
         try {
-            // 打开或显示 pom.xml 文件
             const document = await vscode.workspace.openTextDocument(uri);
-            const editor = await vscode.window.showTextDocument(document, vscode.ViewColumn.One);
-
-            const text = document.getText();
-            const groupIdPattern = `<groupId>${this.escapeRegex(groupId)}</groupId>`;
-            const artifactIdPattern = `<artifactId>${this.escapeRegex(artifactId)}</artifactId>`;
-
-            // 查找所有 groupId 匹配位置
-            let bestRange: vscode.Range | undefined;
-            let searchIndex = 0;
+            const directDependency = dependencyPath && dependencyPath.length > 0
+                ? dependencyPath[0]
+                : { groupId, artifactId };
+
+            const result = await PomHierarchy.locateDependency(
+                uri.fsPath,
+                PomDocument.parse(document.getText()),
+                groupId,
+                artifactId,
+                directDependency
+            );
+            if (!result) {
+                await vscode.window.showTextDocument(document, vscode.ViewColumn.One);
+                vscode.window.showInformationMessage(t('error.notFoundInPom', groupId, artifactId));
+                return;
+            }
 
-            while (true) {
-                const groupIdIndex = text.indexOf(groupIdPattern, searchIndex);
-                if (groupIdIndex === -1) {
-                    break;
+            // 版本由父 POM 或 BOM 管理时直接打开托管条目
+            if (result.managed && result.managed.file.path !== result.file.path) {
+                await this.revealElement(result.managed);
+                vscode.window.showInformationMessage(
+                    t('msg.versionManagedIn', `${groupId}:${artifactId}`, vscode.workspace.asRelativePath(result.managed.file.path))
+                );
+            } else {
+                await this.revealElement(result);
+            }
+        } catch (error: any) {
+            console.error('定位到编辑器失败:', error);
+            vscode.window.showErrorMessage(t('error.locateFailed', error.message));
+        }
+    }
+
+    /**
+     * 打开 POM 文件并选中元素
+     */
+    public async revealElement(target: DependencyTarget): Promise<void> {
+        const document = await vscode.workspace.openTextDocument(vscode.Uri.file(target.file.path));
+        const editor = await vscode.window.showTextDocument(document, vscode.ViewColumn.One);
+        const range = new vscode.Range(
+            document.positionAt(target.element.start),
+            document.positionAt(target.element.end)
+        );
+        editor.revealRange(range, vscode.TextEditorRevealType.InCenter);
+        editor.selection = new vscode.Selection(range.start, range.end);
+    }
+
+    /**
+     * 在引入传递依赖的直接依赖中添加 <exclusion>
+     */
+    private async handleExcludeDependency(
+        uri: vscode.Uri,
+        groupId: string,
+        artifactId: string,
+        directGroupId: string,
+        directArtifactId: string
+    ): Promise<void> {
+        try {
+            const document = await vscode.workspace.openTextDocument(uri);
+            const declaration = PomDocument.parse(document.getText()).findDependency(directGroupId, directArtifactId);
+            if (!declaration) {
+                vscode.window.showWarningMessage(t('error.notFoundInPom', directGroupId, directArtifactId));
+                return;
+            }
+
+            const edit = PomEditUtils.createExclusionEdit(document, declaration, groupId, artifactId);
+            if (!edit) {
+                vscode.window.showInformationMessage(
+                    t('msg.alreadyExcluded', `${groupId}:${artifactId}`, `${directGroupId}:${directArtifactId}`)
+                );
+                return;
+            }
+
+            await this.applyPomEdit(document, edit);
+        } catch (error: any) {
+            console.error('添加依赖排除失败:', error);
+            vscode.window.showErrorMessage(t('error.excludeFailed', error.message));
+        }
+    }
+
+    /**
+     * 应用 POM 编辑并保存文件，然后强制刷新依赖视图
+     * @returns 编辑是否已应用
+     */
+    private async applyPomEdit(
+        document: vscode.TextDocument,
+        edit: vscode.WorkspaceEdit
+    ): Promise<boolean> {
+        const applied = await vscode.workspace.applyEdit(edit);
+        if (!applied) {
+            return false;
+        }
+
+        // Maven 读取的是磁盘上的文件，必须先保存再刷新
+        if (document.isDirty) {
+            await document.save();
+        }
+        await this.refreshDependencies(document.uri);
+        return true;
+    }
+
+    /**
+     * 应用版本更新，修改的是父 POM 中的属性时同时刷新当前 POM 的依赖
+     */
+    private async applyVersionUpdate(uri: vscode.Uri, update: VersionUpdateResult): Promise<void> {
+        const applied = await this.applyPomEdit(update.document, update.edit);
+        if (applied && update.document.uri.fsPath !== uri.fsPath) {
+            await this.refreshDependencies(uri);
+        }
+    }
+
+    /**
+     * 刷新依赖数据：已打开面板时通知 Webview 跳过缓存重新加载，否则在后台重建缓存的依赖树
+     */
+    private async refreshDependencies(uri: vscode.Uri): Promise<void> {
+        const panel = this.panels.get(uri.fsPath);
+        if (panel) {
+            panel.webview.postMessage({ type: 'refreshDependencies' });
+            return;
+        }
+
+        await this.cacheManager.invalidate(uri.fsPath);
+        this.cacheManager.preloadData(uri.fsPath, 'dependencyTree');
+    }
+
+    /**
+     * 查询依赖的可用版本，可直接应用到 pom.xml
+     */
+    public async checkVersions(uri: vscode.Uri, groupId: string, artifactId: string): Promise<void> {
+        await this.handleOpenMvnRepository(uri, groupId, artifactId);
+    }
+
+    /**
+     * 在编辑器中定位依赖，传递依赖定位到引入它的直接依赖
+     * @param dependencyPath 从直接依赖到该依赖的路径
+     */
+    public async locateDependency(
+        uri: vscode.Uri,
+        groupId: string,
+        artifactId: string,
+        dependencyPath?: Array<{ groupId: string; artifactId: string }>
+    ): Promise<void> {
+        await this.handleLocateInEditor(uri, groupId, artifactId, dependencyPath);
+    }
+
+    /**
+     * 将选中的版本写入 POM：更新直接声明、引用的属性或 dependencyManagement 条目；
+     * 仅为传递依赖时提示添加托管版本
+     */
+    private async applyDependencyVersion(
+        uri: vscode.Uri,
+        groupId: string,
+        artifactId: string,
+        version: string
+    ): Promise<void> {
+        try {
+            const document = await vscode.workspace.openTextDocument(uri);
+            const update = await PomEditUtils.createVersionUpdateEdit(document, groupId, artifactId, version);
+            if (update) {
+                await this.applyVersionUpdate(uri, update);
+                return;
+            }
+
+            const addManaged = t('ui.addManagedVersion');
+            const answer = await vscode.window.showInformationMessage(
+                t('msg.onlyTransitive', `${groupId}:${artifactId}`, version),
+                addManaged
+            );
+            if (answer !== addManaged) {
+                return;
+            }
+
+            const edit = PomEditUtils.createAddDependencyEdit(
+                document,
+                { groupId, artifactId, version },
+                'dependencyManagement'
+            );
+            await this.applyPomEdit(document, edit);
+        } catch (error: any) {
+            console.error('更新依赖版本失败:', error);
+            vscode.window.showErrorMessage(t('error.applyVersionFailed', error.message));
+        }
+    }
+
+    /**
+     * 一键解决依赖冲突
+     * @param action pin：在 dependencyManagement 中锁定版本；exclude：排除被省略的路径；declare：直接声明依赖
+     * @param conflict Webview 中展示的冲突信息
+     */
+    private async handleResolveConflict(
+        uri: vscode.Uri,
+        action: 'pin' | 'exclude' | 'declare',
+        conflict: DependencyConflict
+    ): Promise<void> {
+        const { groupId, artifactId } = conflict;
+        try {
+            const document = await vscode.workspace.openTextDocument(uri);
+
+            if (action === 'exclude') {
+                const edit = this.createConflictExclusionEdit(document, conflict);
+                if (!edit) {
+                    vscode.window.showInformationMessage(t('msg.noLosingPaths', `${groupId}:${artifactId}`));
+                    return;
+                }
+                await this.applyPomEdit(document, edit);
+                return;
+            }
+
+            const version = await this.pickConflictVersion(conflict);
+            if (!version) {
+                return;
+            }
+
+            // pin 更新 dependencyManagement 中的托管版本（或它引用的属性），declare 更新直接声明；没有对应条目时新增
+            const section = action === 'pin' ? 'dependencyManagement' : 'dependencies';
+            const update = await PomEditUtils.createVersionUpdateEdit(document, groupId, artifactId, version, section);
+            if (update) {
+                await this.applyVersionUpdate(uri, update);
+                return;
+            }
+            const edit = PomEditUtils.createAddDependencyEdit(
+                document,
+                { groupId, artifactId, version },
+                section
+            );
+            await this.applyPomEdit(document, edit);
+        } catch (error: any) {
+            console.error('解决依赖冲突失败:', error);
+            vscode.window.showErrorMessage(t('error.resolveConflictFailed', error.message));
+        }
+    }
+
+    /**
+     * 为每条被省略路径的直接依赖添加排除项；
+     * 同时引入 Maven 选用版本的直接依赖不会被排除
+     * @returns 合并后的 WorkspaceEdit，没有可排除的路径时返回 null
+     */
+    private createConflictExclusionEdit(
+        document: vscode.TextDocument,
+        conflict: DependencyConflict
+    ): vscode.WorkspaceEdit | null {
+        const keyOf = (node: { groupId: string; artifactId: string }) => `${node.groupId}:${node.artifactId}`;
+        const winningDirects = new Set(
+            conflict.requests.filter(r => !r.omitted && r.path.length > 0).map(r => keyOf(r.path[0]))
+        );
+
+        const pom = PomDocument.parse(document.getText());
+        const edit = new vscode.WorkspaceEdit();
+        const handled = new Set<string>();
+        let changed = false;
+
+        for (const request of conflict.requests) {
+            if (!request.omitted || request.path.length < 2) {
+                continue;
+            }
+            const direct = request.path[0];
+            const directKey = keyOf(direct);
+            if (winningDirects.has(directKey) || handled.has(directKey)) {
+                continue;
+            }
+            handled.add(directKey);
+
+            const declaration = pom.findDependency(direct.groupId, direct.artifactId);
+            if (declaration && PomEditUtils.createExclusionEdit(
+                document, declaration, conflict.groupId, conflict.artifactId, edit
+            )) {
+                changed = true;
+            }
+        }
+
+        return changed ? edit : null;
+    }
+
+    /**
+     * 从冲突中请求过的版本里选择一个，也可以查询仓库中的其他版本
+     */
+    private async pickConflictVersion(conflict: DependencyConflict): Promise<string | undefined> {
+        const counts = new Map<string, number>();
+        for (const request of conflict.requests) {
+            counts.set(request.version, (counts.get(request.version) ?? 0) + 1);
+        }
+
+        const items: vscode.QuickPickItem[] = MavenVersion.sortDescending([...counts.keys()]).map(version => ({
+            label: version,
+            description: version === conflict.resolvedVersion ? t('ui.conflictPicked') : undefined,
+            detail: t('ui.conflictRequestCount', counts.get(version))
+        }));
+        const otherItem: vscode.QuickPickItem = { label: t('ui.otherVersion') };
+
+        const selected = await vscode.window.showQuickPick([...items, otherItem], {
+            placeHolder: t('ui.selectConflictVersion', `${conflict.groupId}:${conflict.artifactId}`)
+        });
+        if (selected === otherItem) {
+            return this.pickVersion(conflict.groupId, conflict.artifactId);
+        }
+        return selected?.label;
+    }
+
+    /**
+     * 比较依赖：解析当前工作区与所选 Git 版本（或上次保存前的快照）的依赖树，在新面板中展示差异
+     * @param uri pom.xml 文件 URI
+     */
+    public async compareDependencies(uri: vscode.Uri): Promise<void> {
+        const pomPath = uri.fsPath;
+        try {
+            const base = await this.pickCompareBase(pomPath);
+            if (!base) {
+                return;
+            }
+
+            const changes = await vscode.window.withProgress(
+                {
+                    location: vscode.ProgressLocation.Notification,
+                    title: t('progress.compareDependencies', base.label)
+                },
+                async () => {
+                    const baseTree = base.treeData ?? await this.resolveDependencyTreeAtRef(pomPath, base.ref!);
+                    let workingTree: DependencyNode[] = await this.cacheManager.get(pomPath, 'dependencyTree');
+                    if (!workingTree) {
+                        workingTree = await this.resolveDependencyTree(pomPath);
+                        await this.cacheManager.set(pomPath, 'dependencyTree', workingTree);
+                    }
+                    return DependencyDiff.compare(baseTree, workingTree);
                 }
+            );
+
+            this.showDependencyDiff(pomPath, changes, base.label, t('ui.workingCopy'));
+        } catch (error: any) {
+            console.error('比较依赖失败:', error);
+            vscode.window.showErrorMessage(t('error.compareFailed', error.message));
+        }
+    }
+
+    /**
+     * 选择比较基准：HEAD、其他分支/标签/提交，或上次保存前的依赖树快照
+     */
+    private async pickCompareBase(pomPath: string): Promise<CompareBase | undefined> {
+        const items: Array<vscode.QuickPickItem & { base?: CompareBase; pickRef?: boolean }> = [];
+
+        const snapshot = await this.cacheManager.getSnapshot(pomPath);
+        if (snapshot) {
+            items.push({
+                label: `$(history) ${t('ui.lastSavedSnapshot')}`,
+                description: new Date(snapshot.timestamp).toLocaleString(),
+                base: { label: t('ui.lastSavedSnapshot'), treeData: snapshot.treeData }
+            });
+        }
+        if (await GitUtils.isInRepository(pomPath)) {
+            items.push(
+                { label: '$(git-commit) HEAD', description: t('ui.compareHeadHint'), base: { label: 'HEAD', ref: 'HEAD' } },
+                { label: `$(git-branch) ${t('ui.compareOtherRef')}`, pickRef: true }
+            );
+        }
+        if (items.length === 0) {
+            vscode.window.showWarningMessage(t('msg.noCompareBase'));
+            return undefined;
+        }
+
+        const selected = await vscode.window.showQuickPick(items, { placeHolder: t('ui.selectCompareBase') });
+        if (!selected?.pickRef) {
+            return selected?.base;
+        }
+
+        const enterCommit = `$(edit) ${t('ui.enterCommit')}`;
+        const refs = await GitUtils.listRefs(pomPath);
+        let ref = await vscode.window.showQuickPick([...refs, enterCommit], { placeHolder: t('ui.selectRef') });
+        if (ref === enterCommit) {
+            ref = (await vscode.window.showInputBox({ prompt: t('ui.enterCommit') }))?.trim();
+        }
+        return ref ? { label: ref, ref } : undefined;
+    }
+
+    /**
+     * 解析 POM 在指定 Git 版本中的依赖树
+     * 该版本中仓库的 POM 文件按原目录结构导出到工作区之外的临时目录，相对路径的父 POM 与多模块项目的其他模块仍能找到，
+     * 与工作区一侧一样按多模块项目解析；解析后删除临时目录
+     */
+    private async resolveDependencyTreeAtRef(pomPath: string, ref: string): Promise<DependencyNode[]> {
+        const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'pom-compare-'));
+        try {
+            const refPomPath = await GitUtils.exportPomFiles(pomPath, ref, tempDir);
+            return await this.resolveDependencyTree(refPomPath, this.cacheManager.getActiveProfiles(pomPath), pomPath);
+        } finally {
+            fs.rmSync(tempDir, { recursive: true, force: true });
+        }
+    }
 
-                // 在该 groupId 附近查找 artifactId
-                const startSearch = Math.max(0, groupIdIndex - 500);
-                const endSearch = Math.min(text.length, groupIdIndex + 500);
-                const nearbyText = text.substring(startSearch, endSearch);
+    /**
+     * 解析依赖树（不报告进度），Maven 不可用时离线解析
+     * @param profiles 激活的 profile，默认为该 POM 选择的 profile
+     * @param settingsFrom 读取 Maven 配置所用的 POM，默认为该 POM
+     */
+    private async resolveDependencyTree(
+        pomPath: string,
+        profiles: string[] = this.cacheManager.getActiveProfiles(pomPath),
+        settingsFrom: string = pomPath
+    ): Promise<DependencyNode[]> {
+        if (await MavenUtils.shouldResolveOffline(settingsFrom)) {
+            return OfflineResolver.resolveDependencyTree(pomPath);
+        }
+        const treeText = await MavenUtils.getDependencyTree(pomPath, false, { profiles, settingsFrom });
+        return MavenUtils.parseDependencyTree(treeText);
+    }
 
-                if (nearbyText.includes(artifactIdPattern)) {
-                    // 找到了匹配的 groupId + artifactId 组合
-                    const position = document.positionAt(groupIdIndex);
-                    bestRange = new vscode.Range(position, position);
+    /**
+     * 在新面板中展示依赖差异，可复制或打开为 Markdown
+     */
+    private showDependencyDiff(pomPath: string, changes: DependencyChange[], baseLabel: string, targetLabel: string): void {
+        const panel = vscode.window.createWebviewPanel(
+            'mavenPomEditor.dependencyDiff',
+            t('ui.diffPanelTitle', path.basename(path.dirname(pomPath)), baseLabel),
+            vscode.ViewColumn.Beside,
+            {
+                enableScripts: true,
+                localResourceRoots: [
+                    vscode.Uri.joinPath(this.context.extensionUri, 'media')
+                ]
+            }
+        );
+        panel.webview.html = this.getDiffHtml(panel.webview, changes, baseLabel, targetLabel);
+
+        const markdown = DependencyDiff.toMarkdown(changes, baseLabel, targetLabel);
+        panel.webview.onDidReceiveMessage(async message => {
+            switch (message.type) {
+                case 'copyMarkdown':
+                    await vscode.env.clipboard.writeText(markdown);
+                    vscode.window.showInformationMessage(t('msg.markdownCopied'));
+                    break;
+                case 'openMarkdown': {
+                    const document = await vscode.workspace.openTextDocument({ language: 'markdown', content: markdown });
+                    await vscode.window.showTextDocument(document, vscode.ViewColumn.Active);
                     break;
                 }
+            }
+        });
+    }
+
+    private getDiffHtml(webview: vscode.Webview, changes: DependencyChange[], baseLabel: string, targetLabel: string): string {
+        const styleUri = webview.asWebviewUri(
+            vscode.Uri.joinPath(this.context.extensionUri, 'media', 'style.css')
+        );
+        const nonce = getNonce();
+        const theme = vscode.window.activeColorTheme.kind === vscode.ColorThemeKind.Dark ? 'vscode-dark' : 'vscode-light';
+
+        const summary = DependencyDiff.summarize(changes);
+        const summaryHtml = (Object.keys(summary) as DependencyChangeKind[])
+            .filter(kind => summary[kind] > 0)
+            .map(kind => `<span class="diff-kind diff-${kind}">${escapeHtml(DependencyDiff.getKindLabel(kind))}: ${summary[kind]}</span>`)
+            .join('');
+        const formatVersion = (version?: string, scope?: string) =>
+            version ? `${escapeHtml(version)}${scope ? ` <span class="diff-scope">${escapeHtml(scope)}</span>` : ''}` : '-';
+        const rowsHtml = changes.map(change => `
+                <tr class="diff-row-${change.kind}">
+                    <td><span class="diff-kind diff-${change.kind}">${escapeHtml(DependencyDiff.getKindLabel(change.kind))}</span></td>
+                    <td class="diff-coordinate">${escapeHtml(DependencyDiff.formatCoordinate(change))}</td>
+                    <td>${formatVersion(change.beforeVersion, change.beforeScope)}</td>
+                    <td>${formatVersion(change.afterVersion, change.afterScope)}</td>
+                </tr>`).join('');
+        const contentHtml = changes.length === 0
+            ? `<div class="empty-tree">${escapeHtml(t('ui.diffNoChanges'))}</div>`
+            : `<div class="diff-summary">${summaryHtml}</div>
+            <table class="diff-table">
+                <thead>
+                    <tr>
+                        <th>${escapeHtml(t('ui.diffChange'))}</th>
+                        <th>${escapeHtml(t('ui.diffDependency'))}</th>
+                        <th>${escapeHtml(baseLabel)}</th>
+                        <th>${escapeHtml(targetLabel)}</th>
+                    </tr>
+                </thead>
+                <tbody>${rowsHtml}
+                </tbody>
+            </table>`;
+
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <link href="${styleUri}" rel="stylesheet">
+    <title>${escapeHtml(t('ui.diffTitle', baseLabel, targetLabel))}</title>
+</head>
+<body class="${theme}">
+    <div class="diff-container">
+        <div class="dependency-toolbar">
+            <span class="panel-title">${escapeHtml(t('ui.diffTitle', baseLabel, targetLabel))}</span>
+            <div class="toolbar-buttons">
+                <button class="toolbar-btn" data-message="copyMarkdown">${escapeHtml(t('ui.copyMarkdown'))}</button>
+                <button class="toolbar-btn" data-message="openMarkdown">${escapeHtml(t('ui.openMarkdown'))}</button>
+            </div>
+        </div>
+        ${contentHtml}
+    </div>
+    <script nonce="${nonce}">
+        const vscode = acquireVsCodeApi();
+        document.querySelectorAll('[data-message]').forEach(button => {
+            button.addEventListener('click', () => vscode.postMessage({ type: button.getAttribute('data-message') }));
+        });
+    </script>
+</body>
+</html>`;
+    }
 
-                searchIndex = groupIdIndex + 1;
+    /**
+     * 添加依赖：搜索构件 → 选择版本 → 选择区段、scope、type、classifier → 写入 POM
+     * @param uri pom.xml 文件 URI
+     */
+    public async addDependency(uri: vscode.Uri): Promise<void> {
+        try {
+            const artifact = await this.searchArtifact();
+            if (!artifact) {
+                return;
             }
 
-            // 如果没找到组合，尝试单独查找 artifactId
-            if (!bestRange) {
-                const artifactIdIndex = text.indexOf(artifactIdPattern);
-                if (artifactIdIndex !== -1) {
-                    const position = document.positionAt(artifactIdIndex);
-                    bestRange = new vscode.Range(position, position);
-                }
+            const version = await this.pickVersion(artifact.groupId, artifact.artifactId);
+            if (!version) {
+                return;
             }
 
-            if (bestRange) {
-                editor.revealRange(bestRange, vscode.TextEditorRevealType.InCenter);
-                editor.selection = new vscode.Selection(bestRange.start, bestRange.start);
-            } else {
-                vscode.window.showInformationMessage(t('error.notFoundInPom', groupId, artifactId));
+            const sectionItems: Array<vscode.QuickPickItem & { section: DependencySection }> = [
+                { label: '<dependencies>', description: t('ui.sectionDependencies'), section: 'dependencies' },
+                { label: '<dependencyManagement>', description: t('ui.sectionDependencyManagement'), section: 'dependencyManagement' }
+            ];
+            const sectionItem = await vscode.window.showQuickPick(sectionItems, {
+                placeHolder: t('ui.selectSection')
+            });
+            if (!sectionItem) {
+                return;
+            }
+
+            const type = await vscode.window.showQuickPick(DEPENDENCY_TYPES, {
+                placeHolder: t('ui.selectType')
+            });
+            if (!type) {
+                return;
             }
+
+            const scopes = type === 'pom' && sectionItem.section === 'dependencyManagement'
+                ? [...DEPENDENCY_SCOPES, 'import']
+                : DEPENDENCY_SCOPES;
+            const scope = await vscode.window.showQuickPick(scopes, {
+                placeHolder: t('ui.selectScope')
+            });
+            if (!scope) {
+                return;
+            }
+
+            const classifier = await vscode.window.showInputBox({
+                prompt: t('ui.enterClassifier'),
+                placeHolder: 'sources, jdk8, linux-x86_64 ...'
+            });
+            if (classifier === undefined) {
+                return;
+            }
+
+            const document = await vscode.workspace.openTextDocument(uri);
+            const edit = PomEditUtils.createAddDependencyEdit(document, {
+                groupId: artifact.groupId,
+                artifactId: artifact.artifactId,
+                version,
+                scope,
+                type,
+                classifier: classifier.trim() || undefined
+            }, sectionItem.section);
+            await this.applyPomEdit(document, edit);
         } catch (error: any) {
-            console.error('定位到编辑器失败:', error);
-            vscode.window.showErrorMessage(t('error.locateFailed', error.message));
+            console.error('添加依赖失败:', error);
+            vscode.window.showErrorMessage(t('error.addDependencyFailed', error.message));
         }
     }
 
-    private escapeRegex(str: string): string {
-        return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    /**
+     * 在本地仓库与 Maven Central 中搜索构件
+     */
+    private searchArtifact(): Promise<ArtifactInfo | undefined> {
+        return new Promise(resolve => {
+            const quickPick = vscode.window.createQuickPick<ArtifactPickItem>();
+            quickPick.placeholder = t('ui.searchArtifact');
+            quickPick.matchOnDescription = true;
+            let searchTimer: NodeJS.Timeout | undefined;
+            let searchId = 0;
+            let resolved = false;
+
+            const toItem = (artifact: ArtifactInfo): ArtifactPickItem => ({
+                label: artifact.artifactId,
+                description: artifact.groupId,
+                detail: artifact.latestVersion
+                    ? `${artifact.latestVersion} [${artifact.source}]`
+                    : `[${artifact.source}]`,
+                artifact
+            });
+
+            quickPick.onDidChangeValue(value => {
+                if (searchTimer) {
+                    clearTimeout(searchTimer);
+                }
+                const query = value.trim();
+                if (query.length < 2) {
+                    quickPick.items = [];
+                    return;
+                }
+
+                searchTimer = setTimeout(async () => {
+                    const currentSearch = ++searchId;
+                    quickPick.busy = true;
+
+                    const items: ArtifactPickItem[] = [];
+                    const seen = new Set<string>();
+                    const addItems = (artifacts: ArtifactInfo[]) => {
+                        for (const artifact of artifacts) {
+                            const key = `${artifact.groupId}:${artifact.artifactId}`;
+                            if (!seen.has(key)) {
+                                seen.add(key);
+                                items.push(toItem(artifact));
+                            }
+                        }
+                    };
+
+                    // 直接输入 groupId:artifactId 时作为第一个候选
+                    const coordinates = query.split(':');
+                    if (coordinates.length === 2 && /^[\w.-]+$/.test(coordinates[0]) && /^[\w.-]+$/.test(coordinates[1])) {
+                        addItems([{ groupId: coordinates[0], artifactId: coordinates[1], source: t('ui.enteredCoordinates') }]);
+                    }
+
+                    const [local, remote] = await Promise.allSettled([
+                        MavenRepository.searchLocalArtifacts(query),
+                        MavenRepository.searchRemoteArtifacts(query)
+                    ]);
+                    if (currentSearch !== searchId) {
+                        return;
+                    }
+                    if (local.status === 'fulfilled') {
+                        addItems(local.value);
+                    }
+                    if (remote.status === 'fulfilled') {
+                        addItems(remote.value);
+                    } else {
+                        console.warn('Maven Central search failed:', remote.reason?.message);
+                    }
+
+                    quickPick.items = items;
+                    quickPick.busy = false;
+                }, 300);
+            });
+
+            quickPick.onDidAccept(() => {
+                const selected = quickPick.selectedItems[0];
+                if (selected) {
+                    resolved = true;
+                    resolve(selected.artifact);
+                    quickPick.hide();
+                }
+            });
+
+            quickPick.onDidHide(() => {
+                if (searchTimer) {
+                    clearTimeout(searchTimer);
+                }
+                if (!resolved) {
+                    resolve(undefined);
+                }
+                quickPick.dispose();
+            });
+
+            quickPick.show();
+        });
     }
 
     // source code generated by GenAI of Kiro starts
@@ -435,6 +1633,7 @@ export class PomViewProvider {
      * 从多个 Maven 仓库获取依赖版本列表并显示在 QuickPick 中
      */
     private async handleOpenMvnRepository(
+        uri: vscode.Uri,
         groupId: string,
         artifactId: string
     ): Promise<void> {
@@ -449,6 +1648,32 @@ export class PomViewProvider {
             return;
         }
         // source code generated by GenAI of Kiro ends
+        const version = await this.pickVersion(groupId, artifactId);
+        if (!version) {
+            return;
+        }
+
+        const applyItem: vscode.QuickPickItem = { label: t('ui.applyVersion') };
+        const copyItem: vscode.QuickPickItem = { label: t('ui.copyVersion') };
+        const action = await vscode.window.showQuickPick([applyItem, copyItem], {
+            placeHolder: `${groupId}:${artifactId}:${version}`
+        });
+
+        if (action === applyItem) {
+            await this.applyDependencyVersion(uri, groupId, artifactId, version);
+        } else if (action === copyItem) {
+            await vscode.env.clipboard.writeText(version);
+            vscode.window.showInformationMessage(
+                `Version ${version} copied to clipboard`
+            );
+        }
+    }
+
+    /**
+     * 获取可用版本列表并让用户选择
+     * @returns 选中的版本，取消或失败时返回 undefined
+     */
+    private async pickVersion(groupId: string, artifactId: string): Promise<string | undefined> {
         try {
             const versions = await vscode.window.withProgress(
                 {
@@ -457,7 +1682,7 @@ export class PomViewProvider {
                     cancellable: false
                 },
                 async () => {
-                    return await this.fetchAllRepoVersions(
+                    return await MavenRepository.fetchAllRepoVersions(
                         groupId, artifactId
                     );
                 }
@@ -467,7 +1692,7 @@ export class PomViewProvider {
                 vscode.window.showWarningMessage(
                     `No versions found for ${groupId}:${artifactId}`
                 );
-                return;
+                return undefined;
             }
 
             const items: vscode.QuickPickItem[] = versions.map(
@@ -486,182 +1711,44 @@ export class PomViewProvider {
                 matchOnDescription: true,
                 matchOnDetail: true
             });
-
-            if (selected) {
-                await vscode.env.clipboard.writeText(selected.label);
-                vscode.window.showInformationMessage(
-                    `Version ${selected.label} copied to clipboard`
-                );
-            }
+            return selected?.label;
         } catch (error: any) {
             console.error('Failed to fetch Maven versions:', error);
             vscode.window.showErrorMessage(
                 `Failed to fetch versions: ${error.message}`
             );
+            return undefined;
         }
     }
+    // source code generated by GenAI of Kiro ends
+}
 
-    private async fetchAllRepoVersions(
-        groupId: string,
-        artifactId: string
-    ): Promise<Array<{
-        version: string; timestamp: string; source: string
-    }>> {
-        const groupPath = groupId.replace(/\./g, '/');
-        const repos = [
-            { name: 'Maven Central', hostname: 'repo1.maven.org', path: `/maven2/${groupPath}/${artifactId}/` },
-            { name: 'Atlassian', hostname: 'maven.artifacts.atlassian.com', path: `/${groupPath}/${artifactId}/` }
-        ];
-        const allResults = await Promise.allSettled(
-            repos.map(repo => this.fetchFromRepo(repo.hostname, repo.path, repo.name))
-        );
-        const versionMap = new Map<string, { version: string; timestamp: string; source: string; date: Date }>();
-        const atlassianNoDates: Array<{ version: string; groupPath: string; artifactId: string }> = [];
-        for (const result of allResults) {
-            if (result.status === 'fulfilled') {
-                for (const v of result.value) {
-                    if (!versionMap.has(v.version)) {
-                        versionMap.set(v.version, v);
-                        if (v.source === 'Atlassian' && v.date.getTime() === 0) {
-                            atlassianNoDates.push({ version: v.version, groupPath, artifactId });
-                        }
-                    } else {
-                        const existing = versionMap.get(v.version)!;
-                        if (!existing.source.includes(v.source)) {
-                            existing.source += `, ${v.source}`;
-                        }
-                    }
-                }
-            } else {
-                console.warn('Repo fetch failed:', result.reason?.message);
-            }
-        }
-        if (atlassianNoDates.length > 0) {
-            const toFetch = atlassianNoDates.slice(0, 30);
-            const dateResults = await Promise.allSettled(
-                toFetch.map(v => this.fetchAtlassianVersionDate(v.groupPath, v.artifactId, v.version))
-            );
-            for (let i = 0; i < dateResults.length; i++) {
-                const dr = dateResults[i];
-                if (dr.status === 'fulfilled' && dr.value) {
-                    const entry = versionMap.get(toFetch[i].version);
-                    if (entry) {
-                        entry.date = dr.value;
-                        entry.timestamp = dr.value.toISOString().replace('T', ' ').substring(0, 16);
-                    }
-                }
-            }
-        }
-        const merged = Array.from(versionMap.values());
-        merged.sort((a, b) => b.date.getTime() - a.date.getTime());
-        return merged.map(({ version, timestamp, source }) => ({ version, timestamp, source }));
-    }
+type ArtifactPickItem = vscode.QuickPickItem & { artifact: ArtifactInfo };
 
-    private async fetchAtlassianVersionDate(groupPath: string, artifactId: string, version: string): Promise<Date | null> {
-        const https = await import('https');
-        const pomPath = `/${groupPath}/${artifactId}/${version}/${artifactId}-${version}.pom`;
-        return new Promise((resolve) => {
-            const req = https.request({
-                hostname: 'maven.artifacts.atlassian.com', path: pomPath, method: 'HEAD',
-                headers: { 'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/147.0.0.0 Safari/537.36' }
-            }, (res) => {
-                const lastMod = res.headers['last-modified'];
-                resolve(lastMod ? new Date(lastMod) : null);
-                res.resume();
-            });
-            req.on('error', () => resolve(null));
-            req.setTimeout(5000, () => { req.destroy(); resolve(null); });
-            req.end();
-        });
-    }
+/**
+ * 依赖比较的基准：Git 版本或已解析的依赖树快照
+ */
+interface CompareBase {
+    label: string;
+    ref?: string;
+    treeData?: DependencyNode[];
+}
 
-    private async fetchFromRepo(hostname: string, repoPath: string, repoName: string): Promise<Array<{ version: string; timestamp: string; source: string; date: Date }>> {
-        const https = await import('https');
-        const options = {
-            hostname, path: repoPath, method: 'GET',
-            headers: {
-                'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/147.0.0.0 Safari/537.36',
-                'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
-                'Accept-Language': 'en-US,en;q=0.9'
-            }
-        };
-        return new Promise((resolve, reject) => {
-            const request = https.request(options, (res) => {
-                if ((res.statusCode === 301 || res.statusCode === 302) && res.headers.location) {
-                    // source code generated by GenAI of Kiro starts
-                    res.resume(); // Drain original response to free socket
-                    const redirectReq = https.get(res.headers.location, { headers: options.headers }, (rRes) => {
-                        this.handleRepoResponse(rRes, repoName, resolve, reject);
-                    });
-                    redirectReq.on('error', reject);
-                    redirectReq.setTimeout(15000, () => { redirectReq.destroy(); reject(new Error(`${repoName}: Redirect timeout`)); });
-                    // source code generated by GenAI of Kiro ends
-                    return;
-                }
-                this.handleRepoResponse(res, repoName, resolve, reject);
-            });
-            request.on('error', reject);
-            request.setTimeout(15000, () => { request.destroy(); reject(new Error(`${repoName}: Request timeout`)); });
-            request.end();
-        });
-    }
+/** 依赖分析中被忽略的条目，按 POM 路径保存 */
+const IGNORED_ANALYSIS_STATE_KEY = 'mavenPomEditor.ignoredDependencyAnalysis';
 
-    private handleRepoResponse(res: any, repoName: string, resolve: (value: Array<{ version: string; timestamp: string; source: string; date: Date }>) => void, reject: (reason: Error) => void): void {
-        let data = '';
-        res.on('data', (chunk: Buffer) => { data += chunk.toString(); });
-        res.on('end', () => {
-            try {
-                if (res.statusCode === 404) { resolve([]); return; }
-                if (res.statusCode !== 200) { reject(new Error(`${repoName} HTTP ${res.statusCode}`)); return; }
-                resolve(this.parseRepoHtml(data, repoName));
-            } catch (e: any) { reject(new Error(`${repoName}: parse error: ${e.message}`)); }
-        });
-        res.on('error', (err: Error) => reject(err));
-    }
-
-    private parseRepoHtml(html: string, repoName: string): Array<{ version: string; timestamp: string; source: string; date: Date }> {
-        const versions: Array<{ version: string; timestamp: string; source: string; date: Date }> = [];
-        const htmlRegex = /<a\s+href="([^"]+\/)"\s*[^>]*>[^<]+<\/a>\s+(\d{4}-\d{2}-\d{2}\s+\d{2}:\d{2})/g;
-        let match;
-        let foundHtmlDates = false;
-        while ((match = htmlRegex.exec(html)) !== null) {
-            const ver = match[1].replace(/\/$/, '');
-            const dateStr = match[2];
-            if (this.isVersionDir(ver)) {
-                foundHtmlDates = true;
-                versions.push({ version: ver, timestamp: dateStr, source: repoName, date: new Date(dateStr.replace(' ', 'T') + ':00Z') });
-            }
-        }
-        if (!foundHtmlDates) {
-            const linkRegex = /<a\s+href="([^"]+\/)"\s*[^>]*>[^<]+<\/a>/g;
-            while ((match = linkRegex.exec(html)) !== null) {
-                const ver = match[1].replace(/\/$/, '');
-                if (this.isVersionDir(ver)) {
-                    versions.push({ version: ver, timestamp: 'N/A', source: repoName, date: new Date(0) });
-                }
-            }
-            if (versions.length === 0) {
-                for (const line of html.split('\n')) {
-                    const textMatch = line.match(/^\s*([^\s<>]+\/)\s+/);
-                    if (textMatch) {
-                        const ver = textMatch[1].replace(/\/$/, '');
-                        if (this.isVersionDir(ver)) {
-                            versions.push({ version: ver, timestamp: 'N/A', source: repoName, date: new Date(0) });
-                        }
-                    }
-                }
-            }
-        }
-        versions.sort((a, b) => b.date.getTime() - a.date.getTime());
-        return versions;
-    }
+/** 向视图发送 Maven 进度的最小间隔 */
+const PROGRESS_INTERVAL_MS = 200;
 
-    private isVersionDir(name: string): boolean {
-        if (!name || name === '..' || name === '.') { return false; }
-        if (name.includes('.xml') || name.includes('.md5') || name.includes('.sha') || name.includes('.asc') || name.includes('.index') || name === 'maven-metadata') { return false; }
-        return /^\d/.test(name);
-    }
-    // source code generated by GenAI of Kiro ends
+const DEPENDENCY_SCOPES = ['compile', 'provided', 'runtime', 'test', 'system'];
+const DEPENDENCY_TYPES = ['jar', 'pom', 'war', 'test-jar', 'maven-plugin', 'ejb', 'zip'];
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
 }
 
 function getNonce(): string {
@@ -0,0 +1,556 @@
+import * as vscode from 'vscode';
+import { t } from './i18n';
+import { PomDocument, PomDependency, PomPlugin, PomProperty, XmlElement } from './pomDocument';
+import { PomHierarchy } from './pomHierarchy';
+import { PomProperties } from './pomProperties';
+
+/**
+ * POM 编辑工具类
+ * 基于 PomDocument 定位 pom.xml 中的元素，并生成可预览的 WorkspaceEdit
+ */
+export class PomEditUtils {
+    /**
+     * 生成在依赖声明中添加 <exclusion> 的编辑
+     * @param document pom.xml 文档
+     * @param declaration 依赖声明
+     * @param groupId 被排除依赖的 groupId
+     * @param artifactId 被排除依赖的 artifactId
+     * @param edit 追加到已有的 WorkspaceEdit（用于一次排除多条路径）
+     * @returns WorkspaceEdit，如果已经存在相同的排除项则返回 null
+     */
+    static createExclusionEdit(
+        document: vscode.TextDocument,
+        declaration: PomDependency,
+        groupId: string,
+        artifactId: string,
+        edit: vscode.WorkspaceEdit = new vscode.WorkspaceEdit()
+    ): vscode.WorkspaceEdit | null {
+        const text = document.getText();
+        const dependency = declaration.element;
+
+        const existingExclusions = PomDocument.child(dependency, 'exclusions');
+        const alreadyExcluded = PomDocument.childElements(existingExclusions, 'exclusion').some(exclusion =>
+            PomDocument.childText(exclusion, 'groupId') === groupId &&
+            PomDocument.childText(exclusion, 'artifactId') === artifactId
+        );
+        if (alreadyExcluded) {
+            return null;
+        }
+
+        const indent = this.getBlockIndent(text, dependency);
+        const exclusionLines = [
+            `${indent.unit}<exclusion>`,
+            `${indent.unit}${indent.unit}<groupId>${groupId}</groupId>`,
+            `${indent.unit}${indent.unit}<artifactId>${artifactId}</artifactId>`,
+            `${indent.unit}</exclusion>`
+        ];
+
+        let insertOffset: number;
+        let lines: string[];
+        let closingIndent: string;
+        if (existingExclusions) {
+            insertOffset = existingExclusions.contentEnd;
+            lines = exclusionLines.map(line => `${indent.child}${line}`);
+            closingIndent = indent.child;
+        } else {
+            insertOffset = dependency.contentEnd;
+            lines = [
+                `${indent.child}<exclusions>`,
+                ...exclusionLines.map(line => `${indent.child}${line}`),
+                `${indent.child}</exclusions>`
+            ];
+            closingIndent = indent.base;
+        }
+
+        this.insertLinesBefore(edit, document, insertOffset, lines, closingIndent, {
+            needsConfirmation: true,
+            label: t('edit.excludeDependency', groupId, artifactId)
+        });
+        return edit;
+    }
+
+    /**
+     * 生成更新依赖版本的编辑
+     * 依次尝试：直接声明中的 <version>、<dependencyManagement> 中的 <version>，以及同坐标插件的 <version>；
+     * 如果版本引用了 ${property}，则更新继承链上最近声明该属性的 POM 中的属性值，该 POM 不在工作区中时无法修改
+     * @param document pom.xml 文档
+     * @param groupId 依赖的 groupId
+     * @param artifactId 依赖的 artifactId
+     * @param version 新版本
+     * @param section 只更新该区段中的依赖声明，声明没有 <version> 时添加
+     * @returns 编辑结果，如果 POM 中没有可更新的版本声明则返回 null
+     */
+    static async createVersionUpdateEdit(
+        document: vscode.TextDocument,
+        groupId: string,
+        artifactId: string,
+        version: string,
+        section?: DependencySection
+    ): Promise<VersionUpdateResult | null> {
+        const text = document.getText();
+        const pom = PomDocument.parse(text);
+
+        const findPlugin = (location: PomPlugin['location']) => pom.getPlugins().find(plugin =>
+            plugin.location === location && plugin.groupId === groupId && plugin.artifactId === artifactId
+        );
+        const candidates: Array<{
+            declaration: PomDependency | PomPlugin | undefined;
+            target: VersionUpdateResult['target'];
+            section?: DependencySection;
+        }> = [
+            { declaration: pom.findDependency(groupId, artifactId), target: 'declared', section: 'dependencies' },
+            { declaration: pom.findDependency(groupId, artifactId, 'dependencyManagement'), target: 'managed', section: 'dependencyManagement' },
+            { declaration: findPlugin('plugins'), target: 'declared' },
+            { declaration: findPlugin('pluginManagement'), target: 'managed' }
+        ];
+
+        for (const { declaration, target } of candidates.filter(candidate => !section || candidate.section === section)) {
+            const versionElement = PomDocument.child(declaration?.element, 'version');
+            if (!versionElement) {
+                // 指定区段时在 <artifactId> 之后添加 <version>
+                const artifactIdElement = PomDocument.child(declaration?.element, 'artifactId');
+                if (section && artifactIdElement) {
+                    const eol = document.eol === vscode.EndOfLine.CRLF ? '\r\n' : '\n';
+                    const edit = new vscode.WorkspaceEdit();
+                    edit.insert(
+                        document.uri,
+                        document.positionAt(artifactIdElement.end),
+                        `${eol}${this.getLineIndent(text, artifactIdElement.start)}<version>${version}</version>`,
+                        { needsConfirmation: true, label: t('edit.updateVersion', groupId, artifactId, version) }
+                    );
+                    return { edit, document, target };
+                }
+                continue;
+            }
+
+            const propertyMatch = versionElement.text.match(/^\$\{([^}]+)\}$/);
+            const edit = new vscode.WorkspaceEdit();
+
+            if (propertyMatch) {
+                const propertyName = propertyMatch[1];
+                const declaring = (await PomHierarchy.resolveChain(document.uri.fsPath, pom))
+                    .find(file => file.pom.findProperty(propertyName));
+                if (!declaring) {
+                    throw new Error(t('error.propertyNotDefined', propertyName));
+                }
+                if (!PomProperties.isInWorkspace(declaring.path)) {
+                    throw new Error(t('msg.propertyNotEditable', propertyName));
+                }
+                const declaringDocument = declaring.path === document.uri.fsPath
+                    ? document
+                    : await vscode.workspace.openTextDocument(vscode.Uri.file(declaring.path));
+                // 以编辑器中的最新内容重新定位声明
+                const property = PomDocument.parse(declaringDocument.getText()).findProperty(propertyName);
+                if (!property) {
+                    throw new Error(t('error.propertyNotDefined', propertyName));
+                }
+                this.replaceContent(edit, declaringDocument, property, version, {
+                    needsConfirmation: true,
+                    label: t('edit.updateProperty', propertyName, version)
+                });
+                return { edit, document: declaringDocument, target, propertyName };
+            }
+
+            this.replaceContent(edit, document, versionElement, version, {
+                needsConfirmation: true,
+                label: t('edit.updateVersion', groupId, artifactId, version)
+            });
+            return { edit, document, target };
+        }
+
+        return null;
+    }
+
+    /**
+     * 生成添加依赖的编辑
+     * 目标区段不存在时会自动创建 <dependencies> 或 <dependencyManagement>
+     * @param document pom.xml 文档
+     * @param dependency 要添加的依赖坐标
+     * @param section 目标区段
+     * @param edit 追加到已有的 WorkspaceEdit（用于同时修改多个文件）
+     */
+    static createAddDependencyEdit(
+        document: vscode.TextDocument,
+        dependency: DependencySpec,
+        section: DependencySection,
+        edit: vscode.WorkspaceEdit = new vscode.WorkspaceEdit()
+    ): vscode.WorkspaceEdit {
+        const text = document.getText();
+        const project = PomDocument.parse(text).project;
+        // 缺少 </project> 时无法确定插入位置
+        if (!project || !project.closed) {
+            throw new Error(t('error.invalidPom'));
+        }
+
+        const unit = this.detectIndentUnit(text);
+        const metadata: vscode.WorkspaceEditEntryMetadata = {
+            needsConfirmation: true,
+            label: section === 'dependencyManagement'
+                ? t('edit.addManagedDependency', dependency.groupId, dependency.artifactId)
+                : t('edit.addDependency', dependency.groupId, dependency.artifactId)
+        };
+
+        const dependencyLines = (indent: string): string[] => {
+            const lines = [`${indent}<dependency>`];
+            const fields: Array<[string, string | undefined]> = [
+                ['groupId', dependency.groupId],
+                ['artifactId', dependency.artifactId],
+                ['version', dependency.version],
+                ['type', dependency.type && dependency.type !== 'jar' ? dependency.type : undefined],
+                ['classifier', dependency.classifier],
+                ['scope', dependency.scope && dependency.scope !== 'compile' ? dependency.scope : undefined]
+            ];
+            for (const [name, value] of fields) {
+                if (value) {
+                    lines.push(`${indent}${unit}<${name}>${value}</${name}>`);
+                }
+            }
+            lines.push(`${indent}</dependency>`);
+            return lines;
+        };
+
+        // 已存在目标 <dependencies>：追加到末尾
+        const management = PomDocument.child(project, 'dependencyManagement');
+        const dependencies = section === 'dependencyManagement'
+            ? PomDocument.child(management, 'dependencies')
+            : PomDocument.child(project, 'dependencies');
+        if (dependencies) {
+            const indent = this.getLineIndent(text, dependencies.start);
+            this.insertLinesBefore(edit, document, dependencies.contentEnd, dependencyLines(indent + unit), indent, metadata);
+            return edit;
+        }
+
+        // 已存在 <dependencyManagement> 但没有 <dependencies>
+        if (section === 'dependencyManagement' && management) {
+            const indent = this.getLineIndent(text, management.start);
+            const lines = [
+                `${indent}${unit}<dependencies>`,
+                ...dependencyLines(indent + unit + unit),
+                `${indent}${unit}</dependencies>`
+            ];
+            this.insertLinesBefore(edit, document, management.contentEnd, lines, indent, metadata);
+            return edit;
+        }
+
+        // 创建新的区段：<dependencyManagement> 放在 <dependencies> 之前，<dependencies> 放在 <build> 之前
+        let lines: string[];
+        if (section === 'dependencyManagement') {
+            lines = [
+                `${unit}<dependencyManagement>`,
+                `${unit}${unit}<dependencies>`,
+                ...dependencyLines(unit + unit + unit),
+                `${unit}${unit}</dependencies>`,
+                `${unit}</dependencyManagement>`
+            ];
+        } else {
+            lines = [
+                `${unit}<dependencies>`,
+                ...dependencyLines(unit + unit),
+                `${unit}</dependencies>`
+            ];
+        }
+
+        const anchorNames = section === 'dependencyManagement'
+            ? ['dependencies', 'build', 'profiles']
+            : ['build', 'profiles'];
+        const anchor = anchorNames
+            .map(name => PomDocument.child(project, name))
+            .find(element => element !== undefined);
+        if (anchor) {
+            const eol = document.eol === vscode.EndOfLine.CRLF ? '\r\n' : '\n';
+            const lineStart = text.lastIndexOf('\n', anchor.start - 1) + 1;
+            edit.insert(document.uri, document.positionAt(lineStart), lines.map(line => line + eol).join('') + eol, metadata);
+        } else {
+            this.insertLinesBefore(edit, document, project.contentEnd, lines, '', metadata);
+        }
+        return edit;
+    }
+
+    /**
+     * 生成删除依赖声明的编辑，依赖独占若干行时连同所在行一起删除
+     * @param document pom.xml 文档
+     * @param declaration 依赖声明
+     */
+    static createRemoveDependencyEdit(
+        document: vscode.TextDocument,
+        declaration: PomDependency
+    ): vscode.WorkspaceEdit {
+        const edit = new vscode.WorkspaceEdit();
+        this.deleteElement(edit, document, declaration.element, {
+            needsConfirmation: true,
+            label: t('edit.removeDependency', declaration.groupId, declaration.artifactId)
+        });
+        return edit;
+    }
+
+    /**
+     * 生成删除依赖 <version> 的编辑（版本改由 dependencyManagement 托管时使用）
+     * @param edit 追加到已有的 WorkspaceEdit（用于同时修改多个文件）
+     * @returns WorkspaceEdit，依赖没有 <version> 时返回 null
+     */
+    static createRemoveVersionEdit(
+        document: vscode.TextDocument,
+        declaration: PomDependency,
+        edit: vscode.WorkspaceEdit = new vscode.WorkspaceEdit()
+    ): vscode.WorkspaceEdit | null {
+        const versionElement = PomDocument.child(declaration.element, 'version');
+        if (!versionElement) {
+            return null;
+        }
+        this.deleteElement(edit, document, versionElement, {
+            needsConfirmation: true,
+            label: t('edit.removeVersion', declaration.groupId, declaration.artifactId)
+        });
+        return edit;
+    }
+
+    /**
+     * 生成在项目级 <properties> 中添加属性的编辑，没有 <properties> 时自动创建
+     * @param document pom.xml 文档
+     * @param name 属性名
+     * @param value 属性值（XML 特殊字符会被转义）
+     * @param edit 追加到已有的 WorkspaceEdit
+     */
+    static createAddPropertyEdit(
+        document: vscode.TextDocument,
+        name: string,
+        value: string,
+        edit: vscode.WorkspaceEdit = new vscode.WorkspaceEdit()
+    ): vscode.WorkspaceEdit {
+        const text = document.getText();
+        const project = PomDocument.parse(text).project;
+        if (!project || !project.closed) {
+            throw new Error(t('error.invalidPom'));
+        }
+
+        const unit = this.detectIndentUnit(text);
+        const escaped = value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+        const metadata: vscode.WorkspaceEditEntryMetadata = {
+            needsConfirmation: true,
+            label: t('edit.addProperty', name, value)
+        };
+
+        const properties = PomDocument.child(project, 'properties');
+        if (properties) {
+            const indent = this.getLineIndent(text, properties.start);
+            this.insertLinesBefore(edit, document, properties.contentEnd, [`${indent}${unit}<${name}>${escaped}</${name}>`], indent, metadata);
+            return edit;
+        }
+
+        // 创建新的 <properties>，放在依赖与构建配置之前
+        const lines = [
+            `${unit}<properties>`,
+            `${unit}${unit}<${name}>${escaped}</${name}>`,
+            `${unit}</properties>`
+        ];
+        const anchor = ['dependencyManagement', 'dependencies', 'build', 'profiles']
+            .map(anchorName => PomDocument.child(project, anchorName))
+            .find(element => element !== undefined);
+        if (anchor) {
+            const eol = document.eol === vscode.EndOfLine.CRLF ? '\r\n' : '\n';
+            const lineStart = text.lastIndexOf('\n', anchor.start - 1) + 1;
+            edit.insert(document.uri, document.positionAt(lineStart), lines.map(line => line + eol).join('') + eol, metadata);
+        } else {
+            this.insertLinesBefore(edit, document, project.contentEnd, lines, '', metadata);
+        }
+        return edit;
+    }
+
+    /**
+     * 生成修改属性值的编辑
+     * @param document 声明属性的 POM 文档
+     * @param property 属性声明
+     * @param value 新的属性值（XML 特殊字符会被转义）
+     */
+    static createPropertyValueEdit(
+        document: vscode.TextDocument,
+        property: PomProperty,
+        value: string,
+        edit: vscode.WorkspaceEdit = new vscode.WorkspaceEdit()
+    ): vscode.WorkspaceEdit {
+        const escaped = value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+        this.replaceContent(edit, document, property.element, escaped, {
+            needsConfirmation: true,
+            label: t('edit.updateProperty', property.name, value)
+        });
+        return edit;
+    }
+
+    /**
+     * 在编辑中加入重命名属性的修改：<properties> 中的声明标签（包括 profile 中的声明）与所有 ${...} 引用
+     * @param edit 要追加修改的 WorkspaceEdit（用于一次修改多个模块）
+     * @param document POM 文档
+     * @returns 该文档中被修改的位置数量
+     */
+    static addPropertyRenameEdits(
+        edit: vscode.WorkspaceEdit,
+        document: vscode.TextDocument,
+        oldName: string,
+        newName: string
+    ): number {
+        const text = document.getText();
+        const pom = PomDocument.parse(text);
+        const metadata: vscode.WorkspaceEditEntryMetadata = {
+            needsConfirmation: true,
+            label: t('edit.renameProperty', oldName, newName)
+        };
+        const replace = (start: number, end: number, newText: string) => {
+            edit.replace(document.uri, new vscode.Range(document.positionAt(start), document.positionAt(end)), newText, metadata);
+        };
+
+        let count = 0;
+        for (const declaration of pom.getPropertyDeclarations().filter(property => property.name === oldName)) {
+            const element = declaration.element;
+            replace(element.start + 1, element.start + 1 + oldName.length, newName);
+            // 有结束标签时同时修改结束标签
+            if (element.end > element.contentEnd) {
+                const closingNameStart = text.indexOf(oldName, element.contentEnd);
+                replace(closingNameStart, closingNameStart + oldName.length, newName);
+            }
+            count++;
+        }
+        for (const reference of pom.findPropertyReferences().filter(reference => reference.name === oldName)) {
+            replace(reference.start, reference.end, `\${${newName}}`);
+            count++;
+        }
+        return count;
+    }
+
+    /**
+     * 删除元素，元素独占若干行时连同所在行一起删除
+     */
+    static deleteElement(
+        edit: vscode.WorkspaceEdit,
+        document: vscode.TextDocument,
+        element: XmlElement,
+        metadata: vscode.WorkspaceEditEntryMetadata
+    ): void {
+        const text = document.getText();
+        let start = element.start;
+        let end = element.end;
+        const lineStart = text.lastIndexOf('\n', start - 1) + 1;
+        const lineEnd = text.indexOf('\n', end);
+        const restEnd = lineEnd === -1 ? text.length : lineEnd + 1;
+        if (text.substring(lineStart, start).trim().length === 0 && text.substring(end, restEnd).trim().length === 0) {
+            start = lineStart;
+            end = restEnd;
+        }
+        edit.delete(document.uri, new vscode.Range(document.positionAt(start), document.positionAt(end)), metadata);
+    }
+
+    /**
+     * 替换元素的文本内容
+     */
+    static replaceContent(
+        edit: vscode.WorkspaceEdit,
+        document: vscode.TextDocument,
+        range: XmlElement,
+        newText: string,
+        metadata: vscode.WorkspaceEditEntryMetadata
+    ): void {
+        edit.replace(
+            document.uri,
+            new vscode.Range(document.positionAt(range.contentStart), document.positionAt(range.contentEnd)),
+            newText,
+            metadata
+        );
+    }
+
+    /**
+     * 在结束标签前插入多行文本，保持结束标签的缩进
+     */
+    static insertLinesBefore(
+        edit: vscode.WorkspaceEdit,
+        document: vscode.TextDocument,
+        closingTagOffset: number,
+        lines: string[],
+        closingIndent: string,
+        metadata: vscode.WorkspaceEditEntryMetadata
+    ): void {
+        const text = document.getText();
+        const eol = document.eol === vscode.EndOfLine.CRLF ? '\r\n' : '\n';
+        const lineStart = text.lastIndexOf('\n', closingTagOffset - 1) + 1;
+        const beforeTag = text.substring(lineStart, closingTagOffset);
+
+        if (beforeTag.trim().length === 0) {
+            // 结束标签独占一行：在该行行首插入
+            const newText = lines.map(line => line + eol).join('');
+            edit.insert(document.uri, document.positionAt(lineStart), newText, metadata);
+        } else {
+            // 结束标签与内容在同一行：换行后插入
+            const newText = eol + lines.join(eol) + eol + closingIndent;
+            edit.insert(document.uri, document.positionAt(closingTagOffset), newText, metadata);
+        }
+    }
+
+    /**
+     * 计算依赖块的缩进信息
+     */
+    static getBlockIndent(text: string, block: XmlElement): BlockIndent {
+        const base = this.getLineIndent(text, block.start);
+        const content = text.substring(block.contentStart, block.contentEnd);
+        const childMatch = content.match(/\n([ \t]*)</);
+        let child = childMatch ? childMatch[1] : base + this.detectIndentUnit(text);
+        if (!child.startsWith(base) || child.length === base.length) {
+            child = base + this.detectIndentUnit(text);
+        }
+        return { base, child, unit: child.substring(base.length) };
+    }
+
+    /**
+     * 获取指定位置所在行的前导空白
+     */
+    static getLineIndent(text: string, offset: number): string {
+        const lineStart = text.lastIndexOf('\n', offset - 1) + 1;
+        const match = text.substring(lineStart, offset).match(/^[ \t]*/);
+        return match ? match[0] : '';
+    }
+
+    /**
+     * 探测文件使用的缩进单位（制表符或空格数）
+     */
+    static detectIndentUnit(text: string): string {
+        const match = text.match(/\n(\t+|[ ]{2,})</);
+        if (!match) {
+            return '    ';
+        }
+        return match[1].startsWith('\t') ? '\t' : match[1];
+    }
+}
+
+/**
+ * 依赖所在的区段
+ */
+export type DependencySection = 'dependencies' | 'dependencyManagement';
+
+/**
+ * 待写入 POM 的依赖坐标
+ */
+export interface DependencySpec {
+    groupId: string;
+    artifactId: string;
+    version?: string;
+    scope?: string;
+    type?: string;
+    classifier?: string;
+}
+
+/**
+ * 版本更新结果
+ */
+export interface VersionUpdateResult {
+    edit: vscode.WorkspaceEdit;
+    /** 被修改的 POM，属性在父 POM 中声明时为父 POM */
+    document: vscode.TextDocument;
+    target: 'declared' | 'managed';
+    propertyName?: string;
+}
+
+/**
+ * 元素缩进信息
+ */
+interface BlockIndent {
+    base: string;
+    child: string;
+    unit: string;
+}
@@ -0,0 +1,302 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import { PomDocument, PomDependency, XmlElement } from './pomDocument';
+import { MavenRepository } from './mavenRepository';
+
+/**
+ * POM 继承关系工具类
+ * 沿 <parent> 链与 import 的 BOM 查找依赖声明和托管版本，
+ * 父 POM 优先从工作区中查找，其次是本地仓库
+ */
+export class PomHierarchy {
+    private static workspaceIndex: Promise<Map<string, string[]>> | undefined;
+
+    /**
+     * 读取 POM 文件，已在编辑器中打开的文件使用编辑器中的内容
+     */
+    static loadPom(pomPath: string): PomFile {
+        const openDocument = vscode.workspace.textDocuments.find(document => document.uri.fsPath === pomPath);
+        const pom = openDocument ? PomDocument.parse(openDocument.getText()) : PomDocument.load(pomPath);
+        return { path: pomPath, pom };
+    }
+
+    /**
+     * 解析 POM 的继承链
+     * @returns 从自身开始、依次向上的 POM 列表，找不到的父 POM 之后的部分会被省略
+     */
+    static async resolveChain(pomPath: string, pom?: PomDocument): Promise<PomFile[]> {
+        const chain: PomFile[] = [pom ? { path: pomPath, pom } : this.loadPom(pomPath)];
+        const visited = new Set([pomPath]);
+
+        for (let parent = await this.findParentPom(chain[0]); parent; parent = await this.findParentPom(parent)) {
+            if (visited.has(parent.path)) {
+                break;
+            }
+            visited.add(parent.path);
+            chain.push(parent);
+        }
+        return chain;
+    }
+
+    /**
+     * 查找父 POM：先按 <relativePath>（默认 ../pom.xml），再在工作区与本地仓库中按坐标查找
+     */
+    static async findParentPom(file: PomFile): Promise<PomFile | undefined> {
+        const parent = file.pom.parent;
+        if (!parent?.artifactId) {
+            return undefined;
+        }
+
+        // <relativePath/> 为空时 Maven 跳过相对路径查找
+        const relativePath = parent.relativePath ?? '../pom.xml';
+        if (relativePath) {
+            let candidate = path.resolve(path.dirname(file.path), relativePath);
+            if (!candidate.endsWith('.xml')) {
+                candidate = path.join(candidate, 'pom.xml');
+            }
+            try {
+                const parentFile = this.loadPom(candidate);
+                if (parentFile.pom.artifactId === parent.artifactId && parentFile.pom.groupId === parent.groupId) {
+                    return parentFile;
+                }
+            } catch {
+                // 相对路径下没有 POM，继续按坐标查找
+            }
+        }
+
+        return this.findPom(parent.groupId, parent.artifactId, parent.version);
+    }
+
+    /**
+     * 按坐标查找 POM：优先工作区中版本一致的项目，其次是本地仓库中该版本的 .pom 文件
+     * 版本未知或含无法解析的占位符时，退回工作区中第一个同名项目
+     */
+    static async findPom(groupId: string | undefined, artifactId: string, version?: string): Promise<PomFile | undefined> {
+        const index = await this.getWorkspaceIndex();
+        const candidates = (index.get(`${groupId}:${artifactId}`) ?? []).map(pomPath => this.loadPom(pomPath));
+        const workspaceMatch = candidates.find(candidate => this.resolveValue(candidate.pom.version, [candidate]) === version);
+        if (workspaceMatch) {
+            return workspaceMatch;
+        }
+
+        if (!version || version.includes('${')) {
+            return candidates[0];
+        }
+        return this.findRepositoryPom(groupId, artifactId, version);
+    }
+
+    /**
+     * 在本地仓库中查找指定版本的 .pom 文件
+     */
+    static findRepositoryPom(groupId: string | undefined, artifactId: string, version?: string): PomFile | undefined {
+        if (!groupId || !version || version.includes('${')) {
+            return undefined;
+        }
+        const repositoryPath = path.join(
+            MavenRepository.getLocalRepositoryPath(),
+            ...groupId.split('.'),
+            artifactId,
+            version,
+            `${artifactId}-${version}.pom`
+        );
+        return fs.existsSync(repositoryPath) ? this.loadPom(repositoryPath) : undefined;
+    }
+
+    /**
+     * 查找托管版本：先查继承链上各 POM 自身的 <dependencyManagement>，再查其中 import 的 BOM
+     * @param chain 继承链（由 resolveChain 返回）
+     */
+    static async findManagedDependency(
+        chain: PomFile[],
+        groupId: string,
+        artifactId: string,
+        visited: Set<string> = new Set()
+    ): Promise<DependencyTarget | undefined> {
+        for (const file of chain) {
+            visited.add(file.path);
+            const dependency = file.pom.findDependency(groupId, artifactId, 'dependencyManagement');
+            if (dependency) {
+                return { file, element: dependency.element };
+            }
+        }
+
+        for (const bom of this.getImportedBoms(chain)) {
+            const bomFile = await this.findPom(bom.groupId, bom.artifactId, this.resolveValue(bom.version, chain));
+            if (!bomFile || visited.has(bomFile.path)) {
+                continue;
+            }
+            const bomChain = await this.resolveChain(bomFile.path, bomFile.pom);
+            const managed = await this.findManagedDependency(bomChain, groupId, artifactId, visited);
+            if (managed) {
+                return managed;
+            }
+        }
+
+        return undefined;
+    }
+
+    /**
+     * 定位依赖在 POM 中的来源
+     * 传递依赖定位到引入它的直接依赖的声明，版本被 <dependencyManagement> 锁定时同时返回托管条目；
+     * 直接依赖未写版本时同时返回托管版本所在位置；
+     * 当前 POM 没有声明时沿父 POM 查找，最后查找托管条目
+     * @param directDependency 引入该依赖的直接依赖，依赖本身是直接依赖时与其相同
+     */
+    static async locateDependency(
+        pomPath: string,
+        pom: PomDocument,
+        groupId: string,
+        artifactId: string,
+        directDependency: { groupId: string; artifactId: string }
+    ): Promise<DependencyLocateResult | undefined> {
+        const chain = await this.resolveChain(pomPath, pom);
+        const isDirect = directDependency.groupId === groupId && directDependency.artifactId === artifactId;
+
+        for (const file of chain) {
+            const declaration = file.pom.findDependency(directDependency.groupId, directDependency.artifactId);
+            if (!declaration) {
+                continue;
+            }
+            const result: DependencyLocateResult = { file, element: declaration.element };
+            if (!isDirect || !declaration.version) {
+                result.managed = await this.findManagedDependency(chain, groupId, artifactId);
+            }
+            return result;
+        }
+
+        const managed = await this.findManagedDependency(chain, groupId, artifactId);
+        if (managed) {
+            return managed;
+        }
+
+        // 插件依赖等其他位置的声明
+        const other = pom.getDependencies().find(dependency =>
+            dependency.groupId === groupId && dependency.artifactId === artifactId
+        );
+        return other ? { file: chain[0], element: other.element } : undefined;
+    }
+
+    /**
+     * 用继承链中定义的属性替换 ${...} 占位符，无法解析的占位符保持原样
+     */
+    static resolveValue(value: string | undefined, chain: PomFile[]): string | undefined {
+        if (!value) {
+            return value;
+        }
+        return value.replace(/\$\{([^}]+)\}/g, (placeholder, name: string) => {
+            for (const file of chain) {
+                const resolved = this.getBuiltinProperty(file.pom, name) ?? file.pom.properties.get(name);
+                if (resolved !== undefined) {
+                    return resolved;
+                }
+            }
+            return placeholder;
+        });
+    }
+
+    /**
+     * 构建工作区 POM 索引（groupId:artifactId → 文件路径），首次调用时扫描，之后复用
+     */
+    static getWorkspaceIndex(): Promise<Map<string, string[]>> {
+        if (!this.workspaceIndex) {
+            this.workspaceIndex = this.scanWorkspace().catch(error => {
+                console.warn('扫描工作区 POM 失败:', error);
+                this.workspaceIndex = undefined;
+                return new Map<string, string[]>();
+            });
+        }
+        return this.workspaceIndex;
+    }
+
+    /**
+     * 清除工作区 POM 索引，下次访问时重新扫描
+     */
+    static resetWorkspaceIndex(): void {
+        this.workspaceIndex = undefined;
+    }
+
+    private static async scanWorkspace(): Promise<Map<string, string[]>> {
+        const index = new Map<string, string[]>();
+        const files = await vscode.workspace.findFiles('**/pom.xml', '**/{node_modules,target}/**');
+        for (const file of files) {
+            try {
+                const pom = PomDocument.load(file.fsPath);
+                if (!pom.artifactId) {
+                    continue;
+                }
+                const key = `${pom.groupId}:${pom.artifactId}`;
+                index.set(key, [...(index.get(key) ?? []), file.fsPath]);
+            } catch (error) {
+                console.warn(`读取 POM 失败: ${file.fsPath}`, error);
+            }
+        }
+        return index;
+    }
+
+    /**
+     * 查找继承链中 import 的、在工作区与本地仓库中都找不到的 BOM
+     * @param chain 继承链（由 resolveChain 返回）
+     */
+    static async findMissingBoms(chain: PomFile[]): Promise<PomDependency[]> {
+        const missing: PomDependency[] = [];
+        for (const bom of this.getImportedBoms(chain)) {
+            if (!await this.findPom(bom.groupId, bom.artifactId, this.resolveValue(bom.version, chain))) {
+                missing.push(bom);
+            }
+        }
+        return missing;
+    }
+
+    private static getImportedBoms(chain: PomFile[]): PomDependency[] {
+        return chain.flatMap(file => file.pom.getDependencies().filter(dependency =>
+            dependency.location === 'dependencyManagement' &&
+            dependency.profileId === undefined &&
+            dependency.scope === 'import' &&
+            dependency.type === 'pom'
+        ));
+    }
+
+    /**
+     * Maven 内置的 project.* 属性
+     */
+    static getBuiltinProperty(pom: PomDocument, name: string): string | undefined {
+        switch (name) {
+            case 'project.version':
+            case 'pom.version':
+                return pom.version;
+            case 'project.groupId':
+                return pom.groupId;
+            case 'project.artifactId':
+                return pom.artifactId;
+            case 'project.parent.version':
+                return pom.parent?.version;
+            default:
+                return undefined;
+        }
+    }
+}
+
+/**
+ * 已解析的 POM 文件
+ */
+export interface PomFile {
+    path: string;
+    pom: PomDocument;
+}
+
+/**
+ * POM 文件中的某个元素
+ */
+export interface DependencyTarget {
+    file: PomFile;
+    element: XmlElement;
+}
+
+/**
+ * 依赖定位结果
+ */
+export interface DependencyLocateResult extends DependencyTarget {
+    /** 声明未写版本时，或传递依赖的版本被托管时，托管条目所在的位置 */
+    managed?: DependencyTarget;
+}
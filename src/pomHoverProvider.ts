@@ -0,0 +1,137 @@
+import * as vscode from 'vscode';
+import { CacheManager } from './cacheManager';
+import { DependencyInsights } from './dependencyInsights';
+import { PomDocument, PomDependency } from './pomDocument';
+import { PomHierarchy, PomFile } from './pomHierarchy';
+import { PomProperties } from './pomProperties';
+import { t } from './i18n';
+
+/**
+ * pom.xml 悬停提示
+ * 悬停在 <dependency>（及其 groupId、artifactId、version）或 ${property} 上时，
+ * 根据缓存的依赖树与已解析依赖显示解析结果；没有缓存时只显示 POM 中能得到的信息，不会运行 Maven
+ */
+export class PomHoverProvider implements vscode.HoverProvider {
+    constructor(private readonly cacheManager: CacheManager) { }
+
+    async provideHover(document: vscode.TextDocument, position: vscode.Position): Promise<vscode.Hover | undefined> {
+        const pom = PomDocument.parse(document.getText());
+        const offset = document.offsetAt(position);
+        const reference = pom.findPropertyReferences().find(item => offset >= item.start && offset < item.end);
+        const declaration = pom.findDependencyAt(offset);
+        if (!reference && !declaration) {
+            return undefined;
+        }
+
+        const chain = await PomHierarchy.resolveChain(document.uri.fsPath, pom);
+        const markdown = new vscode.MarkdownString();
+        markdown.isTrusted = { enabledCommands: ['mavenPomEditor.showInDependencyHierarchy', 'mavenPomEditor.checkVersions'] };
+
+        if (reference) {
+            this.appendProperty(markdown, reference.name, chain);
+        }
+        if (declaration) {
+            if (reference) {
+                markdown.appendMarkdown('\n\n---\n\n');
+            }
+            await this.appendDependency(markdown, document.uri, declaration, chain);
+        }
+
+        const elementPath = pom.getElementPath(offset);
+        const range = reference ?? elementPath[elementPath.length - 1];
+        return new vscode.Hover(markdown, new vscode.Range(document.positionAt(range.start), document.positionAt(range.end)));
+    }
+
+    private appendProperty(markdown: vscode.MarkdownString, name: string, chain: PomFile[]): void {
+        markdown.appendMarkdown(`**\${${name}}**\n\n`);
+
+        const declarations = chain.flatMap(file => file.pom.getPropertyDeclarations()
+            .filter(property => property.name === name)
+            .map(property => ({ file, property })));
+        const effective = declarations.find(declaration => !declaration.property.profileId);
+        const value = PomProperties.resolveFromChain(name, chain);
+        const lines: string[] = [];
+        if (value && !value.includes('${')) {
+            lines.push(`${t('hover.value')}: \`${value}\``);
+        }
+
+        if (effective) {
+            lines.push(t('hover.declaredIn', this.formatLocation(effective.file, effective.property.element.start)));
+        } else if (declarations.length > 0) {
+            lines.push(t('hover.declaredInProfiles', declarations.map(declaration => declaration.property.profileId).join(', ')));
+        } else if (lines.length === 0) {
+            lines.push(t('hover.propertyUndefined'));
+        }
+        markdown.appendMarkdown(lines.join('  \n') + '\n\n');
+    }
+
+    private async appendDependency(
+        markdown: vscode.MarkdownString,
+        uri: vscode.Uri,
+        declaration: PomDependency,
+        chain: PomFile[]
+    ): Promise<void> {
+        const { groupId, artifactId } = declaration;
+        markdown.appendMarkdown(`**${groupId}:${artifactId}**\n\n`);
+
+        const data = await DependencyInsights.getCachedData(this.cacheManager, uri.fsPath);
+        const insight = data && DependencyInsights.describe(data, groupId, artifactId, declaration.classifier);
+        const lines: string[] = [];
+        if (insight) {
+            lines.push(`${t('hover.resolvedVersion')}: \`${insight.version ?? '-'}\``);
+            lines.push(`${t('hover.scope')}: \`${insight.scope ?? 'compile'}\``);
+        } else if (data) {
+            lines.push(t('hover.notInTree'));
+        }
+
+        // 版本来源：未写版本时查找托管版本，引用属性时显示属性值
+        if (declaration.location === 'dependencies' && !declaration.version) {
+            const managed = await PomHierarchy.findManagedDependency(chain, groupId, artifactId);
+            if (managed) {
+                const managedChain = chain.includes(managed.file) ? chain : await PomHierarchy.resolveChain(managed.file.path, managed.file.pom);
+                const managedVersion = PomHierarchy.resolveValue(PomDocument.childText(managed.element, 'version'), managedChain);
+                lines.push(t('hover.managedBy', `\`${managedVersion ?? '-'}\``, this.formatLocation(managed.file, managed.element.start)));
+            } else {
+                lines.push(t('hover.notManaged'));
+            }
+        } else if (declaration.version?.includes('${')) {
+            lines.push(`${t('hover.declaredVersion')}: \`${declaration.version}\` = \`${PomHierarchy.resolveValue(declaration.version, chain)}\``);
+        }
+
+        if (insight?.direct) {
+            lines.push(`${t('hover.transitiveCount')}: ${insight.transitiveCount}`);
+        }
+        markdown.appendMarkdown(lines.join('  \n') + '\n\n');
+
+        if (insight && insight.conflicts.length > 0) {
+            markdown.appendMarkdown(`${t('hover.conflicts', insight.conflicts.length)}\n\n`);
+            for (const conflict of insight.conflicts) {
+                const requested = [...new Set(conflict.requests
+                    .filter(request => request.omitted && request.path[0].groupId === groupId && request.path[0].artifactId === artifactId)
+                    .map(request => request.version))];
+                markdown.appendMarkdown(`- \`${conflict.groupId}:${conflict.artifactId}\`: ${t('hover.conflictItem', requested.join(', '), conflict.resolvedVersion)}\n`);
+            }
+            markdown.appendMarkdown('\n');
+        }
+
+        if (!data) {
+            markdown.appendMarkdown(`_${t('hover.notResolved')}_\n\n`);
+        } else if (insight?.resolvedWithoutMaven) {
+            markdown.appendMarkdown(`_${t('hover.resolvedWithoutMaven')}_\n\n`);
+        }
+
+        const args = encodeURIComponent(JSON.stringify([uri.toString(), groupId, artifactId]));
+        markdown.appendMarkdown(
+            `[${t('hover.showInHierarchy')}](command:mavenPomEditor.showInDependencyHierarchy?${args})` +
+            ` · [${t('hover.checkVersions')}](command:mavenPomEditor.checkVersions?${args})`
+        );
+    }
+
+    /**
+     * 文件路径与行号，如 parent/pom.xml:12
+     */
+    private formatLocation(file: PomFile, offset: number): string {
+        const line = file.pom.text.substring(0, offset).split('\n').length;
+        return `\`${vscode.workspace.asRelativePath(file.path)}:${line}\``;
+    }
+}
@@ -0,0 +1,162 @@
+import * as vscode from 'vscode';
+import { MavenUtils } from './mavenUtils';
+import { PomDocument } from './pomDocument';
+import { PomHierarchy, PomFile } from './pomHierarchy';
+
+/**
+ * POM 属性工具类
+ * 汇总 POM 及其父 POM 中声明的属性、覆盖关系与多模块项目中的 ${...} 引用
+ */
+export class PomProperties {
+    /**
+     * 收集属性信息
+     * @param pomPath POM 文件路径
+     * @param effectivePom Effective POM 内容，提供时以其中的属性值作为生效值，否则按继承链计算
+     * @returns 按名称排序的属性列表
+     */
+    static async collect(pomPath: string, effectivePom?: string): Promise<PropertyInfo[]> {
+        const chain = await PomHierarchy.resolveChain(pomPath);
+        const effectiveProperties = effectivePom
+            ? this.getEffectiveProperties(effectivePom, chain[0].pom.artifactId)
+            : undefined;
+
+        const properties = new Map<string, PropertyInfo>();
+        chain.forEach((file, depth) => {
+            for (const declaration of file.pom.getPropertyDeclarations()) {
+                let info = properties.get(declaration.name);
+                if (!info) {
+                    info = { name: declaration.name, effectiveValue: '', fromEffectivePom: false, declarations: [], usages: [] };
+                    properties.set(declaration.name, info);
+                }
+                info.declarations.push({
+                    ...this.toLocation(file, declaration.element.start),
+                    value: declaration.value,
+                    profileId: declaration.profileId,
+                    inherited: depth > 0
+                });
+            }
+        });
+
+        // 引用在当前 POM、父 POM 与同一多模块项目的所有模块中查找
+        const files = new Map<string, PomFile>();
+        [...chain, ...this.getReactorPoms(pomPath)].forEach(file => files.set(file.path, file));
+        for (const file of files.values()) {
+            for (const reference of file.pom.findPropertyReferences()) {
+                properties.get(reference.name)?.usages.push(this.toLocation(file, reference.start));
+            }
+        }
+
+        for (const info of properties.values()) {
+            const effectiveValue = effectiveProperties?.get(info.name);
+            info.fromEffectivePom = effectiveValue !== undefined;
+            info.effectiveValue = effectiveValue ?? this.resolveFromChain(info.name, chain);
+        }
+
+        return [...properties.values()].sort((a, b) => a.name.localeCompare(b.name));
+    }
+
+    /**
+     * 收集多模块项目中的所有 POM：从 findProjectRootPom 找到的根 POM 开始，递归展开 <module>
+     * 不是多模块项目时只包含 POM 本身及其声明的子模块
+     */
+    static getReactorPoms(pomPath: string): PomFile[] {
+        const rootPom = MavenUtils.findProjectRootPom(pomPath) ?? pomPath;
+        const files: PomFile[] = [];
+        for (const modulePomPath of MavenUtils.collectReactorModules(rootPom).keys()) {
+            try {
+                files.push(PomHierarchy.loadPom(modulePomPath));
+            } catch (error) {
+                console.warn(`读取 POM 失败: ${modulePomPath}`, error);
+            }
+        }
+        return files;
+    }
+
+    /**
+     * 判断文件是否位于当前工作区中（本地仓库中的父 POM 不可编辑）
+     */
+    static isInWorkspace(filePath: string): boolean {
+        return vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filePath)) !== undefined;
+    }
+
+    /**
+     * 读取 Effective POM 中当前项目的属性
+     * 多模块方式生成的 Effective POM 以 <projects> 包含多个项目，按 artifactId 选取
+     */
+    private static getEffectiveProperties(effectivePom: string, artifactId: string | undefined): Map<string, string> | undefined {
+        const document = PomDocument.parse(effectivePom);
+        if (document.project) {
+            return document.properties;
+        }
+
+        const projects = PomDocument.childElements(document.roots.find(root => root.name === 'projects'), 'project');
+        const project = projects.find(element => PomDocument.childText(element, 'artifactId') === artifactId);
+        if (!project) {
+            return undefined;
+        }
+        return new Map((PomDocument.child(project, 'properties')?.children ?? []).map(property => [property.name, property.text]));
+    }
+
+    /**
+     * 没有 Effective POM 时按继承链计算属性值，子 POM 覆盖父 POM，profile 中的值不参与
+     */
+    static resolveFromChain(name: string, chain: PomFile[]): string {
+        let value = PomHierarchy.resolveValue(`\${${name}}`, chain) ?? '';
+        // 属性值可以引用其他属性，最多展开 10 层
+        for (let i = 0; i < 10 && value.includes('${'); i++) {
+            const resolved = PomHierarchy.resolveValue(value, chain) ?? '';
+            if (resolved === value) {
+                break;
+            }
+            value = resolved;
+        }
+        return value;
+    }
+
+    private static toLocation(file: PomFile, offset: number): PropertyLocation {
+        const before = file.pom.text.substring(0, offset);
+        const line = before.split('\n').length - 1;
+        return {
+            path: file.path,
+            label: vscode.workspace.asRelativePath(file.path),
+            line,
+            character: offset - (before.lastIndexOf('\n') + 1),
+            editable: this.isInWorkspace(file.path)
+        };
+    }
+}
+
+/**
+ * 属性及其声明与引用
+ */
+export interface PropertyInfo {
+    name: string;
+    effectiveValue: string;
+    /** 生效值是否取自 Effective POM */
+    fromEffectivePom: boolean;
+    /** 声明位置，按继承链从当前 POM 到最顶层父 POM 排列 */
+    declarations: PropertyDeclaration[];
+    usages: PropertyLocation[];
+}
+
+/**
+ * POM 文件中的位置（行列从 0 开始）
+ */
+export interface PropertyLocation {
+    path: string;
+    label: string;
+    line: number;
+    character: number;
+    /** 文件是否位于工作区中 */
+    editable: boolean;
+}
+
+/**
+ * 属性声明
+ */
+export interface PropertyDeclaration extends PropertyLocation {
+    value: string;
+    profileId?: string;
+    /** 是否声明在父 POM 中 */
+    inherited: boolean;
+}
@@ -0,0 +1,220 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { MavenUtils } from './mavenUtils';
+import { PomDocument } from './pomDocument';
+import { PomHierarchy, PomFile } from './pomHierarchy';
+
+/**
+ * 多模块项目（reactor）分析工具类
+ * 从根 POM 递归展开 <modules>，计算模块之间的依赖关系、Maven 的构建顺序、循环依赖与找不到的模块
+ */
+export class ReactorModules {
+    /**
+     * 分析 POM 所在的多模块项目
+     * @param pomPath 项目中任意一个模块的 POM 路径，从 findProjectRootPom 找到的根 POM 开始分析
+     */
+    static async analyze(pomPath: string): Promise<ReactorInfo> {
+        const rootPath = MavenUtils.findProjectRootPom(pomPath) ?? pomPath;
+
+        const files: PomFile[] = [];
+        const missingModules: MissingModule[] = [];
+        const visited = new Set<string>();
+        const visit = (modulePomPath: string) => {
+            if (visited.has(modulePomPath)) {
+                return;
+            }
+            visited.add(modulePomPath);
+            const file = PomHierarchy.loadPom(modulePomPath);
+            files.push(file);
+
+            for (const module of file.pom.getModuleDeclarations()) {
+                const childPath = MavenUtils.resolveModulePath(modulePomPath, module.name);
+                if (fs.existsSync(childPath)) {
+                    visit(childPath);
+                } else {
+                    missingModules.push({ name: module.name, profileId: module.profileId, ...this.toLocation(file, module.element.start) });
+                }
+            }
+        };
+        visit(rootPath);
+
+        const modules = await Promise.all(files.map(file => this.toModule(file)));
+        const byCoordinate = new Map(modules.map(module => [`${module.groupId}:${module.artifactId}`, module]));
+        for (const [index, file] of files.entries()) {
+            modules[index].dependsOn = await this.findModuleDependencies(file, modules[index], byCoordinate);
+        }
+
+        const { buildOrder, cycles } = this.sortModules(modules);
+        return { rootPath, currentPath: pomPath, modules, buildOrder, cycles, missingModules };
+    }
+
+    /**
+     * 按 Maven 的方式排序：依次处理声明顺序中的每个模块，先构建它依赖的模块
+     * 循环依赖中回到正在处理的模块的边被忽略，其余模块仍然给出顺序
+     */
+    private static sortModules(modules: ReactorModule[]): { buildOrder: string[]; cycles: string[][] } {
+        const byPath = new Map(modules.map(module => [module.path, module]));
+        const buildOrder: string[] = [];
+        const cycles = new Map<string, string[]>();
+        const states = new Map<string, 'visiting' | 'done'>();
+        const stack: string[] = [];
+
+        const visit = (module: ReactorModule) => {
+            states.set(module.path, 'visiting');
+            stack.push(module.path);
+            for (const dependency of module.dependsOn) {
+                const state = states.get(dependency.path);
+                if (state === 'visiting') {
+                    const cycle = stack.slice(stack.indexOf(dependency.path));
+                    // 同一个环可能从不同的模块进入，按最小路径旋转后去重
+                    const start = cycle.indexOf([...cycle].sort()[0]);
+                    const normalized = [...cycle.slice(start), ...cycle.slice(0, start)];
+                    cycles.set(normalized.join('\n'), normalized);
+                } else if (!state) {
+                    visit(byPath.get(dependency.path)!);
+                }
+            }
+            stack.pop();
+            states.set(module.path, 'done');
+            buildOrder.push(module.path);
+        };
+
+        for (const module of modules) {
+            if (!states.has(module.path)) {
+                visit(module);
+            }
+        }
+        return { buildOrder, cycles: [...cycles.values()] };
+    }
+
+    /**
+     * 模块对其他模块的依赖：<parent>、依赖、插件及插件的依赖与构建扩展，profile 中的声明不参与
+     */
+    private static async findModuleDependencies(
+        file: PomFile,
+        module: ReactorModule,
+        byCoordinate: Map<string, ReactorModule>
+    ): Promise<ModuleDependency[]> {
+        const chain = await PomHierarchy.resolveChain(file.path, file.pom);
+        const references: Array<{ groupId?: string; artifactId?: string; kind: ModuleDependencyKind; scope?: string }> = [];
+
+        const parent = file.pom.parent;
+        if (parent) {
+            references.push({ groupId: parent.groupId, artifactId: parent.artifactId, kind: 'parent' });
+        }
+        for (const dependency of file.pom.getDependencies()) {
+            if (dependency.profileId === undefined && dependency.location !== 'dependencyManagement') {
+                references.push({
+                    groupId: dependency.groupId,
+                    artifactId: dependency.artifactId,
+                    kind: dependency.location === 'plugin' ? 'plugin' : 'dependency',
+                    scope: dependency.scope
+                });
+            }
+        }
+        for (const plugin of file.pom.getPlugins()) {
+            if (plugin.profileId === undefined && plugin.location === 'plugins') {
+                references.push({ groupId: plugin.groupId, artifactId: plugin.artifactId, kind: 'plugin' });
+            }
+        }
+        const extensions = PomDocument.childElements(PomDocument.child(file.pom.project, 'build', 'extensions'), 'extension');
+        for (const extension of extensions) {
+            references.push({
+                groupId: PomDocument.childText(extension, 'groupId'),
+                artifactId: PomDocument.childText(extension, 'artifactId'),
+                kind: 'extension'
+            });
+        }
+
+        const dependencies = new Map<string, ModuleDependency>();
+        for (const reference of references) {
+            const key = `${PomHierarchy.resolveValue(reference.groupId, chain)}:${PomHierarchy.resolveValue(reference.artifactId, chain)}`;
+            const target = byCoordinate.get(key);
+            // 同一个模块被多次引用时只保留第一条边
+            if (target && target !== module && !dependencies.has(target.path)) {
+                dependencies.set(target.path, { path: target.path, kind: reference.kind, scope: reference.scope });
+            }
+        }
+        return [...dependencies.values()];
+    }
+
+    private static async toModule(file: PomFile): Promise<ReactorModule> {
+        const chain = await PomHierarchy.resolveChain(file.path, file.pom);
+        return {
+            path: file.path,
+            label: vscode.workspace.asRelativePath(file.path),
+            groupId: PomHierarchy.resolveValue(file.pom.groupId, chain) ?? '',
+            artifactId: file.pom.artifactId ?? path.basename(path.dirname(file.path)),
+            version: PomHierarchy.resolveValue(file.pom.version, chain),
+            packaging: file.pom.packaging,
+            name: PomDocument.childText(file.pom.project, 'name'),
+            dependsOn: []
+        };
+    }
+
+    private static toLocation(file: PomFile, offset: number): ModuleLocation {
+        const before = file.pom.text.substring(0, offset);
+        const line = before.split('\n').length - 1;
+        return {
+            path: file.path,
+            label: vscode.workspace.asRelativePath(file.path),
+            line,
+            character: offset - (before.lastIndexOf('\n') + 1)
+        };
+    }
+}
+
+/**
+ * 多模块项目的分析结果
+ */
+export interface ReactorInfo {
+    rootPath: string;
+    /** 打开视图的 POM */
+    currentPath: string;
+    /** 按声明顺序（深度优先）排列的模块 */
+    modules: ReactorModule[];
+    /** 构建顺序，元素为模块的 POM 路径 */
+    buildOrder: string[];
+    /** 循环依赖，每个环为依次依赖的模块 POM 路径 */
+    cycles: string[][];
+    /** 声明了但找不到 pom.xml 的模块 */
+    missingModules: MissingModule[];
+}
+
+export interface ReactorModule {
+    path: string;
+    label: string;
+    groupId: string;
+    artifactId: string;
+    version?: string;
+    packaging: string;
+    name?: string;
+    /** 该模块依赖的其他模块 */
+    dependsOn: ModuleDependency[];
+}
+
+export type ModuleDependencyKind = 'parent' | 'dependency' | 'plugin' | 'extension';
+
+export interface ModuleDependency {
+    /** 被依赖模块的 POM 路径 */
+    path: string;
+    kind: ModuleDependencyKind;
+    scope?: string;
+}
+
+/**
+ * POM 文件中的位置（行列从 0 开始）
+ */
+export interface ModuleLocation {
+    path: string;
+    label: string;
+    line: number;
+    character: number;
+}
+
+export interface MissingModule extends ModuleLocation {
+    /** <module> 中的路径 */
+    name: string;
+    profileId?: string;
+}